@@ -1,38 +1,50 @@
+import 'react-native-gesture-handler';
 import React from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 
 // Import screens
 import HomeScreen from './src/screens/HomeScreen';
 import RecordingScreen from './src/screens/RecordingScreen';
 import TranscriptScreen from './src/screens/TranscriptScreen';
+import TranscriptHistoryScreen from './src/screens/TranscriptHistoryScreen';
 import TasksScreen from './src/screens/TasksScreen';
+import TaskChangesScreen from './src/screens/TaskChangesScreen';
+import PromptTemplatesScreen from './src/screens/PromptTemplatesScreen';
 import SettingsScreen from './src/screens/SettingsScreen';
+import SearchScreen from './src/screens/SearchScreen';
 
 // Initialize navigation
 const Stack = createStackNavigator();
 
 export default function App() {
   return (
-    <SafeAreaProvider>
-      <StatusBar style="dark" />
-      <NavigationContainer>
-        <Stack.Navigator
-          initialRouteName="Home"
-          screenOptions={{
-            headerShown: false,
-            cardStyle: { backgroundColor: '#f5f0e7' }
-          }}
-        >
-          <Stack.Screen name="Home" component={HomeScreen} />
-          <Stack.Screen name="Recording" component={RecordingScreen} />
-          <Stack.Screen name="Transcript" component={TranscriptScreen} />
-          <Stack.Screen name="Tasks" component={TasksScreen} />
-          <Stack.Screen name="Settings" component={SettingsScreen} />
-        </Stack.Navigator>
-      </NavigationContainer>
-    </SafeAreaProvider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <SafeAreaProvider>
+        <StatusBar style="dark" />
+        <NavigationContainer>
+          <Stack.Navigator
+            initialRouteName="Home"
+            screenOptions={{
+              headerShown: false,
+              cardStyle: { backgroundColor: '#f5f0e7' }
+            }}
+          >
+            <Stack.Screen name="Home" component={HomeScreen} />
+            <Stack.Screen name="Recording" component={RecordingScreen} />
+            <Stack.Screen name="Transcript" component={TranscriptScreen} />
+            <Stack.Screen name="TranscriptHistory" component={TranscriptHistoryScreen} />
+            <Stack.Screen name="Tasks" component={TasksScreen} />
+            <Stack.Screen name="TaskChanges" component={TaskChangesScreen} />
+            <Stack.Screen name="PromptTemplates" component={PromptTemplatesScreen} />
+            <Stack.Screen name="Settings" component={SettingsScreen} />
+            <Stack.Screen name="Search" component={SearchScreen} />
+          </Stack.Navigator>
+        </NavigationContainer>
+      </SafeAreaProvider>
+    </GestureHandlerRootView>
   );
 }
\ No newline at end of file
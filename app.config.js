@@ -8,7 +8,8 @@ export default ({ config }) => {
     claudeApiModel: 'claude-3-haiku-20240307',
     openaiApiUrl: 'https://api.openai.com/v1',
     googleWebClientId: 'YOUR_GOOGLE_WEB_CLIENT_ID_PLACEHOLDER',
-    logLevel: 'info'
+    logLevel: 'info',
+    demoMode: false
   };
 
   // Get configuration from environment variables
@@ -18,7 +19,8 @@ export default ({ config }) => {
     claudeApiModel: process.env.CLAUDE_API_MODEL || defaultConfig.claudeApiModel,
     openaiApiUrl: process.env.OPENAI_API_URL || defaultConfig.openaiApiUrl,
     googleWebClientId: process.env.GOOGLE_WEB_CLIENT_ID || defaultConfig.googleWebClientId,
-    logLevel: process.env.LOG_LEVEL || defaultConfig.logLevel
+    logLevel: process.env.LOG_LEVEL || defaultConfig.logLevel,
+    demoMode: process.env.DEMO_MODE === 'true'
   };
 
   // Validate that no production build uses default credentials
@@ -36,6 +38,10 @@ export default ({ config }) => {
     if (envConfig.openaiApiUrl === defaultConfig.openaiApiUrl) {
       console.warn('WARNING: Using default OpenAI API URL in production!');
     }
+
+    if (envConfig.demoMode) {
+      console.warn('WARNING: Demo mode is on in production; failed task extraction will show mock tasks!');
+    }
   }
 
   return {
@@ -0,0 +1,106 @@
+// src/components/LanguagePicker.tsx
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, FlatList } from 'react-native';
+import { LANGUAGE_NAMES, AUTO_DETECT_LANGUAGE, getLanguageName } from '../config/languages';
+
+interface LanguagePickerProps {
+  visible: boolean;
+  title: string;
+  selected: string | undefined; // ISO 639-1 code, or 'auto'
+  allowAuto?: boolean; // offer automatic detection at the top of the list
+  onSelect: (language: string) => void;
+  onClose: () => void;
+}
+
+// Languages sorted by name, so the list is easy to scan
+const SORTED_LANGUAGES = Object.keys(LANGUAGE_NAMES).sort((a, b) =>
+  LANGUAGE_NAMES[a].localeCompare(LANGUAGE_NAMES[b])
+);
+
+const LanguagePicker = ({ visible, title, selected, allowAuto = false, onSelect, onClose }: LanguagePickerProps) => {
+  const options = allowAuto ? [AUTO_DETECT_LANGUAGE, ...SORTED_LANGUAGES] : SORTED_LANGUAGES;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <Text style={styles.title}>{title}</Text>
+          <FlatList
+            data={options}
+            keyExtractor={(code) => code}
+            initialNumToRender={20}
+            renderItem={({ item: code }) => (
+              <TouchableOpacity
+                style={styles.option}
+                onPress={() => {
+                  onSelect(code);
+                  onClose();
+                }}
+              >
+                <Text style={[styles.optionText, code === selected ? styles.optionTextSelected : null]}>
+                  {getLanguageName(code)}
+                </Text>
+                {code === selected && <Text style={styles.optionTextSelected}>✓</Text>}
+              </TouchableOpacity>
+            )}
+            ItemSeparatorComponent={() => <View style={styles.separator} />}
+          />
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    backgroundColor: '#f5f0e7',
+    borderRadius: 8,
+    padding: 16,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginBottom: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+  },
+  optionText: {
+    fontSize: 16,
+    color: '#333333',
+  },
+  optionTextSelected: {
+    fontSize: 16,
+    color: '#005e46',
+    fontWeight: 'bold',
+  },
+  separator: {
+    height: 1,
+    backgroundColor: '#d6ceb9',
+  },
+  closeButton: {
+    alignSelf: 'flex-end',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    marginTop: 8,
+  },
+  closeText: {
+    fontSize: 14,
+    color: '#666666',
+  },
+});
+
+export default LanguagePicker;
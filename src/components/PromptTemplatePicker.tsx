@@ -0,0 +1,121 @@
+// src/components/PromptTemplatePicker.tsx
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, FlatList } from 'react-native';
+import { PromptTemplate, getLatestVersion } from '../services/prompt-template-service';
+
+interface PromptTemplatePickerProps {
+  visible: boolean;
+  title: string;
+  templates: PromptTemplate[];
+  selected: string | undefined; // template ID, or undefined for the default
+  defaultName?: string; // name of the default template, offered at the top of the list when given
+  onSelect: (templateId: string | undefined) => void;
+  onClose: () => void;
+}
+
+const DEFAULT_OPTION = 'default';
+
+const PromptTemplatePicker = ({
+  visible,
+  title,
+  templates,
+  selected,
+  defaultName,
+  onSelect,
+  onClose
+}: PromptTemplatePickerProps) => {
+  const options = defaultName !== undefined
+    ? [DEFAULT_OPTION, ...templates.map(template => template.id)]
+    : templates.map(template => template.id);
+  const current = selected || (defaultName !== undefined ? DEFAULT_OPTION : undefined);
+
+  const describe = (option: string) => {
+    if (option === DEFAULT_OPTION) return `Default from Settings (${defaultName})`;
+    const template = templates.find(item => item.id === option);
+    return template ? `${template.name} · v${getLatestVersion(template).version}` : option;
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <Text style={styles.title}>{title}</Text>
+          <FlatList
+            data={options}
+            keyExtractor={(option) => option}
+            renderItem={({ item: option }) => (
+              <TouchableOpacity
+                style={styles.option}
+                onPress={() => {
+                  onSelect(option === DEFAULT_OPTION ? undefined : option);
+                  onClose();
+                }}
+              >
+                <Text style={[styles.optionText, option === current ? styles.optionTextSelected : null]}>
+                  {describe(option)}
+                </Text>
+                {option === current && <Text style={styles.optionTextSelected}>✓</Text>}
+              </TouchableOpacity>
+            )}
+            ItemSeparatorComponent={() => <View style={styles.separator} />}
+          />
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    backgroundColor: '#f5f0e7',
+    borderRadius: 8,
+    padding: 16,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginBottom: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333333',
+  },
+  optionTextSelected: {
+    fontSize: 16,
+    color: '#005e46',
+    fontWeight: 'bold',
+  },
+  separator: {
+    height: 1,
+    backgroundColor: '#d6ceb9',
+  },
+  closeButton: {
+    alignSelf: 'flex-end',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    marginTop: 8,
+  },
+  closeText: {
+    fontSize: 14,
+    color: '#666666',
+  },
+});
+
+export default PromptTemplatePicker;
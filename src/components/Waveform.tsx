@@ -0,0 +1,90 @@
+// src/components/Waveform.tsx
+import React, { useState } from 'react';
+import { View, StyleSheet, TouchableWithoutFeedback, GestureResponderEvent } from 'react-native';
+
+interface WaveformProps {
+  samples: number[]; // normalized 0-1 amplitude envelope
+  progress: number; // playback position, 0-1
+  height?: number;
+  markers?: number[]; // bookmarked positions, 0-1
+  onSeek?: (position: number) => void; // called with the tapped position, 0-1
+}
+
+const Waveform = ({ samples, progress, height = 48, markers = [], onSeek }: WaveformProps) => {
+  const [width, setWidth] = useState(0);
+  const playedBars = Math.floor(Math.min(1, Math.max(0, progress)) * samples.length);
+
+  // The strip takes touches itself (box-only), so locationX is measured from its left edge
+  const handlePress = (event: GestureResponderEvent) => {
+    if (onSeek && width > 0) {
+      onSeek(Math.min(1, Math.max(0, event.nativeEvent.locationX / width)));
+    }
+  };
+
+  return (
+    <TouchableWithoutFeedback onPress={handlePress} disabled={!onSeek}>
+      <View
+        style={[styles.container, { height }]}
+        onLayout={(event) => setWidth(event.nativeEvent.layout.width)}
+        pointerEvents="box-only"
+      >
+        {samples.map((level, index) => (
+          <View
+            key={index}
+            style={[
+              styles.bar,
+              index < playedBars ? styles.barPlayed : null,
+              { height: Math.max(2, level * height) }
+            ]}
+          />
+        ))}
+
+        {/* Bookmarked moments */}
+        {markers.map((position, index) => (
+          <View
+            key={`marker-${index}`}
+            style={[styles.marker, { left: `${Math.min(1, Math.max(0, position)) * 100}%` }]}
+          />
+        ))}
+
+        {/* Scrub position */}
+        <View style={[styles.playhead, { left: `${Math.min(1, Math.max(0, progress)) * 100}%` }]} />
+      </View>
+    </TouchableWithoutFeedback>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  bar: {
+    flex: 1,
+    marginHorizontal: 0.5,
+    backgroundColor: '#d6ceb9',
+    borderRadius: 1,
+  },
+  barPlayed: {
+    backgroundColor: '#005e46',
+  },
+  marker: {
+    position: 'absolute',
+    top: 0,
+    width: 6,
+    height: 6,
+    marginLeft: -3,
+    borderRadius: 3,
+    backgroundColor: '#f5827a',
+  },
+  playhead: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: '#f5827a',
+  },
+});
+
+export default Waveform;
@@ -10,6 +10,7 @@ export const ENV = {
   GOOGLE_WEB_CLIENT_ID: Constants.expoConfig?.extra?.googleWebClientId || '',
   OPENAI_API_URL: Constants.expoConfig?.extra?.openaiApiUrl || 'https://api.openai.com/v1', 
   LOG_LEVEL: Constants.expoConfig?.extra?.logLevel || 'info',
+  DEMO_MODE: Constants.expoConfig?.extra?.demoMode === true, // fall back to mock tasks when Claude fails
 };
 
 // Secure key storage
@@ -48,6 +49,7 @@ export const SecureKeyStorage = {
 export const SECURE_STORAGE_KEYS = {
   CLAUDE_API_KEY: 'janaru_claude_api_key',
   OPENAI_API_KEY: 'janaru_openai_api_key',
+  TRANSCRIPTION_SERVER_API_KEY: 'janaru_transcription_server_api_key', // for OpenAI-compatible servers other than OpenAI
   GOOGLE_REFRESH_TOKEN: 'janaru_google_refresh_token',
   USER_AUTH_TOKEN: 'janaru_user_auth_token',
 };
@@ -0,0 +1,101 @@
+// src/config/languages.ts
+
+// Setting value that lets the transcription provider detect the spoken language
+export const AUTO_DETECT_LANGUAGE = 'auto';
+
+// Language used for tasks when nothing else is chosen
+export const DEFAULT_OUTPUT_LANGUAGE = 'en';
+
+// English names of the languages Whisper transcribes, by ISO 639-1 code
+export const LANGUAGE_NAMES: Record<string, string> = {
+  af: 'Afrikaans',
+  ar: 'Arabic',
+  hy: 'Armenian',
+  az: 'Azerbaijani',
+  be: 'Belarusian',
+  bs: 'Bosnian',
+  bg: 'Bulgarian',
+  ca: 'Catalan',
+  zh: 'Chinese',
+  hr: 'Croatian',
+  cs: 'Czech',
+  da: 'Danish',
+  nl: 'Dutch',
+  en: 'English',
+  et: 'Estonian',
+  fi: 'Finnish',
+  fr: 'French',
+  gl: 'Galician',
+  de: 'German',
+  el: 'Greek',
+  he: 'Hebrew',
+  hi: 'Hindi',
+  hu: 'Hungarian',
+  is: 'Icelandic',
+  id: 'Indonesian',
+  it: 'Italian',
+  ja: 'Japanese',
+  kn: 'Kannada',
+  kk: 'Kazakh',
+  ko: 'Korean',
+  lv: 'Latvian',
+  lt: 'Lithuanian',
+  mk: 'Macedonian',
+  ms: 'Malay',
+  mr: 'Marathi',
+  mi: 'Maori',
+  ne: 'Nepali',
+  no: 'Norwegian',
+  fa: 'Persian',
+  pl: 'Polish',
+  pt: 'Portuguese',
+  ro: 'Romanian',
+  ru: 'Russian',
+  sr: 'Serbian',
+  sk: 'Slovak',
+  sl: 'Slovenian',
+  es: 'Spanish',
+  sw: 'Swahili',
+  sv: 'Swedish',
+  tl: 'Tagalog',
+  ta: 'Tamil',
+  th: 'Thai',
+  tr: 'Turkish',
+  uk: 'Ukrainian',
+  ur: 'Urdu',
+  vi: 'Vietnamese',
+  cy: 'Welsh',
+};
+
+/**
+ * Get a language's name for display, e.g. 'es' -> 'Spanish'
+ */
+export function getLanguageName(code: string | undefined): string {
+  if (!code || code === AUTO_DETECT_LANGUAGE) {
+    return 'Auto-detect';
+  }
+  return LANGUAGE_NAMES[code] || code.toUpperCase();
+}
+
+/**
+ * Turn a language reported by a provider into an ISO 639-1 code. OpenAI
+ * reports English names ('spanish'), whisper.cpp may report either.
+ */
+export function toLanguageCode(language: unknown): string | undefined {
+  if (typeof language !== 'string' || !language.trim()) {
+    return undefined;
+  }
+
+  const value = language.trim().toLowerCase();
+  if (value in LANGUAGE_NAMES) {
+    return value;
+  }
+  return Object.keys(LANGUAGE_NAMES).find(code => LANGUAGE_NAMES[code].toLowerCase() === value);
+}
+
+/**
+ * Get the language to ask a provider for, or undefined to let it detect the language
+ */
+export function getRequestLanguage(language: string | undefined): string | undefined {
+  return language && language !== AUTO_DETECT_LANGUAGE ? language : undefined;
+}
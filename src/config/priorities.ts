@@ -0,0 +1,98 @@
+// src/config/priorities.ts
+
+// Types
+export type TaskPriority = 'urgent' | 'high' | 'medium' | 'low' | 'someday';
+
+export interface PriorityLevel {
+  id: TaskPriority;
+  label: string;
+  sectionTitle: string; // heading of the level's section in the task list
+  description: string; // which tasks belong here, as Claude is told
+  urgency: number; // scores given to tasks of this level that Claude didn't score, from 1 to 5
+  importance: number;
+}
+
+export type EisenhowerQuadrantId = 'do' | 'schedule' | 'delegate' | 'later';
+
+export interface EisenhowerQuadrant {
+  id: EisenhowerQuadrantId;
+  label: string;
+  description: string;
+  urgent: boolean;
+  important: boolean;
+}
+
+// Priority levels, most pressing first. Task sections and the extraction schema follow this order.
+export const PRIORITY_LEVELS: PriorityLevel[] = [
+  {
+    id: 'urgent',
+    label: 'Urgent',
+    sectionTitle: 'Urgent (Today or Tomorrow)',
+    description: 'Has to happen today or tomorrow, or something goes wrong',
+    urgency: 5,
+    importance: 5,
+  },
+  {
+    id: 'high',
+    label: 'High',
+    sectionTitle: 'High Priority (Do This Week)',
+    description: 'To do this week',
+    urgency: 4,
+    importance: 4,
+  },
+  {
+    id: 'medium',
+    label: 'Medium',
+    sectionTitle: 'Medium Priority (Next 1-2 Weeks)',
+    description: 'To do in the next 1-2 weeks',
+    urgency: 3,
+    importance: 4,
+  },
+  {
+    id: 'low',
+    label: 'Low',
+    sectionTitle: 'Low Priority (This Month)',
+    description: 'Worth doing this month, but nothing depends on it soon',
+    urgency: 2,
+    importance: 2,
+  },
+  {
+    id: 'someday',
+    label: 'Someday',
+    sectionTitle: 'Someday',
+    description: 'Ideas and wishes with no deadline',
+    urgency: 1,
+    importance: 2,
+  },
+];
+
+export const TASK_PRIORITIES: TaskPriority[] = PRIORITY_LEVELS.map(level => level.id);
+
+// Priority for tasks whose level is missing or unknown
+export const DEFAULT_PRIORITY: TaskPriority = 'medium';
+
+// Urgency and importance scores from this up count as urgent or important
+export const EISENHOWER_THRESHOLD = 4;
+
+// Quadrants of the urgent/important matrix, in reading order
+export const EISENHOWER_QUADRANTS: EisenhowerQuadrant[] = [
+  { id: 'do', label: 'Do First', description: 'Urgent and important', urgent: true, important: true },
+  { id: 'schedule', label: 'Schedule', description: 'Important, not urgent', urgent: false, important: true },
+  { id: 'delegate', label: 'Delegate', description: 'Urgent, not important', urgent: true, important: false },
+  { id: 'later', label: 'Later', description: 'Neither urgent nor important', urgent: false, important: false },
+];
+
+/**
+ * Whether a value is one of the priority levels
+ */
+export function isTaskPriority(value: unknown): value is TaskPriority {
+  return typeof value === 'string' && (TASK_PRIORITIES as string[]).includes(value);
+}
+
+/**
+ * Look up a priority level, falling back to the default for unknown IDs
+ */
+export function getPriorityLevel(id: string | undefined): PriorityLevel {
+  return PRIORITY_LEVELS.find(level => level.id === id) ||
+    PRIORITY_LEVELS.find(level => level.id === DEFAULT_PRIORITY)!;
+}
@@ -0,0 +1,40 @@
+// src/config/prompt-templates.ts
+
+// A value filled into extraction prompt templates
+export interface PromptVariable {
+  name: string; // written in a template as {name}
+  description: string;
+}
+
+// Variables a template can use, in the order they are offered in the editor
+export const PROMPT_VARIABLES: PromptVariable[] = [
+  { name: 'transcript', description: 'What was said in the vent' },
+  { name: 'today', description: "Today's weekday and date, e.g. Sunday, 2026-10-18" },
+  { name: 'timezone', description: 'Your time zone, e.g. America/New_York (UTC-04:00)' },
+  { name: 'preferences', description: 'Your task language and vocabulary from Settings' },
+  { name: 'highlights', description: 'The moments you marked while recording, if any' },
+];
+
+export const BUILT_IN_TEMPLATE_ID = 'built-in';
+export const BUILT_IN_TEMPLATE_NAME = 'Standard';
+
+// The template used unless another is chosen; changing it needs a new BUILT_IN_TEMPLATE_VERSION
+export const BUILT_IN_PROMPT_TEMPLATE = `
+I need you to extract actionable tasks from the following transcript and organize them by priority. For each task:
+1. Create a clear, concise title
+2. Identify a suggested timeframe (specific date if mentioned, or general timing)
+3. Estimate duration if implied
+4. Give each a priority: urgent (today or tomorrow), high (this week), medium (next 1-2 weeks), low (this month) or someday (no deadline), and score how urgent and how important it is from 1 to 5
+5. Break complex tasks into sub-tasks if needed
+6. Today is {today}, time zone {timezone}. Work out dates like "next Wednesday" or "end of the month" from today, and copy the words each date comes from into datePhrase
+{preferences}{highlights}
+Here's the transcript:
+{transcript}
+`;
+
+export const BUILT_IN_TEMPLATE_VERSION = 2;
+
+// Transcript templates are previewed against in Settings
+export const SAMPLE_TRANSCRIPT =
+  "Okay, so this week is a lot. I have to file my taxes before Friday, and the dog's been limping so I should book the vet for next Wednesday. " +
+  "Also need to call Mum about her birthday dinner at the end of the month. And at some point I really want to sort out the garage.";
@@ -0,0 +1,100 @@
+// src/config/recording-profiles.ts
+import { Audio } from 'expo-av';
+
+// Types
+export type RecordingQualityProfileId = 'speech-compact' | 'standard' | 'high-fidelity';
+
+export interface RecordingQualityProfile {
+  id: RecordingQualityProfileId;
+  label: string;
+  description: string;
+  sampleRate: number; // in Hz
+  numberOfChannels: number;
+  bitRate: number; // in bits per second
+  iosAudioQuality: number;
+}
+
+// Named recording profiles, from smallest to largest files
+export const RECORDING_QUALITY_PROFILES: Record<RecordingQualityProfileId, RecordingQualityProfile> = {
+  'speech-compact': {
+    id: 'speech-compact',
+    label: 'Speech (compact)',
+    description: '16 kHz mono, 32 kbps. Plenty for transcription, smallest uploads.',
+    sampleRate: 16000,
+    numberOfChannels: 1,
+    bitRate: 32000,
+    iosAudioQuality: Audio.IOSAudioQuality.LOW,
+  },
+  'standard': {
+    id: 'standard',
+    label: 'Standard',
+    description: '22 kHz mono, 64 kbps. Clearer playback at a moderate size.',
+    sampleRate: 22050,
+    numberOfChannels: 1,
+    bitRate: 64000,
+    iosAudioQuality: Audio.IOSAudioQuality.MEDIUM,
+  },
+  'high-fidelity': {
+    id: 'high-fidelity',
+    label: 'High fidelity',
+    description: '44.1 kHz mono, 128 kbps. Best sound, largest files.',
+    sampleRate: 44100,
+    numberOfChannels: 1,
+    bitRate: 128000,
+    iosAudioQuality: Audio.IOSAudioQuality.MEDIUM,
+  },
+};
+
+export const DEFAULT_RECORDING_QUALITY_PROFILE: RecordingQualityProfileId = 'speech-compact';
+
+// Recordings made before profiles existed used the high fidelity settings
+export const LEGACY_RECORDING_QUALITY_PROFILE: RecordingQualityProfileId = 'high-fidelity';
+
+/**
+ * Look up a profile, falling back to the default for unknown IDs
+ */
+export function getRecordingQualityProfile(id: string | undefined): RecordingQualityProfile {
+  if (id && id in RECORDING_QUALITY_PROFILES) {
+    return RECORDING_QUALITY_PROFILES[id as RecordingQualityProfileId];
+  }
+  return RECORDING_QUALITY_PROFILES[DEFAULT_RECORDING_QUALITY_PROFILE];
+}
+
+/**
+ * Build expo-av recording options for a profile
+ */
+export function buildRecordingOptions(profile: RecordingQualityProfile): Audio.RecordingOptions {
+  return {
+    isMeteringEnabled: true,
+    android: {
+      extension: '.m4a',
+      outputFormat: Audio.AndroidOutputFormat.MPEG_4,
+      audioEncoder: Audio.AndroidAudioEncoder.AAC,
+      sampleRate: profile.sampleRate,
+      numberOfChannels: profile.numberOfChannels,
+      bitRate: profile.bitRate,
+    },
+    ios: {
+      extension: '.m4a',
+      outputFormat: Audio.IOSOutputFormat.MPEG4AAC,
+      audioQuality: profile.iosAudioQuality,
+      sampleRate: profile.sampleRate,
+      numberOfChannels: profile.numberOfChannels,
+      bitRate: profile.bitRate,
+      linearPCMBitDepth: 16,
+      linearPCMIsBigEndian: false,
+      linearPCMIsFloat: false,
+    },
+    web: {
+      mimeType: 'audio/webm',
+      bitsPerSecond: profile.bitRate,
+    },
+  };
+}
+
+/**
+ * Rough file size per minute of audio, in bytes
+ */
+export function estimateBytesPerMinute(profile: RecordingQualityProfile): number {
+  return (profile.bitRate / 8) * 60;
+}
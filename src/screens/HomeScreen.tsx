@@ -1,34 +1,316 @@
-import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, SafeAreaView, FlatList } from 'react-native';
-import { useNavigation } from '@react-navigation/native';
-import { recordingService } from '../services/recording-service';
+import React, { useEffect, useState, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  FlatList,
+  Alert,
+  Modal,
+  TextInput,
+  ActivityIndicator
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { Swipeable } from 'react-native-gesture-handler';
+import { recordingService, Recording } from '../services/recording-service';
+import { recordingJournalService, RecoverableSession } from '../services/recording-journal-service';
+import { audioImportService } from '../services/audio-import-service';
+import { jobQueueService, Job, JobType } from '../services/job-queue-service';
+import { logger } from '../config';
+
+// How long a deleted vent can be restored
+const UNDO_WINDOW_MS = 5000;
+
+// How each kind of background job is described in the list
+const JOB_LABELS: Record<JobType, { name: string; running: string }> = {
+  transcribe: { name: 'Transcription', running: 'Transcribing' },
+  extract: { name: 'Task extraction', running: 'Extracting tasks' },
+};
 
 const HomeScreen = () => {
   const navigation = useNavigation();
-  const [recordings, setRecordings] = useState([]);
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  
+  // Deletion waiting out the undo window
+  const [pendingDeletion, setPendingDeletion] = useState<Recording | null>(null);
+  const pendingDeletionRef = useRef<Recording | null>(null);
+  const deletionTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  
+  // Rename dialog
+  const [renamingRecording, setRenamingRecording] = useState<Recording | null>(null);
+  const [renameText, setRenameText] = useState('');
+  
+  const [importing, setImporting] = useState(false);
+  
+  // Bumped whenever the job queue changes, so statuses re-render
+  const [queueVersion, setQueueVersion] = useState(0);
   
   useEffect(() => {
     // Add mock recordings for demo
     recordingService.addMockRecordings().then(() => {
       // Load recordings
       loadRecordings();
+      
+      // Offer to recover vents interrupted by a crash
+      checkForInterruptedRecordings();
     });
+    
+    // Show background job progress as it happens
+    const unsubscribe = jobQueueService.subscribe(() => setQueueVersion(version => version + 1));
+    
+    // Finish any pending deletion when leaving the screen
+    return () => {
+      unsubscribe();
+      commitPendingDeletion();
+    };
   }, []);
   
+  // Refresh the list when coming back from another screen
+  useFocusEffect(
+    React.useCallback(() => {
+      loadRecordings();
+    }, [])
+  );
+  
+  const checkForInterruptedRecordings = async () => {
+    try {
+      const sessions = await recordingJournalService.findRecoverableSessions();
+      promptRecovery(sessions);
+    } catch (error) {
+      logger.error('Failed to check for interrupted recordings', error);
+    }
+  };
+  
+  // Ask about each recoverable session in turn
+  const promptRecovery = (sessions: RecoverableSession[]) => {
+    if (sessions.length === 0) {
+      loadRecordings();
+      return;
+    }
+    
+    const [current, ...rest] = sessions;
+    const minutes = Math.max(1, Math.round(current.duration / 60));
+    const recover = async (mode: 'stitched' | 'separate') => {
+      try {
+        const recordingIds = await recordingJournalService.recoverSession(current, mode);
+        for (const recordingId of recordingIds) {
+          await jobQueueService.enqueue('transcribe', recordingId);
+        }
+      } catch (error) {
+        logger.error('Failed to recover recording', error);
+        Alert.alert('Recovery Failed', 'Could not recover this recording.');
+      }
+      promptRecovery(rest);
+    };
+    
+    const buttons = [
+      {
+        text: 'Discard',
+        style: 'destructive' as const,
+        onPress: async () => {
+          await recordingJournalService.discardSession(current.session.id);
+          promptRecovery(rest);
+        }
+      },
+      { text: 'Recover', onPress: () => recover('stitched') },
+    ];
+    
+    // Multi-segment sessions can also be kept as separate vents
+    if (current.segments.length > 1) {
+      buttons.splice(1, 0, { text: 'Keep Separate', onPress: () => recover('separate') });
+    }
+    
+    Alert.alert(
+      'Unsaved Vent Found',
+      `A ${minutes} min recording from ${formatDate(current.session.startedAt)} was interrupted` +
+        (current.segments.length > 1 ? ` (${current.segments.length} segments).` : '.') +
+        ' Would you like to recover it?',
+      buttons,
+      { cancelable: false }
+    );
+  };
+  
   const loadRecordings = () => {
     const data = recordingService.getRecordings();
-    setRecordings(data);
+    setRecordings(data.filter(rec => rec.id !== pendingDeletionRef.current?.id));
+  };
+  
+  // Delete the recording whose undo window is open
+  const commitPendingDeletion = async () => {
+    if (deletionTimerRef.current) {
+      clearTimeout(deletionTimerRef.current);
+      deletionTimerRef.current = null;
+    }
+    
+    const recording = pendingDeletionRef.current;
+    if (!recording) return;
+    
+    pendingDeletionRef.current = null;
+    setPendingDeletion(null);
+    
+    try {
+      await recordingService.deleteRecording(recording.id);
+      await jobQueueService.removeJobsForRecording(recording.id);
+      logger.info('Recording deleted', { recordingId: recording.id });
+    } catch (error) {
+      logger.error('Failed to delete recording', error);
+      Alert.alert('Error', 'Failed to delete recording. Please try again.');
+      loadRecordings();
+    }
+  };
+  
+  // Hide the recording now and delete it once the undo window closes
+  const handleDelete = async (recording: Recording) => {
+    // Only one deletion can be undone at a time
+    await commitPendingDeletion();
+    
+    pendingDeletionRef.current = recording;
+    setPendingDeletion(recording);
+    setRecordings(prev => prev.filter(rec => rec.id !== recording.id));
+    
+    deletionTimerRef.current = setTimeout(() => {
+      commitPendingDeletion();
+    }, UNDO_WINDOW_MS);
+  };
+  
+  const handleUndoDelete = () => {
+    if (deletionTimerRef.current) {
+      clearTimeout(deletionTimerRef.current);
+      deletionTimerRef.current = null;
+    }
+    
+    pendingDeletionRef.current = null;
+    setPendingDeletion(null);
+    loadRecordings();
+  };
+  
+  const handleDuplicate = async (recording: Recording) => {
+    try {
+      await recordingService.duplicateRecording(recording.id);
+      loadRecordings();
+    } catch (error) {
+      logger.error('Failed to duplicate recording', error);
+      Alert.alert('Error', 'Failed to duplicate recording. Please try again.');
+    }
+  };
+  
+  const handleStartRename = (recording: Recording) => {
+    setRenameText(recording.title);
+    setRenamingRecording(recording);
+  };
+  
+  const handleSaveRename = async () => {
+    if (!renamingRecording) return;
+    
+    if (!renameText.trim()) {
+      Alert.alert('Invalid Title', 'Please enter a title for this vent.');
+      return;
+    }
+    
+    try {
+      await recordingService.renameRecording(renamingRecording.id, renameText);
+      setRenamingRecording(null);
+      loadRecordings();
+    } catch (error) {
+      logger.error('Failed to rename recording', error);
+      Alert.alert('Error', 'Failed to rename recording. Please try again.');
+    }
+  };
+  
+  // Long press shows the other actions for a vent
+  const handleRecordingLongPress = (recording: Recording) => {
+    Alert.alert(
+      recording.title,
+      undefined,
+      [
+        { text: 'Rename', onPress: () => handleStartRename(recording) },
+        { text: 'Duplicate', onPress: () => handleDuplicate(recording) },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
   };
   
   const handleRecordPress = () => {
     navigation.navigate('Recording');
   };
   
+  // Import a voice memo from another app and send it through the same flow
+  const handleImportPress = async () => {
+    setImporting(true);
+    
+    try {
+      const recordingId = await audioImportService.pickAndImportAudio();
+      if (recordingId) {
+        await jobQueueService.enqueue('transcribe', recordingId);
+        loadRecordings();
+        navigation.navigate('Transcript', { recordingId });
+      }
+    } catch (error) {
+      logger.error('Failed to import audio', error);
+      Alert.alert(
+        'Import Failed',
+        error instanceof Error ? error.message : 'Could not import this audio file.'
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+  
   const handleSettingsPress = () => {
     navigation.navigate('Settings');
   };
   
-  const formatDate = (dateString) => {
+  const handleSearchPress = () => {
+    navigation.navigate('Search');
+  };
+  
+  // Describe the background job a recording is waiting on, if any
+  const describeJob = (job: Job) => {
+    const label = JOB_LABELS[job.type];
+    
+    if (job.status === 'failed') {
+      return `${label.name} failed`;
+    }
+    if (!jobQueueService.isOnline()) {
+      return `${label.name} waiting for a connection`;
+    }
+    if (job.status === 'running') {
+      const progress = jobQueueService.getProgress(job.id);
+      if (progress && progress.partialTasks) {
+        const found = progress.partialTasks.length;
+        return `${label.running}... ${found} found so far`;
+      }
+      return progress && !progress.indeterminate
+        ? `${label.running}... ${Math.round(progress.fraction * 100)}%`
+        : `${label.running}...`;
+    }
+    if (job.status === 'retrying') {
+      const time = new Date(job.nextAttemptAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+      return `${label.name} will retry at ${time}`;
+    }
+    return `${label.name} queued`;
+  };
+  
+  const renderJobStatus = (recordingId: string) => {
+    const [job] = jobQueueService.getJobsForRecording(recordingId);
+    if (!job) return null;
+    
+    return (
+      <View style={styles.jobStatusRow}>
+        <Text style={[styles.jobStatusText, job.status === 'failed' ? styles.jobStatusFailed : null]}>
+          {describeJob(job)}
+        </Text>
+        {(job.status === 'failed' || job.status === 'retrying') && (
+          <TouchableOpacity onPress={() => jobQueueService.retryJob(job.id)}>
+            <Text style={styles.jobRetryText}>Retry</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+  
+  const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
   };
@@ -37,9 +319,28 @@ const HomeScreen = () => {
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Janaru</Text>
-        <TouchableOpacity style={styles.settingsButton} onPress={handleSettingsPress}>
-          <Text style={styles.settingsButtonText}>Settings</Text>
-        </TouchableOpacity>
+        <View style={styles.headerButtons}>
+          <TouchableOpacity
+            style={[styles.settingsButton, styles.headerButtonSpacing]}
+            onPress={handleSearchPress}
+          >
+            <Text style={styles.settingsButtonText}>Search</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.settingsButton, styles.headerButtonSpacing]}
+            onPress={handleImportPress}
+            disabled={importing}
+          >
+            {importing ? (
+              <ActivityIndicator size="small" color="#005e46" />
+            ) : (
+              <Text style={styles.settingsButtonText}>Import</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.settingsButton} onPress={handleSettingsPress}>
+            <Text style={styles.settingsButtonText}>Settings</Text>
+          </TouchableOpacity>
+        </View>
       </View>
       
       <View style={styles.content}>
@@ -50,21 +351,76 @@ const HomeScreen = () => {
         ) : (
           <FlatList
             data={recordings}
+            extraData={queueVersion}
             keyExtractor={(item) => item.id}
             renderItem={({ item }) => (
-              <TouchableOpacity
-                style={styles.recordingItem}
-                onPress={() => navigation.navigate('Tasks', { recordingId: item.id })}
+              <Swipeable
+                renderRightActions={() => (
+                  <TouchableOpacity style={styles.deleteAction} onPress={() => handleDelete(item)}>
+                    <Text style={styles.deleteActionText}>Delete</Text>
+                  </TouchableOpacity>
+                )}
+                onSwipeableOpen={(direction) => {
+                  if (direction === 'right') {
+                    handleDelete(item);
+                  }
+                }}
               >
-                <Text style={styles.recordingTitle}>{item.title}</Text>
-                <Text style={styles.recordingDate}>{formatDate(item.date)}</Text>
-              </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.recordingItem}
+                  onPress={() => navigation.navigate('Tasks', { recordingId: item.id })}
+                  onLongPress={() => handleRecordingLongPress(item)}
+                >
+                  <Text style={styles.recordingTitle}>{item.title}</Text>
+                  <Text style={styles.recordingDate}>{formatDate(item.date)}</Text>
+                  {renderJobStatus(item.id)}
+                </TouchableOpacity>
+              </Swipeable>
             )}
             ItemSeparatorComponent={() => <View style={styles.separator} />}
           />
         )}
       </View>
       
+      {pendingDeletion && (
+        <View style={styles.undoBar}>
+          <Text style={styles.undoText} numberOfLines={1}>
+            Deleted "{pendingDeletion.title}"
+          </Text>
+          <TouchableOpacity onPress={handleUndoDelete}>
+            <Text style={styles.undoButtonText}>UNDO</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      
+      <Modal
+        visible={renamingRecording !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setRenamingRecording(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>Rename Vent</Text>
+            <TextInput
+              style={styles.modalInput}
+              value={renameText}
+              onChangeText={setRenameText}
+              autoFocus
+              placeholder="Vent title"
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.modalCancelButton} onPress={() => setRenamingRecording(null)}>
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.modalSaveButton} onPress={handleSaveRename}>
+                <Text style={styles.modalSaveText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+      
       <View style={styles.recordingArea}>
         <TouchableOpacity style={styles.recordButton} onPress={handleRecordPress}>
           <View style={styles.recordIcon} />
@@ -92,6 +448,13 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#005e46',
   },
+  headerButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerButtonSpacing: {
+    marginRight: 8,
+  },
   settingsButton: {
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -122,6 +485,92 @@ const styles = StyleSheet.create({
   },
   recordingItem: {
     paddingVertical: 16,
+    backgroundColor: '#f5f0e7',
+  },
+  deleteAction: {
+    backgroundColor: '#f5827a',
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: 90,
+  },
+  deleteActionText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+  },
+  undoBar: {
+    position: 'absolute',
+    bottom: 136,
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#333333',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  undoText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#FFFFFF',
+    marginRight: 16,
+  },
+  undoButtonText: {
+    fontSize: 14,
+    color: '#f5827a',
+    fontWeight: 'bold',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalCard: {
+    backgroundColor: '#f5f0e7',
+    borderRadius: 8,
+    padding: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginBottom: 12,
+  },
+  modalInput: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#d6ceb9',
+    borderRadius: 4,
+    padding: 8,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  modalCancelButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    marginRight: 8,
+  },
+  modalCancelText: {
+    fontSize: 14,
+    color: '#666666',
+  },
+  modalSaveButton: {
+    backgroundColor: '#005e46',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 4,
+  },
+  modalSaveText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    fontWeight: 'bold',
   },
   recordingTitle: {
     fontSize: 16,
@@ -133,6 +582,25 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666666',
   },
+  jobStatusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  jobStatusText: {
+    fontSize: 13,
+    color: '#005e46',
+    fontStyle: 'italic',
+  },
+  jobStatusFailed: {
+    color: '#f5827a',
+  },
+  jobRetryText: {
+    fontSize: 13,
+    color: '#005e46',
+    fontWeight: 'bold',
+    marginLeft: 12,
+  },
   separator: {
     height: 1,
     backgroundColor: '#d6ceb9',
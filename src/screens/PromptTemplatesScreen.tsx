@@ -0,0 +1,502 @@
+// src/screens/PromptTemplatesScreen.tsx
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import {
+  promptTemplateService,
+  PromptTemplate,
+  getLatestVersion
+} from '../services/prompt-template-service';
+import { claudeApiService } from '../services/claude-api-service';
+import { settingsService } from '../services/settings-service';
+import { vocabularyService } from '../services/vocabulary-service';
+import { PROMPT_VARIABLES, SAMPLE_TRANSCRIPT } from '../config/prompt-templates';
+import { checkPromptTemplate } from '../utils/prompt-template';
+import { logger } from '../config';
+
+// The template open in the editor; a new one has no ID until it is saved
+interface Draft {
+  id: string | null;
+  name: string;
+  body: string;
+}
+
+const PromptTemplatesScreen = () => {
+  const navigation = useNavigation();
+
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [defaultId, setDefaultId] = useState<string | undefined>(undefined);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+  const [preview, setPreview] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const [all, currentDefault] = await Promise.all([
+          promptTemplateService.getTemplates(),
+          promptTemplateService.getDefaultTemplateId()
+        ]);
+        setTemplates(all);
+        setDefaultId(currentDefault);
+      } catch (error) {
+        logger.error('Failed to load prompt templates', error);
+      }
+    };
+
+    loadTemplates();
+    return promptTemplateService.subscribe(loadTemplates);
+  }, []);
+
+  const editing = draft && draft.id ? templates.find(template => template.id === draft.id) : undefined;
+  const readOnly = !!editing?.builtIn;
+  const problems = useMemo(() => (draft ? checkPromptTemplate(draft.body) : []), [draft?.body]);
+
+  const openTemplate = (template: PromptTemplate) => {
+    setDraft({ id: template.id, name: template.name, body: getLatestVersion(template).body });
+    setPreview(null);
+  };
+
+  // Start a new template from a copy of another
+  const copyTemplate = (template: PromptTemplate) => {
+    setDraft({ id: null, name: `${template.name} (copy)`, body: getLatestVersion(template).body });
+    setPreview(null);
+  };
+
+  // Put a variable in where the cursor is
+  const insertVariable = (name: string) => {
+    if (!draft || readOnly) return;
+
+    const text = `{${name}}`;
+    const body = draft.body.slice(0, selection.start) + text + draft.body.slice(selection.end);
+    setDraft({ ...draft, body });
+    setSelection({ start: selection.start + text.length, end: selection.start + text.length });
+  };
+
+  // Fill the template in against the sample transcript, as it would be sent to Claude
+  const handlePreview = async () => {
+    if (!draft) return;
+
+    try {
+      const { language } = await settingsService.getSettings();
+      const vocabulary = await vocabularyService.getTerms();
+      setPreview(claudeApiService.buildExtractionPrompt(SAMPLE_TRANSCRIPT, [], {
+        outputLanguage: language.outputLanguage,
+        vocabulary: vocabulary.map(term => term.term),
+        promptTemplate: draft.body
+      }));
+    } catch (error) {
+      logger.error('Failed to preview prompt template', error);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    try {
+      if (draft.id) {
+        const updated = await promptTemplateService.updateTemplate(draft.id, { name: draft.name, body: draft.body });
+        openTemplate(updated);
+      } else {
+        const added = await promptTemplateService.addTemplate(draft.name, draft.body);
+        openTemplate(added);
+      }
+    } catch (error) {
+      Alert.alert('Could Not Save', error instanceof Error ? error.message : 'Please try again.');
+    }
+  };
+
+  const handleMakeDefault = async (template: PromptTemplate) => {
+    try {
+      await promptTemplateService.setDefaultTemplate(template.id);
+    } catch (error) {
+      logger.error('Failed to set default prompt template', error);
+    }
+  };
+
+  const handleDelete = (template: PromptTemplate) => {
+    Alert.alert(
+      'Delete Template',
+      `Delete "${template.name}"? Vents that use it will use the default template instead.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await promptTemplateService.removeTemplate(template.id);
+              setDraft(null);
+            } catch (error) {
+              logger.error('Failed to delete prompt template', error);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const formatVersionDate = (createdAt: string) => {
+    const date = new Date(createdAt);
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) +
+      ' at ' + date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  };
+
+  const renderList = () => (
+    <ScrollView style={styles.content}>
+      <Text style={styles.introText}>
+        Templates are the instructions Claude gets for extracting tasks. The default is used for every vent,
+        unless a vent has its own template chosen on its transcript.
+      </Text>
+
+      {templates.map(template => (
+        <TouchableOpacity key={template.id} style={styles.templateRow} onPress={() => openTemplate(template)}>
+          <View style={styles.templateInfo}>
+            <Text style={styles.templateName}>{template.name}</Text>
+            <Text style={styles.templateDetails}>
+              {template.builtIn ? 'Built in' : `Version ${getLatestVersion(template).version}`}
+            </Text>
+          </View>
+          {template.id === defaultId && <Text style={styles.defaultBadge}>Default</Text>}
+        </TouchableOpacity>
+      ))}
+
+      {templates.length > 0 && (
+        <TouchableOpacity style={styles.newButton} onPress={() => copyTemplate(templates[0])}>
+          <Text style={styles.newButtonText}>New Template</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+
+  const renderEditor = (current: Draft) => (
+    <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+      <Text style={styles.label}>Name</Text>
+      <TextInput
+        style={styles.nameInput}
+        value={current.name}
+        onChangeText={name => setDraft({ ...current, name })}
+        editable={!readOnly}
+        placeholder="e.g. Work meetings"
+      />
+
+      <Text style={styles.label}>Template</Text>
+      <TextInput
+        style={styles.bodyInput}
+        value={current.body}
+        onChangeText={body => setDraft({ ...current, body })}
+        onSelectionChange={event => setSelection(event.nativeEvent.selection)}
+        editable={!readOnly}
+        multiline
+        autoCorrect={false}
+        textAlignVertical="top"
+      />
+      {readOnly && (
+        <Text style={styles.helpText}>The built-in template can't be changed. Copy it to make your own.</Text>
+      )}
+
+      {!readOnly && (
+        <View style={styles.variableRow}>
+          {PROMPT_VARIABLES.map(variable => (
+            <TouchableOpacity key={variable.name} style={styles.variableChip} onPress={() => insertVariable(variable.name)}>
+              <Text style={styles.variableChipText}>{`{${variable.name}}`}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      {PROMPT_VARIABLES.map(variable => (
+        <Text key={variable.name} style={styles.helpText}>{`{${variable.name}}`}: {variable.description}</Text>
+      ))}
+
+      {problems.map(problem => (
+        <Text key={problem} style={styles.problemText}>{problem}</Text>
+      ))}
+
+      <View style={styles.buttonRow}>
+        {!readOnly && (
+          <TouchableOpacity style={styles.primaryButton} onPress={handleSave}>
+            <Text style={styles.primaryButtonText}>{current.id ? 'Save New Version' : 'Save'}</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.secondaryButton} onPress={handlePreview}>
+          <Text style={styles.secondaryButtonText}>Preview</Text>
+        </TouchableOpacity>
+        {editing && (
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => copyTemplate(editing)}>
+            <Text style={styles.secondaryButtonText}>Copy</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {preview !== null && (
+        <View style={styles.previewContainer}>
+          <Text style={styles.label}>Preview with a Sample Vent</Text>
+          <Text style={styles.previewText}>{preview.trim()}</Text>
+        </View>
+      )}
+
+      {editing && (
+        <View style={styles.section}>
+          {editing.id === defaultId ? (
+            <Text style={styles.helpText}>This is the default template.</Text>
+          ) : (
+            <TouchableOpacity onPress={() => handleMakeDefault(editing)}>
+              <Text style={styles.linkText}>Use by Default</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {editing && !editing.builtIn && (
+        <View style={styles.section}>
+          <Text style={styles.label}>Versions</Text>
+          <Text style={styles.helpText}>
+            Each saved change is a new version. Tasks note the version they were extracted with.
+            Tap an older version to edit from it.
+          </Text>
+          {[...editing.versions].reverse().map(version => (
+            <TouchableOpacity
+              key={version.version}
+              style={styles.versionRow}
+              onPress={() => setDraft({ ...current, body: version.body })}
+            >
+              <Text style={styles.versionText}>Version {version.version}</Text>
+              <Text style={styles.templateDetails}>
+                {version.version === getLatestVersion(editing).version ? 'Current · ' : ''}
+                {formatVersionDate(version.createdAt)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity onPress={() => handleDelete(editing)}>
+            <Text style={styles.deleteText}>Delete Template</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </ScrollView>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={{ flex: 1 }}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => (draft ? setDraft(null) : navigation.goBack())}>
+            <Text style={styles.backButton}>← Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{draft ? draft.name || 'New Template' : 'Prompt Templates'}</Text>
+        </View>
+
+        {draft ? renderEditor(draft) : renderList()}
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f0e7',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#d6ceb9',
+  },
+  backButton: {
+    fontSize: 16,
+    color: '#005e46',
+    marginRight: 16,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#005e46',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 16,
+  },
+  templateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 8,
+  },
+  templateInfo: {
+    flex: 1,
+  },
+  templateName: {
+    fontSize: 16,
+    color: '#333333',
+  },
+  templateDetails: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 2,
+  },
+  defaultBadge: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#005e46',
+  },
+  newButton: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#005e46',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 4,
+    marginTop: 8,
+  },
+  newButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginBottom: 8,
+  },
+  nameInput: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#d6ceb9',
+    borderRadius: 4,
+    padding: 8,
+    fontSize: 16,
+    color: '#333333',
+    marginBottom: 16,
+  },
+  bodyInput: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#d6ceb9',
+    borderRadius: 4,
+    padding: 8,
+    minHeight: 220,
+    fontSize: 14,
+    color: '#333333',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 12,
+    color: '#666666',
+    fontStyle: 'italic',
+    marginBottom: 4,
+  },
+  variableRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  variableChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#005e46',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  variableChipText: {
+    fontSize: 13,
+    color: '#005e46',
+  },
+  problemText: {
+    fontSize: 13,
+    color: '#f5827a',
+    marginTop: 4,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 16,
+  },
+  primaryButton: {
+    backgroundColor: '#005e46',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 4,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#005e46',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 4,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  secondaryButtonText: {
+    color: '#005e46',
+    fontSize: 14,
+  },
+  previewContainer: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  previewText: {
+    fontSize: 13,
+    lineHeight: 19,
+    color: '#333333',
+  },
+  section: {
+    marginTop: 24,
+  },
+  linkText: {
+    fontSize: 16,
+    color: '#005e46',
+  },
+  versionRow: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  versionText: {
+    fontSize: 14,
+    color: '#333333',
+  },
+  deleteText: {
+    fontSize: 14,
+    color: '#f5827a',
+    marginTop: 24,
+    marginBottom: 40,
+  },
+});
+
+export default PromptTemplatesScreen;
@@ -1,111 +1,243 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, SafeAreaView, StatusBar } from 'react-native';
-import { useNavigation } from '@react-navigation/native';
-import { recordingService } from '../services/recording-service';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, SafeAreaView, StatusBar, ActivityIndicator, Linking, Alert } from 'react-native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { recordingService, Recording } from '../services/recording-service';
+import { recordingJournalService } from '../services/recording-journal-service';
+import { jobQueueService } from '../services/job-queue-service';
+import { useAudioRecorder, RecordedAudio } from '../services/audio-processing';
+import { logger } from '../config';
 
 const RecordingScreen = () => {
   const navigation = useNavigation();
-  const [recording, setRecording] = useState(false);
-  const [duration, setDuration] = useState(0);
-  const [complete, setComplete] = useState(false);
-  const [audioLevels, setAudioLevels] = useState([]);
+  const route = useRoute();
+  const [saving, setSaving] = useState(false);
   
-  // Timer ref
-  const timerRef = React.useRef(null);
-  const levelsRef = React.useRef(null);
+  // Set when recording more for an existing vent
+  const { continueRecordingId } = route.params || {};
+  const continuedRecording = continueRecordingId
+    ? recordingService.getRecordingById(continueRecordingId)
+    : undefined;
   
-  // Start recording simulation on mount
+  const {
+    isRecording,
+    isPaused,
+    duration,
+    audioLevels,
+    recorderError,
+    autoStopTriggered,
+    bookmarks,
+    startRecording,
+    stopRecording,
+    addBookmark,
+    discardRecording,
+    pauseRecording,
+    resumeRecording,
+  } = useAudioRecorder();
+  
+  // Stopped recording waiting to be saved
+  const [recordedAudio, setRecordedAudio] = useState<RecordedAudio | null>(null);
+  
+  // Set once the audio is stored, so trying again after a later step fails doesn't store it twice
+  const savedRecordingId = useRef<string | null>(null);
+  
+  // Start recording on mount (the hook stops and unloads on unmount)
   useEffect(() => {
-    startRecordingSimulation();
-    
-    // Cleanup on unmount
-    return () => {
-      stopRecordingSimulation();
-    };
+    startRecording();
   }, []);
   
-  // Start recording simulation
-  const startRecordingSimulation = () => {
-    setRecording(true);
-    setDuration(0);
-    setComplete(false);
-    
-    // Start timer
-    timerRef.current = setInterval(() => {
-      setDuration(prev => prev + 1);
-    }, 1000);
-    
-    // Simulate audio levels
-    levelsRef.current = setInterval(() => {
-      const newLevel = Math.floor(Math.random() * 80) + 10;
-      setAudioLevels(prev => [...prev, newLevel].slice(-50));
-    }, 100);
+  // Stop on its own after a long stretch of silence
+  useEffect(() => {
+    if (autoStopTriggered && (isRecording || isPaused)) {
+      handleStopPress();
+    }
+  }, [autoStopTriggered]);
+  
+  // Stop the recording and keep the result for saving
+  const handleStopPress = async () => {
+    const result = await stopRecording();
+    if (result) {
+      setRecordedAudio(result);
+    }
   };
   
-  // Stop recording simulation
-  const stopRecordingSimulation = () => {
-    setRecording(false);
-    
-    // Clear timer
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
+  // Toggle pause / resume
+  const handlePauseResumePress = async () => {
+    try {
+      if (isPaused) {
+        await resumeRecording();
+      } else {
+        await pauseRecording();
+      }
+    } catch (error) {
+      logger.error('Failed to toggle pause', error);
     }
-    
-    // Clear audio levels
-    if (levelsRef.current) {
-      clearInterval(levelsRef.current);
-      levelsRef.current = null;
+  };
+  
+  // Start over with a fresh recording, dropping the unsaved one
+  const handleRecordAgainPress = async () => {
+    if (recordedAudio) {
+      await discardRecording();
+      setRecordedAudio(null);
     }
-    
-    // Set complete
-    setComplete(true);
+    await startRecording();
   };
   
-  // Handle record button press
-  const handleRecordPress = () => {
-    if (recording) {
-      stopRecordingSimulation();
-    } else {
-      startRecordingSimulation();
+  // Leaving without saving discards the vent
+  const handleBackPress = () => {
+    if (!isRecording && !isPaused && !recordedAudio) {
+      navigation.goBack();
+      return;
     }
+    
+    Alert.alert(
+      'Discard Vent?',
+      'This recording has not been saved.',
+      [
+        { text: 'Keep Recording', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            await discardRecording();
+            navigation.goBack();
+          }
+        },
+      ]
+    );
   };
   
   // Handle done button press
   const handleDonePress = async () => {
-    // Create a mock recording entry
-    const mockRecording = {
-      id: `rec_${Date.now()}`,
-      title: 'Vent from Washington Heights',
-      date: new Date().toISOString(),
-      audioUri: 'file:///mock/recording.m4a',
-      transcript: null,
-      duration: duration,
-      processed: false,
-    };
+    if (!recordedAudio) return;
     
-    // Add to recordings service
-    const recordingId = await recordingService.addRecording(mockRecording);
+    setSaving(true);
     
-    // Navigate to transcript screen
-    navigation.navigate('Transcript', { recordingId });
+    try {
+      if (continuedRecording) {
+        // Add the new audio to the end of the existing vent
+        if (!savedRecordingId.current) {
+          await recordingService.appendToRecording(continuedRecording.id, recordedAudio);
+          savedRecordingId.current = continuedRecording.id;
+        }
+        await recordingJournalService.completeSession(recordedAudio.sessionId);
+        await jobQueueService.enqueue('transcribe', continuedRecording.id);
+        
+        // Transcript screen picks up the new part when it sees a new continuedAt
+        navigation.navigate('Transcript', { recordingId: continuedRecording.id, continuedAt: Date.now() });
+        return;
+      }
+      
+      const newRecording: Recording = {
+        id: `rec_${Date.now()}`,
+        title: 'Vent from Washington Heights',
+        date: new Date().toISOString(),
+        audioUri: recordedAudio.uri,
+        transcript: null,
+        duration: recordedAudio.duration,
+        processed: false,
+        fileSize: recordedAudio.size,
+        waveform: recordedAudio.waveform,
+        qualityProfile: recordedAudio.qualityProfile.id,
+      };
+      
+      if (recordedAudio.silentRanges.length > 0) {
+        newRecording.silentRanges = recordedAudio.silentRanges;
+      }
+      
+      if (recordedAudio.bookmarks.length > 0) {
+        newRecording.bookmarks = recordedAudio.bookmarks;
+      }
+      
+      if (recordedAudio.segments.length > 1) {
+        newRecording.segments = recordedAudio.segments;
+      }
+      
+      // Add to recordings service, then close the journal session
+      if (!savedRecordingId.current) {
+        savedRecordingId.current = await recordingService.addRecording(newRecording);
+      }
+      const recordingId = savedRecordingId.current;
+      await recordingJournalService.completeSession(recordedAudio.sessionId);
+      
+      // Transcribe in the background; the queue picks it up again after a restart
+      await jobQueueService.enqueue('transcribe', recordingId);
+      
+      // Navigate to transcript screen
+      navigation.navigate('Transcript', { recordingId });
+    } catch (error) {
+      logger.error('Failed to save recording', error);
+      Alert.alert(
+        'Could Not Save',
+        error instanceof Error ? error.message : 'Failed to save this vent.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Try Again', onPress: handleDonePress },
+        ]
+      );
+    } finally {
+      setSaving(false);
+    }
   };
   
   // Format duration
-  const formatDuration = (seconds) => {
+  const formatDuration = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
   
+  // Error state - permission denied or no audio file
+  if (recorderError) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="light-content" backgroundColor="#333333" />
+        
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()}>
+            <Text style={styles.backButton}>← Back</Text>
+          </TouchableOpacity>
+        </View>
+        
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorTitle}>
+            {recorderError.type === 'permission-denied'
+              ? 'Microphone Access Needed'
+              : recorderError.type === 'no-file'
+                ? 'Recording Was Not Saved'
+                : 'Recording Error'}
+          </Text>
+          <Text style={styles.errorText}>{recorderError.message}</Text>
+          
+          {recorderError.type === 'permission-denied' && (
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => Linking.openSettings()}>
+              <Text style={styles.secondaryButtonText}>Open Settings</Text>
+            </TouchableOpacity>
+          )}
+          
+          <TouchableOpacity style={styles.doneButton} onPress={handleRecordAgainPress}>
+            <Text style={styles.doneButtonText}>Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+  
+  const complete = recordedAudio !== null;
+  const displayDuration = recordedAudio ? recordedAudio.duration : duration;
+  
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar barStyle="light-content" backgroundColor="#333333" />
       
       <View style={styles.header}>
-        <TouchableOpacity onPress={() => navigation.goBack()}>
+        <TouchableOpacity onPress={handleBackPress}>
           <Text style={styles.backButton}>← Back</Text>
         </TouchableOpacity>
+        {continuedRecording && (
+          <Text style={styles.continuingText} numberOfLines={1}>
+            Continuing "{continuedRecording.title}"
+          </Text>
+        )}
       </View>
       
       <View style={styles.audioLevelsContainer}>
@@ -114,31 +246,58 @@ const RecordingScreen = () => {
             key={index}
             style={[
               styles.audioLevelBar,
-              { height: Math.max(3, level * 0.4) }
+              { height: Math.max(3, level * 40) }
             ]}
           />
         ))}
       </View>
       
       <View style={styles.durationContainer}>
-        <Text style={styles.durationText}>{formatDuration(duration)}</Text>
+        <Text style={styles.durationText}>{formatDuration(displayDuration)}</Text>
+        {isPaused && <Text style={styles.pausedText}>Paused</Text>}
+        {bookmarks.length > 0 && (
+          <Text style={styles.pausedText}>
+            {bookmarks.length} {bookmarks.length === 1 ? 'moment' : 'moments'} marked
+          </Text>
+        )}
+        {complete && autoStopTriggered && (
+          <Text style={styles.pausedText}>Stopped after a long silence</Text>
+        )}
       </View>
       
       <View style={styles.controlsContainer}>
-        {recording ? (
-          <TouchableOpacity style={styles.stopButton} onPress={handleRecordPress}>
-            <View style={styles.stopIcon} />
-          </TouchableOpacity>
+        {isRecording || isPaused ? (
+          <View style={styles.activeControls}>
+            <TouchableOpacity style={styles.pauseButton} onPress={handlePauseResumePress}>
+              <Text style={styles.pauseButtonText}>{isPaused ? 'Resume' : 'Pause'}</Text>
+            </TouchableOpacity>
+            
+            <TouchableOpacity style={styles.stopButton} onPress={handleStopPress}>
+              <View style={styles.stopIcon} />
+            </TouchableOpacity>
+            
+            <TouchableOpacity
+              style={[styles.pauseButton, styles.markButton]}
+              onPress={addBookmark}
+              disabled={!isRecording}
+            >
+              <Text style={styles.pauseButtonText}>Mark</Text>
+            </TouchableOpacity>
+          </View>
         ) : (
-          <TouchableOpacity style={styles.recordButton} onPress={handleRecordPress}>
+          <TouchableOpacity style={styles.recordButton} onPress={handleRecordAgainPress}>
             <View style={styles.recordIcon} />
           </TouchableOpacity>
         )}
         
         {/* Show Done button when recording is complete */}
         {complete && (
-          <TouchableOpacity style={styles.doneButton} onPress={handleDonePress}>
-            <Text style={styles.doneButtonText}>Done</Text>
+          <TouchableOpacity style={styles.doneButton} onPress={handleDonePress} disabled={saving}>
+            {saving ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.doneButtonText}>Done</Text>
+            )}
           </TouchableOpacity>
         )}
       </View>
@@ -158,6 +317,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#FFFFFF',
   },
+  continuingText: {
+    fontSize: 14,
+    color: '#d6ceb9',
+    marginTop: 8,
+  },
   audioLevelsContainer: {
     flex: 1,
     flexDirection: 'row',
@@ -180,10 +344,36 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: 'bold',
   },
+  pausedText: {
+    fontSize: 14,
+    color: '#d6ceb9',
+    marginTop: 4,
+  },
   controlsContainer: {
     alignItems: 'center',
     marginBottom: 50,
   },
+  activeControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pauseButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#FFFFFF',
+    marginRight: 24,
+    marginBottom: 20,
+  },
+  markButton: {
+    marginRight: 0,
+    marginLeft: 24,
+  },
+  pauseButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
   recordButton: {
     width: 70,
     height: 70,
@@ -226,6 +416,36 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#f5827a',
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  secondaryButton: {
+    paddingHorizontal: 30,
+    paddingVertical: 12,
+    borderRadius: 25,
+    borderWidth: 1,
+    borderColor: '#FFFFFF',
+    marginBottom: 16,
+  },
+  secondaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+  },
 });
 
 export default RecordingScreen;
\ No newline at end of file
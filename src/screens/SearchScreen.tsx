@@ -0,0 +1,181 @@
+// src/screens/SearchScreen.tsx
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  SafeAreaView,
+  FlatList
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { searchService, SearchResult } from '../services/search-service';
+import { logger } from '../config';
+
+const SearchScreen = () => {
+  const navigation = useNavigation();
+
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [indexVersion, setIndexVersion] = useState(0);
+
+  // Search again when recordings or tasks change
+  useEffect(() => {
+    return searchService.subscribe(() => setIndexVersion(version => version + 1));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    searchService.search(query)
+      .then(found => {
+        if (!cancelled) setResults(found);
+      })
+      .catch(error => logger.error('Search failed', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, indexVersion]);
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '';
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  };
+
+  // Open the recording's transcript, or the task in its list
+  const handleResultPress = (result: SearchResult) => {
+    if (result.kind === 'task') {
+      navigation.navigate('Tasks', { recordingId: result.recordingId, highlightTaskId: result.taskId });
+    } else {
+      navigation.navigate('Transcript', { recordingId: result.recordingId });
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backButton}>← Back</Text>
+        </TouchableOpacity>
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search vents and tasks"
+          autoFocus
+          autoCorrect={false}
+          returnKeyType="search"
+          clearButtonMode="while-editing"
+        />
+      </View>
+
+      <FlatList
+        data={results}
+        keyExtractor={(item) => `${item.kind}:${item.taskId || item.recordingId}`}
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {query.trim() ? `Nothing found for "${query.trim()}".` : 'Search what you said in your vents, and your tasks.'}
+          </Text>
+        }
+        renderItem={({ item }) => (
+          <TouchableOpacity style={styles.resultCard} onPress={() => handleResultPress(item)}>
+            <View style={styles.resultHeader}>
+              <Text style={styles.resultKind}>{item.kind === 'task' ? 'Task' : 'Vent'}</Text>
+              <Text style={styles.resultDate}>{formatDate(item.date)}</Text>
+            </View>
+            <Text style={styles.resultTitle}>{item.title}</Text>
+            <Text style={styles.snippetText} numberOfLines={3}>
+              {item.snippet.map((part, index) => (
+                <Text key={index} style={part.match ? styles.snippetMatch : null}>
+                  {part.text}
+                </Text>
+              ))}
+            </Text>
+          </TouchableOpacity>
+        )}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f0e7',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#d6ceb9',
+  },
+  backButton: {
+    fontSize: 16,
+    color: '#005e46',
+    marginRight: 16,
+  },
+  searchInput: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#d6ceb9',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: '#333333',
+  },
+  content: {
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666666',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  resultCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  resultKind: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#005e46',
+  },
+  resultDate: {
+    fontSize: 12,
+    color: '#666666',
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginBottom: 4,
+  },
+  snippetText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#666666',
+  },
+  snippetMatch: {
+    backgroundColor: '#f5f0e7',
+    color: '#005e46',
+    fontWeight: 'bold',
+  },
+});
+
+export default SearchScreen;
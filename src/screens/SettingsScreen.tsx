@@ -17,6 +17,43 @@ import {
 import { useNavigation } from '@react-navigation/native';
 import { SecureKeyStorage, SECURE_STORAGE_KEYS, logger } from '../config';
 import { googleCalendarService } from '../services/google-calendar-service';
+import {
+  settingsService,
+  VoiceActivitySettings,
+  TranscriptionSettings,
+  CleanupSettings,
+  LanguageSettings,
+  DEFAULT_SETTINGS
+} from '../services/settings-service';
+import { TRANSCRIPTION_PROVIDERS, TranscriptionProvider, isOpenAIBaseUrl } from '../services/transcription-providers';
+import { vocabularyService } from '../services/vocabulary-service';
+import { VocabularyTerm } from '../utils/vocabulary';
+import {
+  RECORDING_QUALITY_PROFILES,
+  RecordingQualityProfileId,
+  estimateBytesPerMinute
+} from '../config/recording-profiles';
+import { getLanguageName } from '../config/languages';
+import LanguagePicker from '../components/LanguagePicker';
+import { promptTemplateService } from '../services/prompt-template-service';
+
+// Voice detection choices shown in Settings
+const SENSITIVITY_OPTIONS = [
+  { label: 'Low', threshold: 0.15 },
+  { label: 'Medium', threshold: 0.25 },
+  { label: 'High', threshold: 0.35 },
+];
+const AUTO_STOP_OPTIONS = [0, 15, 30, 60];
+
+// One-line summary of what a transcription provider supports
+const describeCapabilities = (provider: TranscriptionProvider) => {
+  const { languages, maxFileSizeBytes, timestamps } = provider.capabilities;
+  return [
+    languages.length === 1 ? '1 language' : `${languages.length} languages`,
+    maxFileSizeBytes === null ? 'no file size limit' : `files up to ${maxFileSizeBytes / (1024 * 1024)} MB`,
+    timestamps ? 'timestamps' : 'no timestamps',
+  ].join(' · ');
+};
 
 const SettingsScreen = () => {
   const navigation = useNavigation();
@@ -33,8 +70,34 @@ const SettingsScreen = () => {
   const [openaiKeyHidden, setOpenaiKeyHidden] = useState(true);
   const [claudeSaved, setClaudeSaved] = useState(false);
   const [openaiSaved, setOpenaiSaved] = useState(false);
+  const [serverApiKey, setServerApiKey] = useState('');
+  const [serverKeySaved, setServerKeySaved] = useState(false);
   const [loadingKeys, setLoadingKeys] = useState(true);
   
+  // Recording settings
+  const [voiceActivity, setVoiceActivity] = useState<VoiceActivitySettings>(DEFAULT_SETTINGS.voiceActivity);
+  const [qualityProfile, setQualityProfile] = useState<RecordingQualityProfileId>(
+    DEFAULT_SETTINGS.recording.qualityProfile
+  );
+  
+  // Transcription settings
+  const [transcription, setTranscription] = useState<TranscriptionSettings>(DEFAULT_SETTINGS.transcription);
+  
+  // Transcript cleanup settings
+  const [cleanup, setCleanup] = useState<CleanupSettings>(DEFAULT_SETTINGS.cleanup);
+  
+  // Language settings, and which language is being picked
+  const [language, setLanguage] = useState<LanguageSettings>(DEFAULT_SETTINGS.language);
+  const [pickingLanguage, setPickingLanguage] = useState<'spokenLanguage' | 'outputLanguage' | null>(null);
+  
+  // Personal vocabulary, and the term being added
+  const [vocabulary, setVocabulary] = useState<VocabularyTerm[]>([]);
+  const [newTerm, setNewTerm] = useState('');
+  const [newMisspellings, setNewMisspellings] = useState('');
+  
+  // Name of the prompt template vents are extracted with
+  const [defaultTemplateName, setDefaultTemplateName] = useState('');
+  
   useEffect(() => {
     // Check if Google account is connected
     const checkGoogleConnection = async () => {
@@ -69,6 +132,10 @@ const SettingsScreen = () => {
           setOpenaiApiKey('••••••••••••••••••••••••••••••');
           setOpenaiSaved(true);
         }
+        
+        // Check for the key of a self-hosted transcription server
+        const serverKey = await SecureKeyStorage.getKey(SECURE_STORAGE_KEYS.TRANSCRIPTION_SERVER_API_KEY);
+        setServerKeySaved(!!serverKey);
       } catch (error) {
         logger.error('Error checking API keys', error);
       } finally {
@@ -76,10 +143,112 @@ const SettingsScreen = () => {
       }
     };
     
+    // Load persisted app settings
+    const loadSettings = async () => {
+      try {
+        const settings = await settingsService.getSettings();
+        setVoiceActivity(settings.voiceActivity);
+        setQualityProfile(settings.recording.qualityProfile);
+        setTranscription(settings.transcription);
+        setCleanup(settings.cleanup);
+        setLanguage(settings.language);
+        setVocabulary(await vocabularyService.getTerms());
+      } catch (error) {
+        logger.error('Error loading settings', error);
+      }
+    };
+    
     checkGoogleConnection();
     checkApiKeys();
+    loadSettings();
+  }, []);
+  
+  useEffect(() => {
+    const loadDefaultTemplate = async () => {
+      try {
+        const template = await promptTemplateService.getTemplate(await promptTemplateService.getDefaultTemplateId());
+        setDefaultTemplateName(template ? template.name : '');
+      } catch (error) {
+        logger.error('Error loading prompt template', error);
+      }
+    };
+    
+    loadDefaultTemplate();
+    return promptTemplateService.subscribe(loadDefaultTemplate);
   }, []);
   
+  const updateQualityProfile = async (profileId: RecordingQualityProfileId) => {
+    setQualityProfile(profileId);
+    
+    try {
+      await settingsService.updateSettings('recording', { qualityProfile: profileId });
+    } catch (error) {
+      logger.error('Error saving recording quality', error);
+    }
+  };
+  
+  const updateTranscription = async (updates: Partial<TranscriptionSettings>) => {
+    setTranscription(prev => ({ ...prev, ...updates }));
+    
+    try {
+      await settingsService.updateSettings('transcription', updates);
+    } catch (error) {
+      logger.error('Error saving transcription settings', error);
+    }
+  };
+  
+  const updateCleanup = async (updates: Partial<CleanupSettings>) => {
+    setCleanup(prev => ({ ...prev, ...updates }));
+    
+    try {
+      await settingsService.updateSettings('cleanup', updates);
+    } catch (error) {
+      logger.error('Error saving cleanup settings', error);
+    }
+  };
+  
+  const updateLanguage = async (updates: Partial<LanguageSettings>) => {
+    setLanguage(prev => ({ ...prev, ...updates }));
+    
+    try {
+      await settingsService.updateSettings('language', updates);
+    } catch (error) {
+      logger.error('Error saving language settings', error);
+    }
+  };
+  
+  const handleAddTerm = async () => {
+    try {
+      await vocabularyService.addTerm(newTerm, newMisspellings.split(','));
+      setVocabulary(await vocabularyService.getTerms());
+      setNewTerm('');
+      setNewMisspellings('');
+    } catch (error) {
+      logger.error('Error adding vocabulary term', error);
+      Alert.alert('Could Not Add', error instanceof Error ? error.message : 'Failed to add this word.');
+    }
+  };
+  
+  const handleRemoveTerm = async (term: VocabularyTerm) => {
+    try {
+      await vocabularyService.removeTerm(term.id);
+      setVocabulary(await vocabularyService.getTerms());
+    } catch (error) {
+      logger.error('Error removing vocabulary term', error);
+      Alert.alert('Error', 'Failed to remove this word. Please try again.');
+    }
+  };
+  
+  const updateVoiceActivity = async (updates: Partial<VoiceActivitySettings>) => {
+    setVoiceActivity(prev => ({ ...prev, ...updates }));
+    
+    try {
+      await settingsService.updateSettings('voiceActivity', updates);
+    } catch (error) {
+      logger.error('Error saving voice detection settings', error);
+    }
+  };
+  
   const handleGoogleConnect = async () => {
     setLoading(true);
     
@@ -157,6 +326,30 @@ const SettingsScreen = () => {
     }
   };
   
+  // Save the key of an OpenAI-compatible server, or remove it
+  const saveServerApiKey = async () => {
+    if (!serverApiKey.trim()) return;
+    
+    try {
+      await SecureKeyStorage.storeKey(SECURE_STORAGE_KEYS.TRANSCRIPTION_SERVER_API_KEY, serverApiKey.trim());
+      setServerApiKey('');
+      setServerKeySaved(true);
+    } catch (error) {
+      logger.error('Error saving transcription server API key', error);
+      Alert.alert('Error', 'Failed to save the server API key. Please try again.');
+    }
+  };
+  
+  const clearServerApiKey = async () => {
+    try {
+      await SecureKeyStorage.deleteKey(SECURE_STORAGE_KEYS.TRANSCRIPTION_SERVER_API_KEY);
+      setServerKeySaved(false);
+    } catch (error) {
+      logger.error('Error clearing transcription server API key', error);
+      Alert.alert('Error', 'Failed to remove the server API key.');
+    }
+  };
+  
   const clearClaudeApiKey = async () => {
     try {
       await SecureKeyStorage.deleteKey(SECURE_STORAGE_KEYS.CLAUDE_API_KEY);
@@ -304,6 +497,216 @@ const SettingsScreen = () => {
             )}
           </View>
           
+          {/* Transcription Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Transcription</Text>
+            
+            {Object.values(TRANSCRIPTION_PROVIDERS).map(provider => (
+              <TouchableOpacity
+                key={provider.id}
+                style={styles.profileOption}
+                onPress={() => updateTranscription({ provider: provider.id })}
+              >
+                <View style={[
+                  styles.radioOuter,
+                  transcription.provider === provider.id ? styles.radioOuterSelected : null
+                ]}>
+                  {transcription.provider === provider.id && <View style={styles.radioInner} />}
+                </View>
+                <View style={styles.profileInfo}>
+                  <Text style={styles.profileLabel}>{provider.label}</Text>
+                  <Text style={styles.apiKeyHelp}>{provider.description}</Text>
+                  <Text style={styles.apiKeyHelp}>{describeCapabilities(provider)}</Text>
+                </View>
+              </TouchableOpacity>
+            ))}
+            
+            {transcription.provider === 'openai' && (
+              <View style={styles.providerUrlContainer}>
+                <Text style={styles.apiKeyLabel}>API Base URL</Text>
+                <TextInput
+                  style={styles.providerUrlInput}
+                  value={transcription.openaiBaseUrl}
+                  onChangeText={(openaiBaseUrl) => setTranscription(prev => ({ ...prev, openaiBaseUrl }))}
+                  onEndEditing={() => updateTranscription({ openaiBaseUrl: transcription.openaiBaseUrl.trim() })}
+                  placeholder="https://api.openai.com/v1"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                />
+                <Text style={styles.apiKeyHelp}>
+                  Point this at a self-hosted Whisper server to keep audio off OpenAI. The OpenAI key above is only ever sent to OpenAI.
+                </Text>
+                
+                {!isOpenAIBaseUrl(transcription.openaiBaseUrl) && (
+                  <>
+                    <Text style={[styles.apiKeyLabel, styles.serverKeyLabel]}>Server API Key (Optional)</Text>
+                    <TextInput
+                      style={styles.providerUrlInput}
+                      value={serverApiKey}
+                      onChangeText={setServerApiKey}
+                      onEndEditing={saveServerApiKey}
+                      placeholder={serverKeySaved ? 'Saved - type to replace it' : 'Only if your server asks for one'}
+                      secureTextEntry
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                    />
+                    {serverKeySaved && (
+                      <TouchableOpacity onPress={clearServerApiKey}>
+                        <Text style={styles.disconnectText}>Remove Server Key</Text>
+                      </TouchableOpacity>
+                    )}
+                  </>
+                )}
+              </View>
+            )}
+            
+            {transcription.provider === 'whisper-cpp' && (
+              <View style={styles.providerUrlContainer}>
+                <Text style={styles.apiKeyLabel}>Server Address</Text>
+                <TextInput
+                  style={styles.providerUrlInput}
+                  value={transcription.whisperCppUrl}
+                  onChangeText={(whisperCppUrl) => setTranscription(prev => ({ ...prev, whisperCppUrl }))}
+                  onEndEditing={() => updateTranscription({ whisperCppUrl: transcription.whisperCppUrl.trim() })}
+                  placeholder="http://192.168.1.20:8080"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                />
+                <Text style={styles.apiKeyHelp}>
+                  Run whisper.cpp's server with --convert so it can read the app's m4a recordings.
+                </Text>
+              </View>
+            )}
+            
+            <View style={[styles.optionGroup, styles.cleanupOptions]}>
+              <View style={styles.switchRow}>
+                <Text style={styles.preferenceLabel}>Clean Up Transcripts</Text>
+                <Switch
+                  value={cleanup.enabled}
+                  onValueChange={(enabled) => updateCleanup({ enabled })}
+                  trackColor={{ false: "#d6ceb9", true: "#005e46" }}
+                  thumbColor="#FFFFFF"
+                />
+              </View>
+              <Text style={styles.apiKeyHelp}>
+                Removes stutters, repeated words and filler words, and fixes sentences. The raw transcript is kept and can be shown instead.
+              </Text>
+              
+              {cleanup.enabled && (
+                <View style={styles.cleanupClaudeRow}>
+                  <View style={styles.switchRow}>
+                    <Text style={styles.preferenceLabel}>Polish with Claude</Text>
+                    <Switch
+                      value={cleanup.useClaude}
+                      onValueChange={(useClaude) => updateCleanup({ useClaude })}
+                      trackColor={{ false: "#d6ceb9", true: "#005e46" }}
+                      thumbColor="#FFFFFF"
+                    />
+                  </View>
+                  <Text style={styles.apiKeyHelp}>
+                    Sends the transcript to Claude to tidy what the local cleanup misses. Uses your Claude API key.
+                  </Text>
+                </View>
+              )}
+            </View>
+          </View>
+          
+          {/* Language Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Language</Text>
+            
+            <TouchableOpacity style={styles.preferenceItem} onPress={() => setPickingLanguage('spokenLanguage')}>
+              <Text style={styles.preferenceLabel}>Spoken Language</Text>
+              <Text style={styles.languageValue}>{getLanguageName(language.spokenLanguage)}</Text>
+            </TouchableOpacity>
+            
+            <View style={styles.optionGroup}>
+              <View style={styles.switchRow}>
+                <Text style={styles.preferenceLabel}>Translate to English First</Text>
+                <Switch
+                  value={language.translateToEnglish}
+                  onValueChange={(translateToEnglish) => updateLanguage({ translateToEnglish })}
+                  trackColor={{ false: "#d6ceb9", true: "#005e46" }}
+                  thumbColor="#FFFFFF"
+                />
+              </View>
+              <Text style={styles.apiKeyHelp}>
+                Transcripts in other languages are translated before tasks are extracted. The transcript itself is kept as spoken.
+              </Text>
+            </View>
+            
+            <TouchableOpacity style={styles.preferenceItem} onPress={() => setPickingLanguage('outputLanguage')}>
+              <Text style={styles.preferenceLabel}>Task Language</Text>
+              <Text style={styles.languageValue}>{getLanguageName(language.outputLanguage)}</Text>
+            </TouchableOpacity>
+            <Text style={styles.apiKeyHelp}>
+              Auto-detect handles vents that switch languages. Each vent can also be set to a language of its own from its transcript.
+            </Text>
+          </View>
+          
+          {/* Vocabulary Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Vocabulary</Text>
+            <Text style={[styles.apiKeyHelp, styles.vocabularyIntro]}>
+              Names of people, pets, places and projects you mention. They are given to transcription as hints and spelled this way in tasks.
+            </Text>
+            
+            {vocabulary.map(term => (
+              <View key={term.id} style={styles.vocabularyItem}>
+                <View style={styles.profileInfo}>
+                  <Text style={styles.profileLabel}>{term.term}</Text>
+                  {term.misspellings.length > 0 && (
+                    <Text style={styles.apiKeyHelp}>Fixes: {term.misspellings.join(', ')}</Text>
+                  )}
+                </View>
+                <TouchableOpacity onPress={() => handleRemoveTerm(term)}>
+                  <Text style={styles.disconnectText}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+            
+            <View style={styles.apiKeyContainer}>
+              <Text style={styles.apiKeyLabel}>Add a Word or Name</Text>
+              <TextInput
+                style={styles.providerUrlInput}
+                value={newTerm}
+                onChangeText={setNewTerm}
+                placeholder="Correct spelling, e.g. Siobhan"
+                autoCorrect={false}
+              />
+              <TextInput
+                style={styles.providerUrlInput}
+                value={newMisspellings}
+                onChangeText={setNewMisspellings}
+                placeholder="Often transcribed as, e.g. Shivon, Chevonne"
+                autoCorrect={false}
+              />
+              <Text style={styles.apiKeyHelp}>
+                Separate misspellings with commas. They are replaced wherever they appear as whole words.
+              </Text>
+              <View style={[styles.apiKeyButtonsContainer, styles.vocabularyButtons]}>
+                <TouchableOpacity style={styles.saveButton} onPress={handleAddTerm}>
+                  <Text style={styles.saveButtonText}>Add</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+          
+          {/* Task Extraction Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Task Extraction</Text>
+            
+            <TouchableOpacity style={styles.preferenceItem} onPress={() => navigation.navigate('PromptTemplates')}>
+              <Text style={styles.preferenceLabel}>Prompt Template</Text>
+              <Text style={styles.languageValue}>{defaultTemplateName}</Text>
+            </TouchableOpacity>
+            <Text style={styles.apiKeyHelp}>
+              The instructions Claude gets for finding tasks in a vent. Preview them, or write your own.
+            </Text>
+          </View>
+          
           {/* Connected Accounts Section */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Connected Accounts</Text>
@@ -330,6 +733,98 @@ const SettingsScreen = () => {
             </View>
           </View>
           
+          {/* Recording Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Recording</Text>
+            
+            <View style={styles.optionGroup}>
+              <Text style={styles.preferenceLabel}>Recording Quality</Text>
+              {Object.values(RECORDING_QUALITY_PROFILES).map(profile => (
+                <TouchableOpacity
+                  key={profile.id}
+                  style={styles.profileOption}
+                  onPress={() => updateQualityProfile(profile.id)}
+                >
+                  <View style={[
+                    styles.radioOuter,
+                    qualityProfile === profile.id ? styles.radioOuterSelected : null
+                  ]}>
+                    {qualityProfile === profile.id && <View style={styles.radioInner} />}
+                  </View>
+                  <View style={styles.profileInfo}>
+                    <Text style={styles.profileLabel}>{profile.label}</Text>
+                    <Text style={styles.apiKeyHelp}>
+                      {profile.description} About {(estimateBytesPerMinute(profile) / (1024 * 1024)).toFixed(1)} MB per minute.
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </View>
+            
+            <View style={styles.preferenceItem}>
+              <Text style={styles.preferenceLabel}>Voice Detection</Text>
+              <Switch
+                value={voiceActivity.enabled}
+                onValueChange={(enabled) => updateVoiceActivity({ enabled })}
+                trackColor={{ false: "#d6ceb9", true: "#005e46" }}
+                thumbColor="#FFFFFF"
+              />
+            </View>
+            
+            {voiceActivity.enabled && (
+              <>
+                <View style={styles.optionGroup}>
+                  <Text style={styles.preferenceLabel}>Silence Sensitivity</Text>
+                  <View style={styles.optionRow}>
+                    {SENSITIVITY_OPTIONS.map(option => (
+                      <TouchableOpacity
+                        key={option.label}
+                        style={[
+                          styles.optionChip,
+                          voiceActivity.threshold === option.threshold ? styles.optionChipSelected : null
+                        ]}
+                        onPress={() => updateVoiceActivity({ threshold: option.threshold })}
+                      >
+                        <Text style={[
+                          styles.optionChipText,
+                          voiceActivity.threshold === option.threshold ? styles.optionChipTextSelected : null
+                        ]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+                
+                <View style={styles.optionGroup}>
+                  <Text style={styles.preferenceLabel}>Auto-Stop After Silence</Text>
+                  <View style={styles.optionRow}>
+                    {AUTO_STOP_OPTIONS.map(seconds => (
+                      <TouchableOpacity
+                        key={seconds}
+                        style={[
+                          styles.optionChip,
+                          voiceActivity.autoStopSeconds === seconds ? styles.optionChipSelected : null
+                        ]}
+                        onPress={() => updateVoiceActivity({ autoStopSeconds: seconds })}
+                      >
+                        <Text style={[
+                          styles.optionChipText,
+                          voiceActivity.autoStopSeconds === seconds ? styles.optionChipTextSelected : null
+                        ]}>
+                          {seconds === 0 ? 'Never' : `${seconds}s`}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <Text style={styles.apiKeyHelp}>
+                    Long pauses are marked and left out of transcription uploads.
+                  </Text>
+                </View>
+              </>
+            )}
+          </View>
+          
           {/* Preferences Section */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Preferences</Text>
@@ -375,6 +870,15 @@ const SettingsScreen = () => {
             </TouchableOpacity>
           </View>
         </ScrollView>
+        
+        <LanguagePicker
+          visible={pickingLanguage !== null}
+          title={pickingLanguage === 'outputLanguage' ? 'Task Language' : 'Spoken Language'}
+          selected={pickingLanguage ? language[pickingLanguage] : undefined}
+          allowAuto={pickingLanguage === 'spokenLanguage'}
+          onSelect={(code) => pickingLanguage && updateLanguage({ [pickingLanguage]: code })}
+          onClose={() => setPickingLanguage(null)}
+        />
       </KeyboardAvoidingView>
     </SafeAreaView>
   );
@@ -526,6 +1030,115 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333333',
   },
+  vocabularyIntro: {
+    marginBottom: 12,
+  },
+  vocabularyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  vocabularyButtons: {
+    marginTop: 8,
+    marginBottom: 0,
+  },
+  languageValue: {
+    fontSize: 16,
+    color: '#005e46',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cleanupOptions: {
+    marginTop: 16,
+  },
+  cleanupClaudeRow: {
+    marginTop: 16,
+  },
+  optionGroup: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  providerUrlContainer: {
+    marginTop: 16,
+  },
+  serverKeyLabel: {
+    marginTop: 12,
+  },
+  providerUrlInput: {
+    borderWidth: 1,
+    borderColor: '#d6ceb9',
+    borderRadius: 4,
+    padding: 8,
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  profileOption: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginTop: 12,
+  },
+  radioOuter: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#d6ceb9',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+    marginTop: 2,
+  },
+  radioOuterSelected: {
+    borderColor: '#005e46',
+  },
+  radioInner: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#005e46',
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  profileLabel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333333',
+    marginBottom: 2,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  optionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#005e46',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionChipSelected: {
+    backgroundColor: '#005e46',
+  },
+  optionChipText: {
+    fontSize: 14,
+    color: '#005e46',
+  },
+  optionChipTextSelected: {
+    color: '#FFFFFF',
+  },
   aboutItem: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,294 @@
+// src/screens/TaskChangesScreen.tsx
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import { useRoute, useNavigation } from '@react-navigation/native';
+import { taskService, TaskChange, TaskChangeset } from '../services/task-service';
+import { logger } from '../config';
+
+const TaskChangesScreen = () => {
+  const route = useRoute();
+  const navigation = useNavigation();
+  const { recordingId } = route.params || {};
+
+  const [changeset, setChangeset] = useState<TaskChangeset | null>(null);
+  const [busyTaskId, setBusyTaskId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const update = () => setChangeset(taskService.getChangeset(recordingId));
+    update();
+    return taskService.subscribe(update);
+  }, [recordingId]);
+
+  const handleRemoval = async (change: TaskChange, remove: boolean) => {
+    try {
+      setBusyTaskId(change.taskId);
+      await taskService.resolveRemoval(recordingId, change.taskId, remove);
+    } catch (error) {
+      logger.error('Failed to resolve proposed removal', error);
+      Alert.alert('Error', 'Failed to update the task. Please try again.');
+    } finally {
+      setBusyTaskId(null);
+    }
+  };
+
+  const handleRemoveAll = () => {
+    if (!changeset) return;
+
+    Alert.alert(
+      'Remove Tasks',
+      `Remove ${changeset.proposedRemovals.length} task${changeset.proposedRemovals.length === 1 ? '' : 's'} that no longer come up in the transcript?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            for (const change of changeset.proposedRemovals) {
+              await handleRemoval(change, true);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  // Close the review; tasks still proposed for removal are kept
+  const handleDone = async () => {
+    try {
+      await taskService.dismissChangeset(recordingId);
+      navigation.goBack();
+    } catch (error) {
+      logger.error('Failed to dismiss changeset', error);
+    }
+  };
+
+  const renderChange = (change: TaskChange) => (
+    <View key={change.taskId} style={styles.changeCard}>
+      <Text style={styles.changeTitle}>{change.title}</Text>
+      {(change.details || []).map(detail => (
+        <Text key={detail} style={styles.changeDetail}>{detail}</Text>
+      ))}
+    </View>
+  );
+
+  if (!changeset) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()}>
+            <Text style={styles.backButton}>← Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Task Changes</Text>
+        </View>
+        <View style={styles.centeredContainer}>
+          <Text style={styles.emptyText}>Nothing to review.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backButton}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Task Changes</Text>
+      </View>
+
+      <ScrollView style={styles.content}>
+        <Text style={styles.introText}>
+          Your tasks were extracted again from the edited transcript. Completed tasks, calendar events
+          and your own edits were kept.
+        </Text>
+
+        {changeset.proposedRemovals.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>No Longer Mentioned</Text>
+              {changeset.proposedRemovals.length > 1 && (
+                <TouchableOpacity onPress={handleRemoveAll}>
+                  <Text style={styles.sectionAction}>Remove All</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {changeset.proposedRemovals.map(change => (
+              <View key={change.taskId} style={[styles.changeCard, styles.removalCard]}>
+                <Text style={styles.changeTitle}>{change.title}</Text>
+                {busyTaskId === change.taskId ? (
+                  <ActivityIndicator size="small" color="#005e46" />
+                ) : (
+                  <View style={styles.removalButtons}>
+                    <TouchableOpacity style={styles.keepButton} onPress={() => handleRemoval(change, false)}>
+                      <Text style={styles.keepButtonText}>Keep</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.removeButton} onPress={() => handleRemoval(change, true)}>
+                      <Text style={styles.removeButtonText}>Remove</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+
+        {changeset.added.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>New</Text>
+            {changeset.added.map(renderChange)}
+          </View>
+        )}
+
+        {changeset.updated.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Updated</Text>
+            {changeset.updated.map(renderChange)}
+          </View>
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity style={styles.doneButton} onPress={handleDone}>
+          <Text style={styles.doneButtonText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f0e7',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#d6ceb9',
+  },
+  backButton: {
+    fontSize: 16,
+    color: '#005e46',
+    marginRight: 16,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#005e46',
+  },
+  centeredContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666666',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#005e46',
+    marginBottom: 12,
+  },
+  sectionAction: {
+    fontSize: 14,
+    color: '#f5827a',
+    marginBottom: 12,
+  },
+  changeCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  removalCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#f5827a',
+  },
+  changeTitle: {
+    fontSize: 16,
+    color: '#333333',
+  },
+  changeDetail: {
+    fontSize: 14,
+    color: '#666666',
+    marginTop: 4,
+  },
+  removalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  keepButton: {
+    borderWidth: 1,
+    borderColor: '#005e46',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    marginLeft: 8,
+  },
+  keepButtonText: {
+    fontSize: 14,
+    color: '#005e46',
+  },
+  removeButton: {
+    backgroundColor: '#f5827a',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    marginLeft: 8,
+  },
+  removeButtonText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#d6ceb9',
+  },
+  doneButton: {
+    backgroundColor: '#005e46',
+    borderRadius: 24,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  doneButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+});
+
+export default TaskChangesScreen;
@@ -12,33 +12,101 @@ import {
   Platform 
 } from 'react-native';
 import { useRoute, useNavigation } from '@react-navigation/native';
-import { taskService } from '../services/task-service';
-import { recordingService } from '../services/recording-service';
+import { taskService, Task, TaskChangeset, TaskList } from '../services/task-service';
+import {
+  recordingService,
+  Recording,
+  getRecordingSegments
+} from '../services/recording-service';
+import { jobQueueService, Job } from '../services/job-queue-service';
+import { ClaudeApiError, ClaudeErrorKind } from '../services/claude-errors';
 import { googleCalendarService } from '../services/google-calendar-service';
 import { useAudioPlayback } from '../services/audio-processing';
+import Waveform from '../components/Waveform';
 import { logger } from '../config';
+import { parseLocalDate } from '../utils/relative-dates';
+import { getPriorityLevel } from '../config/priorities';
+import { groupByPriority, groupByQuadrant } from '../utils/task-priority';
+
+// Headings for why tasks couldn't be extracted
+const ERROR_TITLES: Record<ClaudeErrorKind, string> = {
+  'auth': 'Claude API Key Problem',
+  'rate-limit': 'Too Many Requests',
+  'overloaded': 'Claude Is Busy',
+  'network': 'No Connection to Claude',
+  'invalid-response': 'Unusable Reply from Claude',
+  'cancelled': 'Extraction Cancelled',
+};
+
+// Why loading tasks failed, shown in place of the task list
+interface LoadError {
+  kind?: ClaudeErrorKind;
+  message: string;
+  details: string[];
+}
 
 const TasksScreen = () => {
   const route = useRoute();
   const navigation = useNavigation();
-  const { recordingId } = route.params || {};
+  const { recordingId, highlightTaskId } = route.params || {};
   
-  const [tasks, setTasks] = useState({
-    highPriorityTasks: [],
-    mediumPriorityTasks: [],
+  const [tasks, setTasks] = useState<TaskList>({
+    tasks: [],
     completedTasks: [],
   });
+  const [view, setView] = useState<'priority' | 'matrix'>('priority');
   const [loading, setLoading] = useState(true);
   const [processingTaskId, setProcessingTaskId] = useState(null);
-  const [recording, setRecording] = useState(null);
+  const [recording, setRecording] = useState<Recording | null>(null);
   const [playingAudio, setPlayingAudio] = useState(false);
-  const { loadSound, playSound, pauseSound, isPlaying } = useAudioPlayback();
+  const [extractJob, setExtractJob] = useState<Job | undefined>(undefined);
+  const [partialTasks, setPartialTasks] = useState<Task[]>([]);
+  const [online, setOnline] = useState(jobQueueService.isOnline());
+  const [loadError, setLoadError] = useState<LoadError | null>(null);
+  const [changeset, setChangeset] = useState<TaskChangeset | null>(null);
+  const {
+    loadSound,
+    playSound,
+    pauseSound,
+    isPlaying,
+    playbackPosition,
+    playbackDuration
+  } = useAudioPlayback();
   
   // Load tasks when screen mounts or when recordingId changes
   useEffect(() => {
     loadTasks();
   }, [recordingId]);
   
+  // Follow the extraction job while tasks are loading
+  useEffect(() => {
+    if (!recordingId) return;
+    
+    const update = () => {
+      const job = jobQueueService.getJob('extract', recordingId);
+      const progress = job ? jobQueueService.getProgress(job.id) : undefined;
+      setExtractJob(job ? { ...job } : undefined);
+      setPartialTasks(progress?.partialTasks || []);
+      setOnline(jobQueueService.isOnline());
+    };
+    
+    update();
+    return jobQueueService.subscribe(update);
+  }, [recordingId]);
+  
+  // Follow changes from re-extracting, and tasks removed while reviewing them
+  useEffect(() => {
+    if (!recordingId) return;
+    
+    const update = () => {
+      setChangeset(taskService.getChangeset(recordingId));
+      setTasks(taskService.getTasksByRecordingId(recordingId));
+    };
+    
+    setChangeset(taskService.getChangeset(recordingId));
+    return taskService.subscribe(update);
+  }, [recordingId]);
+  
   // Load recording info
   useEffect(() => {
     if (recordingId) {
@@ -52,6 +120,7 @@ const TasksScreen = () => {
   // Load tasks - either all tasks or tasks for specific recording
   const loadTasks = async () => {
     setLoading(true);
+    setLoadError(null);
     
     try {
       // Get recording if specified
@@ -60,22 +129,21 @@ const TasksScreen = () => {
         
         if (recording && recording.transcript) {
           // Check if recording is already processed
-          if (!recording.processed) {
-            // Process the transcript to extract tasks
-            await taskService.processTranscript(recording.transcript, recordingId);
-            
-            // Mark recording as processed
-            await recordingService.markRecordingAsProcessed(recordingId);
+          // Extract tasks in the job queue, which retries and marks the recording processed.
+          // A queued job means the transcript changed since the tasks were extracted.
+          if (!recording.processed || jobQueueService.getJob('extract', recordingId)) {
+            const job = await jobQueueService.enqueue('extract', recordingId);
+            await jobQueueService.waitForJob(job.id);
           }
           
           // Get tasks for this recording
           const recordingTasks = taskService.getTasksByRecordingId(recordingId);
           setTasks(recordingTasks);
+          setChangeset(taskService.getChangeset(recordingId));
         } else {
           // No transcript or recording not found
           setTasks({
-            highPriorityTasks: [],
-            mediumPriorityTasks: [],
+            tasks: [],
             completedTasks: [],
           });
         }
@@ -86,10 +154,14 @@ const TasksScreen = () => {
       }
     } catch (error) {
       logger.error('Failed to load tasks', error);
-      Alert.alert(
-        'Error Loading Tasks',
-        'Something went wrong while loading your tasks. Please try again.'
-      );
+      
+      // The job keeps the kind of error if it gave up before this screen was opened
+      const job = recordingId ? jobQueueService.getJob('extract', recordingId) : undefined;
+      setLoadError({
+        kind: error instanceof ClaudeApiError ? error.kind : job?.errorKind,
+        message: error instanceof Error ? error.message : 'Something went wrong while loading your tasks.',
+        details: error instanceof ClaudeApiError ? error.details : [],
+      });
     } finally {
       setLoading(false);
     }
@@ -105,7 +177,7 @@ const TasksScreen = () => {
       } else {
         // If first time playing, load the sound
         if (!playingAudio) {
-          const success = await loadSound(recording.audioUri);
+          const success = await loadSound(getRecordingSegments(recording).map(segment => segment.uri));
           if (success) {
             setPlayingAudio(true);
           } else {
@@ -216,10 +288,37 @@ const TasksScreen = () => {
     }
   };
   
+  // Let the user settle a date that Claude and the date phrase disagree on
+  const handleReviewDate = (task: Task) => {
+    if (!task.dateReview) return;
+    const { reason, date, time } = task.dateReview;
+    
+    const saveDate = async (updates: Partial<Task>) => {
+      try {
+        await taskService.updateTask(task.id, { ...updates, dateReview: undefined });
+        setTasks(recordingId ? taskService.getTasksByRecordingId(recordingId) : taskService.getAllTasks());
+      } catch (error) {
+        logger.error('Failed to update task date', error);
+        Alert.alert('Error', 'Failed to update the task date. Please try again.');
+      }
+    };
+    
+    Alert.alert(
+      'Check Date',
+      reason,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: "Use Claude's Date", onPress: () => saveDate({ date, time }) },
+        // Only clears the flag, so the kept date isn't counted as the user's edit
+        { text: 'Keep', onPress: () => saveDate({}) }
+      ]
+    );
+  };
+  
   const formatDate = (dateString) => {
     if (!dateString) return '';
     
-    const date = new Date(dateString);
+    const date = parseLocalDate(dateString);
     return date.toLocaleDateString('en-US', { 
       weekday: 'long',
       month: 'long', 
@@ -251,8 +350,59 @@ const TasksScreen = () => {
     }
   };
   
-  // Loading state
+  // Extract again after the user cancelled, even if older tasks are already saved
+  const handleExtractAgain = async () => {
+    try {
+      await jobQueueService.enqueue('extract', recordingId);
+    } catch (error) {
+      logger.error('Failed to queue task extraction', error);
+    }
+    loadTasks();
+  };
+  
+  // Loading state - tasks are shown as soon as Claude has written them
   if (loading) {
+    const cancelButton = extractJob && (
+      <TouchableOpacity style={styles.cancelButton} onPress={() => jobQueueService.cancelJob(extractJob.id)}>
+        <Text style={styles.cancelButtonText}>Cancel</Text>
+      </TouchableOpacity>
+    );
+    
+    if (partialTasks.length > 0) {
+      return (
+        <SafeAreaView style={styles.container}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={() => navigation.goBack()}>
+              <Text style={styles.backButton}>← Back</Text>
+            </TouchableOpacity>
+          </View>
+          
+          <View style={styles.streamingStatus}>
+            <ActivityIndicator size="small" color="#005e46" />
+            <Text style={styles.streamingText}>
+              {partialTasks.length} task{partialTasks.length === 1 ? '' : 's'} found so far...
+            </Text>
+            {cancelButton}
+          </View>
+          
+          <ScrollView style={styles.content}>
+            {partialTasks.map(task => (
+              <View key={task.id} style={styles.taskCard}>
+                <View style={styles.taskContent}>
+                  <Text style={styles.taskTitle}>{task.title}</Text>
+                  <Text style={styles.taskDateTime}>
+                    {getPriorityLevel(task.priority).label} priority
+                    {task.date ? ` · ${formatDate(task.date)}` : ''}
+                    {task.time ? ` at ${formatTime(task.time)}` : ''}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+        </SafeAreaView>
+      );
+    }
+    
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.header}>
@@ -263,12 +413,136 @@ const TasksScreen = () => {
         
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#005e46" />
-          <Text style={styles.loadingText}>Processing tasks...</Text>
+          <Text style={styles.loadingText}>
+            {extractJob && !online ? 'Waiting for a connection...' : 'Processing tasks...'}
+          </Text>
+          
+          {extractJob && extractJob.status === 'retrying' && (
+            <View style={styles.retryContainer}>
+              <Text style={styles.retryText}>{extractJob.lastError || 'Extraction failed'}</Text>
+              <Text style={styles.retryText}>
+                Trying again at {new Date(extractJob.nextAttemptAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}.
+              </Text>
+              <TouchableOpacity
+                style={styles.retryButton}
+                onPress={() => jobQueueService.retryJob(extractJob.id)}
+              >
+                <Text style={styles.retryButtonText}>Retry Now</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          
+          <View style={styles.cancelContainer}>{cancelButton}</View>
+        </View>
+      </SafeAreaView>
+    );
+  }
+  
+  // Extraction failed - say why, and what can be done about it
+  if (loadError) {
+    const openSettings = (
+      <TouchableOpacity
+        key="settings"
+        style={loadError.kind === 'auth' ? styles.retryButton : styles.secondaryButton}
+        onPress={() => navigation.navigate('Settings')}
+      >
+        <Text style={loadError.kind === 'auth' ? styles.retryButtonText : styles.secondaryButtonText}>
+          Open Settings
+        </Text>
+      </TouchableOpacity>
+    );
+    const retry = (
+      <TouchableOpacity
+        key="retry"
+        style={loadError.kind === 'auth' ? styles.secondaryButton : styles.retryButton}
+        onPress={loadError.kind === 'cancelled' ? handleExtractAgain : loadTasks}
+      >
+        <Text style={loadError.kind === 'auth' ? styles.secondaryButtonText : styles.retryButtonText}>
+          Try Again
+        </Text>
+      </TouchableOpacity>
+    );
+    
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()}>
+            <Text style={styles.backButton}>← Back</Text>
+          </TouchableOpacity>
+        </View>
+        
+        <View style={styles.loadingContainer}>
+          <Text style={styles.errorTitle}>
+            {loadError.kind ? ERROR_TITLES[loadError.kind] : "Couldn't Extract Tasks"}
+          </Text>
+          <View style={styles.retryContainer}>
+            <Text style={styles.retryText}>{loadError.message}</Text>
+            {loadError.details.slice(0, 5).map(detail => (
+              <Text key={detail} style={styles.errorDetail}>{detail}</Text>
+            ))}
+            <View style={styles.errorButtons}>
+              {loadError.kind === 'auth' ? [openSettings, retry] : loadError.kind === 'cancelled' ? [retry] : [retry, openSettings]}
+            </View>
+          </View>
         </View>
       </SafeAreaView>
     );
   }
   
+  const renderTaskCard = (task: Task) => (
+    <View key={task.id} style={[styles.taskCard, task.id === highlightTaskId ? styles.taskCardHighlighted : null]}>
+      <View style={styles.taskContent}>
+        <Text style={styles.taskTitle}>{task.title}</Text>
+        <Text style={styles.taskDateTime}>
+          {task.date ? `${formatDate(task.date)}` : ''}
+          {task.time ? ` at ${formatTime(task.time)}` : ''}
+          {task.duration ? ` ${formatDuration(task.duration)}` : ''}
+        </Text>
+        
+        {task.dateReview && (
+          <TouchableOpacity style={styles.dateReviewBadge} onPress={() => handleReviewDate(task)}>
+            <Text style={styles.dateReviewText}>Check date</Text>
+          </TouchableOpacity>
+        )}
+        
+        {/* Subtasks if any */}
+        {task.subTasks && task.subTasks.length > 0 && (
+          <View style={styles.subtasksContainer}>
+            {task.subTasks.map(subtask => (
+              <Text key={subtask.id} style={styles.subtaskText}>
+                • {subtask.title}
+              </Text>
+            ))}
+          </View>
+        )}
+      </View>
+      
+      {processingTaskId === task.id ? (
+        <View style={styles.buttonContainer}>
+          <ActivityIndicator size="small" color="#005e46" />
+        </View>
+      ) : task.calendarEventId ? (
+        <TouchableOpacity 
+          style={styles.completedButton}
+          onPress={() => handleMarkAsComplete(task.id)}
+        >
+          <Text style={styles.completedButtonText}>✓</Text>
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          style={styles.pushButton}
+          onPress={() => handlePushToCalendar(task.id)}
+        >
+          <Text style={styles.pushButtonText}>Push</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+  
+  // The prompt template version these tasks came from
+  const extractedWith = [...tasks.tasks, ...tasks.completedTasks]
+    .find(task => task.promptTemplate)?.promptTemplate;
+  
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
@@ -294,112 +568,91 @@ const TasksScreen = () => {
         )}
       </View>
       
+      {recording && recording.waveform && recording.waveform.length > 0 && (
+        <View style={styles.waveformContainer}>
+          <Waveform
+            samples={recording.waveform}
+            progress={playbackDuration ? playbackPosition / playbackDuration : 0}
+            markers={(recording.bookmarks || []).map(bookmark => bookmark.time / recording.duration)}
+          />
+        </View>
+      )}
+      
+      {changeset && (
+        <View style={styles.changesetBanner}>
+          <Text style={styles.changesetText}>
+            {[
+              changeset.added.length > 0 ? `${changeset.added.length} new` : null,
+              changeset.updated.length > 0 ? `${changeset.updated.length} updated` : null,
+              changeset.proposedRemovals.length > 0 ? `${changeset.proposedRemovals.length} no longer mentioned` : null
+            ].filter(Boolean).join(', ') || 'Tasks updated'} since the transcript changed
+          </Text>
+          <TouchableOpacity onPress={() => navigation.navigate('TaskChanges', { recordingId })}>
+            <Text style={styles.changesetButton}>Review</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      
+      {tasks.tasks.length > 0 && (
+        <View style={styles.viewToggle}>
+          {[
+            { id: 'priority' as const, label: 'By Priority' },
+            { id: 'matrix' as const, label: 'Urgent / Important' }
+          ].map(option => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.viewOption, view === option.id ? styles.viewOptionSelected : null]}
+              onPress={() => setView(option.id)}
+            >
+              <Text style={[styles.viewOptionText, view === option.id ? styles.viewOptionTextSelected : null]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      
       <ScrollView style={styles.content}>
-        {/* High Priority Tasks */}
-        <View style={styles.sectionContainer}>
-          <Text style={styles.sectionTitle}>High Priority (Do This Week)</Text>
-          
-          {tasks.highPriorityTasks.length === 0 ? (
-            <Text style={styles.emptyText}>No high priority tasks</Text>
+        {view === 'priority' || tasks.tasks.length === 0 ? (
+          tasks.tasks.length === 0 ? (
+            <View style={styles.sectionContainer}>
+              <Text style={styles.emptyText}>No tasks to do</Text>
+            </View>
           ) : (
-            tasks.highPriorityTasks.map(task => (
-              <View key={task.id} style={styles.taskCard}>
-                <View style={styles.taskContent}>
-                  <Text style={styles.taskTitle}>{task.title}</Text>
-                  <Text style={styles.taskDateTime}>
-                    {task.date ? `${formatDate(task.date)}` : ''}
-                    {task.time ? ` at ${formatTime(task.time)}` : ''}
-                    {task.duration ? ` ${formatDuration(task.duration)}` : ''}
-                  </Text>
+            groupByPriority(tasks.tasks)
+              .filter(group => group.items.length > 0)
+              .map(group => (
+                <View key={group.level.id} style={styles.sectionContainer}>
+                  <Text style={styles.sectionTitle}>{group.level.sectionTitle}</Text>
                   
-                  {/* Subtasks if any */}
-                  {task.subTasks && task.subTasks.length > 0 && (
-                    <View style={styles.subtasksContainer}>
-                      {task.subTasks.map(subtask => (
-                        <Text key={subtask.id} style={styles.subtaskText}>
-                          • {subtask.title}
-                        </Text>
-                      ))}
-                    </View>
-                  )}
+                  {group.items.map(task => renderTaskCard(task))}
                 </View>
+              ))
+          )
+        ) : (
+          <View style={styles.matrix}>
+            {groupByQuadrant(tasks.tasks).map(({ quadrant, items }) => (
+              <View key={quadrant.id} style={styles.quadrant}>
+                <Text style={styles.quadrantTitle}>{quadrant.label}</Text>
+                <Text style={styles.quadrantDescription}>{quadrant.description}</Text>
                 
-                {processingTaskId === task.id ? (
-                  <View style={styles.buttonContainer}>
-                    <ActivityIndicator size="small" color="#005e46" />
-                  </View>
-                ) : task.calendarEventId ? (
-                  <TouchableOpacity 
-                    style={styles.completedButton}
-                    onPress={() => handleMarkAsComplete(task.id)}
-                  >
-                    <Text style={styles.completedButtonText}>✓</Text>
-                  </TouchableOpacity>
+                {items.length === 0 ? (
+                  <Text style={styles.emptyText}>Nothing here</Text>
                 ) : (
-                  <TouchableOpacity
-                    style={styles.pushButton}
-                    onPress={() => handlePushToCalendar(task.id)}
-                  >
-                    <Text style={styles.pushButtonText}>Push</Text>
-                  </TouchableOpacity>
-                )}
-              </View>
-            ))
-          )}
-        </View>
-        
-        {/* Medium Priority Tasks */}
-        <View style={styles.sectionContainer}>
-          <Text style={styles.sectionTitle}>Medium Priority (Next 1-2 weeks)</Text>
-          
-          {tasks.mediumPriorityTasks.length === 0 ? (
-            <Text style={styles.emptyText}>No medium priority tasks</Text>
-          ) : (
-            tasks.mediumPriorityTasks.map(task => (
-              <View key={task.id} style={styles.taskCard}>
-                <View style={styles.taskContent}>
-                  <Text style={styles.taskTitle}>{task.title}</Text>
-                  <Text style={styles.taskDateTime}>
-                    {task.date ? `${formatDate(task.date)}` : ''}
-                    {task.time ? ` at ${formatTime(task.time)}` : ''}
-                    {task.duration ? ` ${formatDuration(task.duration)}` : ''}
-                  </Text>
-                  
-                  {/* Subtasks if any */}
-                  {task.subTasks && task.subTasks.length > 0 && (
-                    <View style={styles.subtasksContainer}>
-                      {task.subTasks.map(subtask => (
-                        <Text key={subtask.id} style={styles.subtaskText}>
-                          • {subtask.title}
-                        </Text>
-                      ))}
+                  items.map(task => (
+                    <View key={task.id} style={styles.quadrantTask}>
+                      <Text style={styles.quadrantTaskTitle}>{task.title}</Text>
+                      <Text style={styles.taskDateTime}>
+                        {getPriorityLevel(task.priority).label}
+                        {task.date ? ` · ${formatDate(task.date)}` : ''}
+                      </Text>
                     </View>
-                  )}
-                </View>
-                
-                {processingTaskId === task.id ? (
-                  <View style={styles.buttonContainer}>
-                    <ActivityIndicator size="small" color="#005e46" />
-                  </View>
-                ) : task.calendarEventId ? (
-                  <TouchableOpacity 
-                    style={styles.completedButton}
-                    onPress={() => handleMarkAsComplete(task.id)}
-                  >
-                    <Text style={styles.completedButtonText}>✓</Text>
-                  </TouchableOpacity>
-                ) : (
-                  <TouchableOpacity
-                    style={styles.pushButton}
-                    onPress={() => handlePushToCalendar(task.id)}
-                  >
-                    <Text style={styles.pushButtonText}>Push</Text>
-                  </TouchableOpacity>
+                  ))
                 )}
               </View>
-            ))
-          )}
-        </View>
+            ))}
+          </View>
+        )}
         
         {/* Completed Tasks Section */}
         {tasks.completedTasks.length > 0 && (
@@ -407,7 +660,7 @@ const TasksScreen = () => {
             <Text style={styles.sectionTitle}>Completed Tasks</Text>
             
             {tasks.completedTasks.map(task => (
-              <View key={task.id} style={[styles.taskCard, styles.taskCardCompleted]}>
+              <View key={task.id} style={[styles.taskCard, styles.taskCardCompleted, task.id === highlightTaskId ? styles.taskCardHighlighted : null]}>
                 <View style={styles.taskContent}>
                   <Text style={[styles.taskTitle, styles.taskTitleCompleted]}>
                     {task.title}
@@ -425,6 +678,12 @@ const TasksScreen = () => {
             ))}
           </View>
         )}
+        
+        {extractedWith && (
+          <Text style={styles.extractedWithText}>
+            Extracted with “{extractedWith.name}” v{extractedWith.version}
+          </Text>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -464,6 +723,32 @@ const styles = StyleSheet.create({
   recordingButtonTextActive: {
     color: '#FFFFFF',
   },
+  waveformContainer: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#d6ceb9',
+  },
+  changesetBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#d6ceb9',
+  },
+  changesetText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333333',
+    marginRight: 12,
+  },
+  changesetButton: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#005e46',
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -474,6 +759,84 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#666666',
   },
+  retryContainer: {
+    marginTop: 24,
+    paddingHorizontal: 32,
+    alignItems: 'center',
+  },
+  retryText: {
+    fontSize: 14,
+    color: '#666666',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  streamingStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#d6ceb9',
+  },
+  streamingText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666666',
+    marginLeft: 8,
+  },
+  cancelButton: {
+    borderWidth: 1,
+    borderColor: '#f5827a',
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 16,
+  },
+  cancelContainer: {
+    marginTop: 16,
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    color: '#f5827a',
+    fontWeight: 'bold',
+  },
+  retryButton: {
+    backgroundColor: '#005e46',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+  },
+  errorTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#f5827a',
+  },
+  errorDetail: {
+    fontSize: 12,
+    color: '#666666',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  errorButtons: {
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  secondaryButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#005e46',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    color: '#005e46',
+  },
   content: {
     flex: 1,
     padding: 16,
@@ -512,6 +875,10 @@ const styles = StyleSheet.create({
       },
     }),
   },
+  taskCardHighlighted: {
+    borderWidth: 2,
+    borderColor: '#005e46',
+  },
   taskCardCompleted: {
     backgroundColor: '#f0f0f0',
     borderLeftWidth: 4,
@@ -536,6 +903,19 @@ const styles = StyleSheet.create({
     color: '#666666',
     marginBottom: 8,
   },
+  dateReviewBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#f5827a',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginBottom: 4,
+  },
+  dateReviewText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
   subtasksContainer: {
     marginTop: 8,
   },
@@ -586,6 +966,69 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: 'bold',
   },
+  viewToggle: {
+    flexDirection: 'row',
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#005e46',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  viewOption: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  viewOptionSelected: {
+    backgroundColor: '#005e46',
+  },
+  viewOptionText: {
+    fontSize: 14,
+    color: '#005e46',
+  },
+  viewOptionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+  },
+  matrix: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginBottom: 24,
+  },
+  quadrant: {
+    width: '48%',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  quadrantTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#005e46',
+  },
+  quadrantDescription: {
+    fontSize: 12,
+    color: '#666666',
+    marginBottom: 8,
+  },
+  quadrantTask: {
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#d6ceb9',
+  },
+  quadrantTaskTitle: {
+    fontSize: 14,
+    color: '#333333',
+  },
+  extractedWithText: {
+    fontSize: 12,
+    color: '#666666',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
 });
 
 export default TasksScreen;
\ No newline at end of file
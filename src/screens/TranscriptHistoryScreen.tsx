@@ -0,0 +1,339 @@
+// src/screens/TranscriptHistoryScreen.tsx
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import { useRoute, useNavigation } from '@react-navigation/native';
+import {
+  recordingService,
+  Recording,
+  TranscriptSource,
+  TranscriptVersion,
+  getTranscriptVersions
+} from '../services/recording-service';
+import { diffWords, countChanges } from '../utils/text-diff';
+import { logger } from '../config';
+
+const SOURCE_LABELS: Record<TranscriptSource, string> = {
+  machine: 'Transcribed',
+  edit: 'Your edit',
+  cleanup: 'Cleaned up',
+  revert: 'Reverted',
+};
+
+const TranscriptHistoryScreen = () => {
+  const route = useRoute();
+  const navigation = useNavigation();
+  const { recordingId } = route.params || {};
+
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareWithCurrent, setCompareWithCurrent] = useState(false);
+  const [isReverting, setIsReverting] = useState(false);
+
+  useEffect(() => {
+    const rec = recordingService.getRecordingById(recordingId);
+    if (!rec) {
+      logger.error('Recording not found', { recordingId });
+      Alert.alert(
+        'Error',
+        'Recording not found.',
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+      return;
+    }
+
+    setRecording(rec);
+    const versions = getTranscriptVersions(rec);
+    if (versions.length > 0) {
+      setSelectedId(versions[versions.length - 1].id);
+    }
+  }, [recordingId]);
+
+  const versions = recording ? getTranscriptVersions(recording) : [];
+  const current = versions[versions.length - 1];
+  const selectedIndex = versions.findIndex(version => version.id === selectedId);
+  const selected = selectedIndex >= 0 ? versions[selectedIndex] : undefined;
+  const isCurrent = !!selected && selected === current;
+
+  // Changes from the version before the selected one, or what reverting to it would change
+  const base = compareWithCurrent && !isCurrent ? current : versions[selectedIndex - 1];
+  const diff = useMemo(() => {
+    if (!selected || !base) return null;
+    return diffWords(base.text, selected.text);
+  }, [selected, base]);
+  const changes = diff ? countChanges(diff) : { added: 0, removed: 0 };
+
+  const formatVersionDate = (version: TranscriptVersion) => {
+    const date = new Date(version.createdAt);
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) +
+      ' at ' + date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  };
+
+  const describeVersion = (version: TranscriptVersion) => {
+    const number = versions.indexOf(version) + 1;
+    if (version.source === 'revert' && version.revertedFrom) {
+      const original = versions.findIndex(item => item.id === version.revertedFrom);
+      return original >= 0
+        ? `Version ${number} · Reverted to version ${original + 1}`
+        : `Version ${number} · Reverted`;
+    }
+    return `Version ${number} · ${SOURCE_LABELS[version.source]}`;
+  };
+
+  // Make the selected version the current transcript again
+  const handleRevert = () => {
+    if (!recording || !selected || isCurrent) return;
+
+    Alert.alert(
+      'Revert Transcript?',
+      `The transcript will go back to version ${selectedIndex + 1}. The current one stays in the history.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revert',
+          onPress: async () => {
+            setIsReverting(true);
+            try {
+              await recordingService.revertTranscript(recording.id, selected.id);
+              navigation.navigate('Transcript', { recordingId: recording.id, revertedAt: Date.now() });
+            } catch (error) {
+              logger.error('Failed to revert transcript', error);
+              Alert.alert('Error', 'Failed to revert the transcript. Please try again.');
+            } finally {
+              setIsReverting(false);
+            }
+          }
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backButton}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Transcript History</Text>
+      </View>
+
+      {versions.length === 0 ? (
+        <View style={styles.centeredContainer}>
+          <Text style={styles.emptyText}>This vent has no transcript yet.</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content}>
+          {[...versions].reverse().map(version => (
+            <TouchableOpacity
+              key={version.id}
+              style={[styles.versionRow, version.id === selectedId ? styles.versionRowSelected : null]}
+              onPress={() => setSelectedId(version.id)}
+            >
+              <Text style={styles.versionTitle}>{describeVersion(version)}</Text>
+              <View style={styles.versionDetails}>
+                <Text style={styles.versionDate}>{formatVersionDate(version)}</Text>
+                {version === current && (
+                  <Text style={styles.badge}>Current</Text>
+                )}
+                {recording && version.id === recording.extractedVersionId && (
+                  <Text style={styles.badge}>Used for tasks</Text>
+                )}
+              </View>
+            </TouchableOpacity>
+          ))}
+
+          {selected && (
+            <View style={styles.diffContainer}>
+              {!isCurrent && (
+                <View style={styles.compareRow}>
+                  <TouchableOpacity onPress={() => setCompareWithCurrent(false)}>
+                    <Text style={[styles.compareOption, !compareWithCurrent ? styles.compareOptionActive : null]}>
+                      Previous version
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => setCompareWithCurrent(true)}>
+                    <Text style={[styles.compareOption, compareWithCurrent ? styles.compareOptionActive : null]}>
+                      Current transcript
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              <Text style={styles.diffSummary}>
+                {!diff
+                  ? 'The first version of this transcript.'
+                  : compareWithCurrent && !isCurrent
+                    ? `Reverting would add ${changes.added} and remove ${changes.removed} words.`
+                    : `${changes.added} words added and ${changes.removed} removed since version ${selectedIndex}.`}
+              </Text>
+
+              <Text style={styles.diffText}>
+                {diff
+                  ? diff.map((part, index) => (
+                    <Text
+                      key={index}
+                      style={part.type === 'added'
+                        ? styles.addedText
+                        : part.type === 'removed' ? styles.removedText : null}
+                    >
+                      {part.text}
+                    </Text>
+                  ))
+                  : selected.text}
+              </Text>
+
+              {!isCurrent && (
+                <TouchableOpacity
+                  style={styles.revertButton}
+                  onPress={handleRevert}
+                  disabled={isReverting}
+                >
+                  {isReverting ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" />
+                  ) : (
+                    <Text style={styles.revertButtonText}>Revert to This Version</Text>
+                  )}
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f0e7',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#d6ceb9',
+  },
+  backButton: {
+    fontSize: 16,
+    color: '#005e46',
+    marginRight: 16,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#005e46',
+  },
+  centeredContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666666',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  versionRow: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#FFFFFF',
+  },
+  versionRowSelected: {
+    borderColor: '#005e46',
+  },
+  versionTitle: {
+    fontSize: 16,
+    color: '#333333',
+  },
+  versionDetails: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginTop: 4,
+  },
+  versionDate: {
+    fontSize: 12,
+    color: '#666666',
+    marginRight: 8,
+  },
+  badge: {
+    fontSize: 12,
+    color: '#005e46',
+    backgroundColor: '#f5f0e7',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    marginRight: 6,
+    overflow: 'hidden',
+  },
+  diffContainer: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 16,
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  compareRow: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  compareOption: {
+    fontSize: 14,
+    color: '#666666',
+    marginRight: 16,
+  },
+  compareOptionActive: {
+    color: '#005e46',
+    fontWeight: 'bold',
+  },
+  diffSummary: {
+    fontSize: 14,
+    color: '#666666',
+    marginBottom: 12,
+  },
+  diffText: {
+    fontSize: 16,
+    lineHeight: 24,
+    color: '#333333',
+  },
+  addedText: {
+    backgroundColor: '#d9efe6',
+    color: '#005e46',
+  },
+  removedText: {
+    color: '#f5827a',
+    textDecorationLine: 'line-through',
+  },
+  revertButton: {
+    backgroundColor: '#005e46',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  revertButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+  },
+});
+
+export default TranscriptHistoryScreen;
@@ -1,5 +1,5 @@
 // src/screens/TranscriptScreen.tsx
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   View, 
   Text, 
@@ -17,49 +17,70 @@ import {
   ProgressViewIOS
 } from 'react-native';
 import { useRoute, useNavigation, useFocusEffect } from '@react-navigation/native';
-import { useSpeechToText } from '../services/audio-processing';
-import { recordingService } from '../services/recording-service';
+import { useSpeechToText, useAudioPlayback } from '../services/audio-processing';
+import {
+  recordingService,
+  Recording,
+  getRecordingSegments,
+  getUntranscribedSegments,
+  getRawTranscript
+} from '../services/recording-service';
+import { jobQueueService } from '../services/job-queue-service';
+import { transcriptCleanupService } from '../services/transcript-cleanup-service';
+import { promptTemplateService, PromptTemplate } from '../services/prompt-template-service';
+import { formatTimestamp } from '../utils/bookmarks';
+import { getLanguageName } from '../config/languages';
+import { BUILT_IN_TEMPLATE_NAME } from '../config/prompt-templates';
+import { alignTranscript, findActiveToken } from '../utils/transcript-timing';
 import { logger } from '../config';
+import Waveform from '../components/Waveform';
+import LanguagePicker from '../components/LanguagePicker';
+import PromptTemplatePicker from '../components/PromptTemplatePicker';
 
 const TranscriptScreen = () => {
   const route = useRoute();
   const navigation = useNavigation();
-  const { recordingId } = route.params || {};
+  const { recordingId, continuedAt, revertedAt } = route.params || {};
   
-  const [recording, setRecording] = useState(null);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [transcribingNewPart, setTranscribingNewPart] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [soundLoaded, setSoundLoaded] = useState(false);
+  const [pickingLanguage, setPickingLanguage] = useState(false);
+  const [showRaw, setShowRaw] = useState(false);
+  const [isCleaning, setIsCleaning] = useState(false);
+  const [pickingTemplate, setPickingTemplate] = useState(false);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [defaultTemplateId, setDefaultTemplateId] = useState<string | undefined>(undefined);
   
   const { 
     transcript, 
     isTranscribing, 
+    isWaitingForNetwork,
     transcriptionError,
+    retryAt,
     progressPercentage,
+    isProgressIndeterminate,
     updateTranscript, 
     startTranscription 
-  } = useSpeechToText();
+  } = useSpeechToText(recordingId);
+  
+  const {
+    loadSound,
+    playSound,
+    pauseSound,
+    seekTo,
+    isPlaying,
+    playbackPosition,
+    playbackDuration
+  } = useAudioPlayback();
   
   // Handle back button
   useFocusEffect(
     React.useCallback(() => {
+      // Transcription carries on in the background, so leaving needs no confirmation
       const onBackPress = () => {
-        if (isTranscribing) {
-          // Show confirmation dialog when transcribing
-          Alert.alert(
-            'Transcription in Progress',
-            'Are you sure you want to cancel the transcription process?',
-            [
-              { text: 'Stay', style: 'cancel', onPress: () => {} },
-              { 
-                text: 'Cancel Transcription', 
-                style: 'destructive', 
-                onPress: () => navigation.goBack() 
-              },
-            ]
-          );
-          return true; // Prevent default behavior
-        }
-        
         if (isEditing && transcript) {
           // Save edits before navigating back
           setIsEditing(false);
@@ -83,9 +104,32 @@ const TranscriptScreen = () => {
       BackHandler.addEventListener('hardwareBackPress', onBackPress);
       
       return () => BackHandler.removeEventListener('hardwareBackPress', onBackPress);
-    }, [isTranscribing, isEditing, transcript, recording, navigation])
+    }, [isEditing, transcript, recording, navigation])
   );
   
+  // Transcribe a recording, or just the parts added since its transcript was made.
+  // The job queue merges a new part into the saved transcript.
+  const transcribeRecording = async (rec: Recording, retryNow: boolean = false) => {
+    if (rec.transcript) {
+      updateTranscript(rec.transcript);
+    }
+    if (getUntranscribedSegments(rec).length === 0) return;
+    
+    try {
+      setTranscribingNewPart(!!rec.transcript);
+      const updated = await startTranscription(retryNow);
+      if (updated) {
+        updateTranscript(updated.transcript || '');
+        setRecording({ ...updated });
+      }
+    } catch (error) {
+      // The job keeps the error for the error state
+      logger.error('Transcription failed', error);
+    } finally {
+      setTranscribingNewPart(false);
+    }
+  };
+  
   useEffect(() => {
     // Load recording details
     const loadRecording = async () => {
@@ -94,14 +138,8 @@ const TranscriptScreen = () => {
           const rec = recordingService.getRecordingById(recordingId);
           if (rec) {
             setRecording(rec);
-            
-            if (rec.transcript) {
-              // If already has transcript, use it
-              updateTranscript(rec.transcript);
-            } else {
-              // Otherwise start transcription
-              startTranscription(rec.audioUri);
-            }
+            setSoundLoaded(false);
+            transcribeRecording(rec);
           } else {
             logger.error('Recording not found', { recordingId });
             Alert.alert(
@@ -130,7 +168,202 @@ const TranscriptScreen = () => {
     };
     
     loadRecording();
-  }, [recordingId]);
+  }, [recordingId, continuedAt, revertedAt]);
+  
+  // Handle playing recording audio
+  const handlePlayRecording = async () => {
+    if (!recording) return;
+    
+    try {
+      if (isPlaying) {
+        await pauseSound();
+      } else {
+        // If first time playing, load the sound
+        if (!soundLoaded) {
+          const success = await loadSound(getRecordingSegments(recording).map(segment => segment.uri));
+          if (success) {
+            setSoundLoaded(true);
+          } else {
+            throw new Error('Failed to load audio');
+          }
+        }
+        await playSound();
+      }
+    } catch (error) {
+      logger.error('Error playing recording', error);
+      Alert.alert(
+        'Playback Error',
+        'Could not play the recording. The file may be missing or corrupted.'
+      );
+    }
+  };
+  
+  // The transcript before cleanup, when it has been cleaned, and which one is shown
+  const rawTranscript = recording ? getRawTranscript(recording) : undefined;
+  const shownTranscript = showRaw && rawTranscript !== undefined && !isEditing ? rawTranscript : transcript;
+  
+  // Transcript words matched to their timings, when the provider returned any
+  const timedTokens = useMemo(() => {
+    if (!recording || !recording.transcriptSegments || recording.transcriptSegments.length === 0) {
+      return null;
+    }
+    return alignTranscript(shownTranscript, recording.transcriptSegments);
+  }, [shownTranscript, recording]);
+  
+  const activeTokenIndex = timedTokens && (isPlaying || playbackPosition > 0)
+    ? findActiveToken(timedTokens, playbackPosition / 1000)
+    : -1;
+  
+  // Play from a point in the recording (in seconds)
+  const playFrom = async (seconds: number) => {
+    if (!recording) return;
+    
+    try {
+      if (!soundLoaded) {
+        const success = await loadSound(getRecordingSegments(recording).map(segment => segment.uri));
+        if (!success) {
+          throw new Error('Failed to load audio');
+        }
+        setSoundLoaded(true);
+      }
+      
+      await seekTo(seconds * 1000);
+      if (!isPlaying) {
+        await playSound();
+      }
+    } catch (error) {
+      logger.error('Error seeking in recording', error);
+      Alert.alert(
+        'Playback Error',
+        'Could not play the recording. The file may be missing or corrupted.'
+      );
+    }
+  };
+  
+  // Save the spoken language for this vent, and offer to transcribe it again in that language
+  const handleLanguageSelect = (language: string) => {
+    if (!recording || language === recording.language) return;
+    
+    const saveLanguage = async (retranscribe: boolean) => {
+      try {
+        const updated = await recordingService.setRecordingLanguage(recording.id, language, retranscribe);
+        setRecording({ ...updated });
+        if (retranscribe) {
+          setIsEditing(false);
+          updateTranscript('');
+          transcribeRecording(updated);
+        }
+      } catch (error) {
+        logger.error('Failed to change recording language', error);
+        Alert.alert('Error', 'Failed to change the language. Please try again.');
+      }
+    };
+    
+    if (!recording.transcript) {
+      saveLanguage(false);
+      return;
+    }
+    
+    Alert.alert(
+      'Transcribe Again?',
+      `The transcript will be replaced by a new one made in ${getLanguageName(language)}. Any edits will be lost.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Just Save', onPress: () => saveLanguage(false) },
+        { text: 'Transcribe Again', style: 'destructive', onPress: () => saveLanguage(true) },
+      ]
+    );
+  };
+  
+  // Keep the prompt template choices up to date
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const [all, defaultId] = await Promise.all([
+          promptTemplateService.getTemplates(),
+          promptTemplateService.getDefaultTemplateId()
+        ]);
+        setTemplates(all);
+        setDefaultTemplateId(defaultId);
+      } catch (error) {
+        logger.error('Failed to load prompt templates', error);
+      }
+    };
+    
+    loadTemplates();
+    return promptTemplateService.subscribe(loadTemplates);
+  }, []);
+  
+  const templateName = (templateId?: string) =>
+    templates.find(template => template.id === templateId)?.name;
+  
+  // Save the prompt template for this vent, and offer to extract its tasks again with it
+  const handleTemplateSelect = (templateId: string | undefined) => {
+    if (!recording || templateId === recording.promptTemplateId) return;
+    
+    const saveTemplate = async (extractAgain: boolean) => {
+      try {
+        const updated = await recordingService.setRecordingPromptTemplate(recording.id, templateId);
+        setRecording({ ...updated });
+        if (extractAgain) {
+          await jobQueueService.enqueue('extract', recording.id);
+          navigation.navigate('Tasks', { recordingId: recording.id });
+        }
+      } catch (error) {
+        logger.error('Failed to change prompt template', error);
+        Alert.alert('Error', 'Failed to change the prompt template. Please try again.');
+      }
+    };
+    
+    if (!recording.processed) {
+      saveTemplate(false);
+      return;
+    }
+    
+    Alert.alert(
+      'Extract Tasks Again?',
+      'Tasks from this vent were extracted with another template. Extract them again with this one? Completed tasks and your edits are kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Just Save', onPress: () => saveTemplate(false) },
+        { text: 'Extract Again', onPress: () => saveTemplate(true) },
+      ]
+    );
+  };
+  
+  // Clean up stutters and filler words now, for vents transcribed without cleanup
+  const handleCleanUp = async () => {
+    if (!recording) return;
+    
+    setIsCleaning(true);
+    try {
+      // Save any edits first, so they are part of what gets cleaned
+      await recordingService.updateRecordingTranscript(recording.id, transcript);
+      const updated = await transcriptCleanupService.cleanRecording(recording.id);
+      if (updated.transcript === transcript) {
+        Alert.alert('Nothing to Clean Up', 'This transcript has no stutters or filler words to remove.');
+        return;
+      }
+      updateTranscript(updated.transcript || '');
+      setRecording({ ...updated });
+      setShowRaw(false);
+    } catch (error) {
+      logger.error('Failed to clean up transcript', error);
+      Alert.alert('Error', 'Failed to clean up the transcript. Please try again.');
+    } finally {
+      setIsCleaning(false);
+    }
+  };
+  
+  // Record more for this vent
+  const handleContinuePress = () => {
+    if (!recording) return;
+    
+    if (isPlaying) {
+      pauseSound();
+    }
+    navigation.navigate('Recording', { continueRecordingId: recording.id });
+  };
   
   // Handle editing the transcript
   const handleEditToggle = () => {
@@ -149,6 +382,8 @@ const TranscriptScreen = () => {
           );
         });
     } else {
+      // Edits always apply to the clean transcript
+      setShowRaw(false);
       setIsEditing(true);
     }
   };
@@ -171,8 +406,8 @@ const TranscriptScreen = () => {
       // Update the transcript in the recording
       await recordingService.updateRecordingTranscript(recording.id, transcript);
       
-      // Mark recording as processed
-      await recordingService.markRecordingAsProcessed(recording.id);
+      // Extract tasks in the background; the tasks screen waits for the job
+      await jobQueueService.enqueue('extract', recording.id);
       
       // Navigate to tasks screen
       navigation.navigate('Tasks', { recordingId: recording.id });
@@ -193,45 +428,39 @@ const TranscriptScreen = () => {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.header}>
-          <TouchableOpacity 
-            onPress={() => {
-              Alert.alert(
-                'Transcription in Progress',
-                'Are you sure you want to cancel the transcription process?',
-                [
-                  { text: 'Stay', style: 'cancel', onPress: () => {} },
-                  { 
-                    text: 'Cancel Transcription', 
-                    style: 'destructive', 
-                    onPress: () => navigation.goBack() 
-                  },
-                ]
-              );
-            }}
-          >
+          <TouchableOpacity onPress={() => navigation.goBack()}>
             <Text style={styles.backButton}>← Back</Text>
           </TouchableOpacity>
         </View>
         
         <View style={styles.centeredContainer}>
           <ActivityIndicator size="large" color="#005e46" />
-          <Text style={styles.transcribingText}>Transcribing your recording...</Text>
+          <Text style={styles.transcribingText}>
+            {isWaitingForNetwork
+              ? 'Waiting for a connection...'
+              : transcribingNewPart ? 'Transcribing the new part...' : 'Transcribing your recording...'}
+          </Text>
+          <Text style={styles.backgroundHint}>
+            You can leave this screen. Transcription continues in the background.
+          </Text>
           
           <View style={styles.progressContainer}>
             {Platform.OS === 'android' ? (
               <ProgressBarAndroid
                 styleAttr="Horizontal"
-                indeterminate={progressPercentage === 0}
+                indeterminate={isProgressIndeterminate}
                 progress={progressPercentage / 100}
                 color="#005e46"
               />
-            ) : (
+            ) : !isProgressIndeterminate && (
               <ProgressViewIOS
                 progress={progressPercentage / 100}
                 progressTintColor="#005e46"
               />
             )}
-            <Text style={styles.progressText}>{progressPercentage}%</Text>
+            {!isProgressIndeterminate && (
+              <Text style={styles.progressText}>{progressPercentage}%</Text>
+            )}
           </View>
           
           {transcript && (
@@ -260,11 +489,18 @@ const TranscriptScreen = () => {
         <View style={styles.centeredContainer}>
           <Text style={styles.errorTitle}>Transcription Error</Text>
           <Text style={styles.errorText}>{transcriptionError}</Text>
+          {retryAt && (
+            <Text style={styles.retryHint}>
+              {isWaitingForNetwork
+                ? 'Will try again once you are back online.'
+                : `Trying again automatically at ${new Date(retryAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}.`}
+            </Text>
+          )}
           <TouchableOpacity 
             style={styles.retryButton}
-            onPress={() => recording && startTranscription(recording.audioUri)}
+            onPress={() => recording && transcribeRecording(recording, true)}
           >
-            <Text style={styles.retryButtonText}>Retry</Text>
+            <Text style={styles.retryButtonText}>{retryAt ? 'Retry Now' : 'Retry'}</Text>
           </TouchableOpacity>
         </View>
       </SafeAreaView>
@@ -283,17 +519,108 @@ const TranscriptScreen = () => {
             <Text style={styles.backButton}>← Back</Text>
           </TouchableOpacity>
           
-          <TouchableOpacity 
-            style={styles.editButton} 
-            onPress={handleEditToggle}
-          >
-            <Text style={styles.editButtonText}>
-              {isEditing ? 'Save' : 'Edit'}
-            </Text>
-          </TouchableOpacity>
+          <View style={styles.headerButtons}>
+            {!isEditing && recording && recording.transcript && (
+              <TouchableOpacity 
+                style={[styles.editButton, styles.historyButton]} 
+                onPress={() => navigation.navigate('TranscriptHistory', { recordingId: recording.id })}
+              >
+                <Text style={styles.editButtonText}>History</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity 
+              style={styles.editButton} 
+              onPress={handleEditToggle}
+            >
+              <Text style={styles.editButtonText}>
+                {isEditing ? 'Save' : 'Edit'}
+              </Text>
+            </TouchableOpacity>
+          </View>
         </View>
         
         <ScrollView style={styles.content}>
+          {recording && (
+            <View style={styles.playerCard}>
+              <View style={styles.playerContainer}>
+                <TouchableOpacity
+                  style={[styles.playButton, isPlaying ? styles.playButtonActive : null]}
+                  onPress={handlePlayRecording}
+                >
+                  <Text style={[styles.playButtonText, isPlaying ? styles.playButtonTextActive : null]}>
+                    {isPlaying ? 'Pause' : 'Play'}
+                  </Text>
+                </TouchableOpacity>
+                
+                {recording.waveform && recording.waveform.length > 0 && (
+                  <View style={styles.waveformContainer}>
+                    <Waveform
+                      samples={recording.waveform}
+                      progress={playbackDuration ? playbackPosition / playbackDuration : 0}
+                      height={36}
+                      markers={(recording.bookmarks || []).map(bookmark => bookmark.time / recording.duration)}
+                      onSeek={(position) => playFrom(position * recording.duration)}
+                    />
+                  </View>
+                )}
+              </View>
+              
+              {recording.bookmarks && recording.bookmarks.length > 0 && (
+                <View style={styles.bookmarksRow}>
+                  {recording.bookmarks.map(bookmark => (
+                    <TouchableOpacity
+                      key={bookmark.id}
+                      style={styles.bookmarkChip}
+                      onPress={() => playFrom(bookmark.time)}
+                    >
+                      <Text style={styles.bookmarkChipText}>★ {formatTimestamp(bookmark.time)}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </View>
+          )}
+          
+          {recording && (
+            <TouchableOpacity style={styles.languageRow} onPress={() => setPickingLanguage(true)}>
+              <Text style={styles.languageText}>
+                Language: {recording.language ? getLanguageName(recording.language) : 'Default from Settings'}
+                {recording.detectedLanguage && (!recording.language || recording.language === 'auto')
+                  ? ` · ${getLanguageName(recording.detectedLanguage)} detected`
+                  : ''}
+              </Text>
+              <Text style={styles.languageChange}>Change</Text>
+            </TouchableOpacity>
+          )}
+          
+          {recording && templates.length > 1 && (
+            <TouchableOpacity style={styles.languageRow} onPress={() => setPickingTemplate(true)}>
+              <Text style={styles.languageText}>
+                Prompt: {templateName(recording.promptTemplateId) || `Default from Settings (${templateName(defaultTemplateId) || BUILT_IN_TEMPLATE_NAME})`}
+              </Text>
+              <Text style={styles.languageChange}>Change</Text>
+            </TouchableOpacity>
+          )}
+          
+          {recording && !isEditing && transcript ? (
+            <View style={styles.cleanupRow}>
+              {rawTranscript !== undefined ? (
+                <View style={styles.viewToggle}>
+                  <TouchableOpacity onPress={() => setShowRaw(false)}>
+                    <Text style={[styles.viewOption, !showRaw ? styles.viewOptionActive : null]}>Clean</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => setShowRaw(true)}>
+                    <Text style={[styles.viewOption, showRaw ? styles.viewOptionActive : null]}>Raw</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <TouchableOpacity onPress={handleCleanUp} disabled={isCleaning}>
+                  <Text style={styles.languageChange}>{isCleaning ? 'Cleaning up...' : 'Clean Up'}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ) : null}
+          
           <View style={styles.transcriptContainer}>
             {isEditing ? (
               <TextInput
@@ -304,10 +631,23 @@ const TranscriptScreen = () => {
                 autoFocus
                 placeholder="Transcript is empty. Type or try recording again."
               />
+            ) : timedTokens && timedTokens.length > 0 ? (
+              // Tap a word to hear it; the word being played is highlighted
+              <Text style={styles.transcriptText}>
+                {timedTokens.map((token, index) => (
+                  <Text
+                    key={index}
+                    style={index === activeTokenIndex ? styles.activeWord : null}
+                    onPress={token.start !== null ? () => playFrom(token.start as number) : undefined}
+                  >
+                    {token.text}
+                  </Text>
+                ))}
+              </Text>
             ) : (
               <TouchableOpacity onPress={handleEditToggle}>
                 <Text style={styles.transcriptText}>
-                  {transcript || 'No transcript available. Tap to edit manually.'}
+                  {shownTranscript || 'No transcript available. Tap to edit manually.'}
                 </Text>
               </TouchableOpacity>
             )}
@@ -326,9 +666,36 @@ const TranscriptScreen = () => {
                   <Text style={styles.buttonText}>Process with Janaru</Text>
                 )}
               </TouchableOpacity>
+              
+              <TouchableOpacity 
+                style={styles.continueButton} 
+                onPress={handleContinuePress}
+                disabled={isProcessing || !recording}
+              >
+                <Text style={styles.continueButtonText}>Continue this vent</Text>
+              </TouchableOpacity>
             </View>
           )}
         </ScrollView>
+        
+        <LanguagePicker
+          visible={pickingLanguage}
+          title="Language of This Vent"
+          selected={recording?.language}
+          allowAuto
+          onSelect={handleLanguageSelect}
+          onClose={() => setPickingLanguage(false)}
+        />
+        
+        <PromptTemplatePicker
+          visible={pickingTemplate}
+          title="Prompt Template for This Vent"
+          templates={templates}
+          selected={recording?.promptTemplateId}
+          defaultName={templateName(defaultTemplateId) || BUILT_IN_TEMPLATE_NAME}
+          onSelect={handleTemplateSelect}
+          onClose={() => setPickingTemplate(false)}
+        />
       </KeyboardAvoidingView>
     </SafeAreaView>
   );
@@ -351,6 +718,12 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#005e46',
   },
+  headerButtons: {
+    flexDirection: 'row',
+  },
+  historyButton: {
+    marginRight: 8,
+  },
   editButton: {
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -374,6 +747,11 @@ const styles = StyleSheet.create({
     color: '#666666',
     marginBottom: 20,
   },
+  backgroundHint: {
+    fontSize: 14,
+    color: '#666666',
+    textAlign: 'center',
+  },
   progressContainer: {
     width: '80%',
     marginTop: 20,
@@ -418,6 +796,12 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 20,
   },
+  retryHint: {
+    fontSize: 14,
+    color: '#666666',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
   retryButton: {
     backgroundColor: '#005e46',
     paddingVertical: 12,
@@ -433,6 +817,89 @@ const styles = StyleSheet.create({
     flex: 1,
     padding: 16,
   },
+  playerCard: {
+    backgroundColor: '#FFFFFF',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  playerContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  playButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#005e46',
+  },
+  playButtonActive: {
+    backgroundColor: '#005e46',
+  },
+  playButtonText: {
+    fontSize: 14,
+    color: '#005e46',
+  },
+  playButtonTextActive: {
+    color: '#FFFFFF',
+  },
+  bookmarksRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  bookmarkChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#f5f0e7',
+    marginRight: 8,
+    marginTop: 4,
+  },
+  bookmarkChipText: {
+    fontSize: 12,
+    color: '#005e46',
+  },
+  waveformContainer: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  languageRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+    paddingHorizontal: 4,
+  },
+  languageText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666666',
+  },
+  languageChange: {
+    fontSize: 14,
+    color: '#005e46',
+    marginLeft: 12,
+  },
+  cleanupRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginBottom: 8,
+    paddingHorizontal: 4,
+  },
+  viewToggle: {
+    flexDirection: 'row',
+  },
+  viewOption: {
+    fontSize: 14,
+    color: '#666666',
+    marginLeft: 16,
+  },
+  viewOptionActive: {
+    color: '#005e46',
+    fontWeight: 'bold',
+  },
   transcriptContainer: {
     backgroundColor: '#FFFFFF',
     padding: 16,
@@ -445,6 +912,11 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     color: '#333333',
   },
+  activeWord: {
+    backgroundColor: '#f5f0e7',
+    color: '#005e46',
+    fontWeight: 'bold',
+  },
   transcriptInput: {
     fontSize: 16,
     lineHeight: 24,
@@ -464,6 +936,20 @@ const styles = StyleSheet.create({
     width: '80%',
     alignItems: 'center',
   },
+  continueButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#005e46',
+    width: '80%',
+    alignItems: 'center',
+  },
+  continueButtonText: {
+    fontSize: 16,
+    color: '#005e46',
+  },
   buttonText: {
     fontSize: 16,
     color: '#FFFFFF',
@@ -1,5 +1,9 @@
 export { default as HomeScreen } from './HomeScreen';
 export { default as RecordingScreen } from './RecordingScreen';
 export { default as TranscriptScreen } from './TranscriptScreen';
+export { default as TranscriptHistoryScreen } from './TranscriptHistoryScreen';
 export { default as TasksScreen } from './TasksScreen';
-export { default as SettingsScreen } from './SettingsScreen';
\ No newline at end of file
+export { default as TaskChangesScreen } from './TaskChangesScreen';
+export { default as PromptTemplatesScreen } from './PromptTemplatesScreen';
+export { default as SettingsScreen } from './SettingsScreen';
+export { default as SearchScreen } from './SearchScreen';
\ No newline at end of file
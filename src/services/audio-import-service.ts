@@ -0,0 +1,116 @@
+// src/services/audio-import-service.ts
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { logger } from '../config';
+import { generateSecureId } from '../utils/encryption';
+import { readAudioDuration, getFileExtension } from '../utils/audio-file';
+import { canSplitAudio } from '../utils/audio-chunking';
+import { recordingService, RECORDINGS_DIRECTORY } from './recording-service';
+
+// Formats both expo-av and Whisper can handle
+export const SUPPORTED_AUDIO_EXTENSIONS = ['.m4a', '.mp3', '.mp4', '.mpeg', '.mpga', '.wav', '.webm', '.ogg', '.oga', '.flac'];
+
+// Whisper rejects uploads larger than this. WAV, MP3 and M4A files are split
+// into chunks for transcription, so they can be bigger.
+export const MAX_IMPORT_SIZE_BYTES = 25 * 1024 * 1024;
+
+export interface AudioFileToImport {
+  uri: string;
+  name: string;
+  size?: number; // in bytes
+}
+
+class AudioImportService {
+  /**
+   * Let the user pick an audio file and import it as a recording.
+   * Returns the new recording ID, or null if the picker was cancelled.
+   */
+  public async pickAndImportAudio(): Promise<string | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: 'audio/*',
+      copyToCacheDirectory: true,
+      multiple: false,
+    });
+
+    if (result.canceled || !result.assets || result.assets.length === 0) {
+      return null;
+    }
+
+    const asset = result.assets[0];
+    return this.importAudioFile({
+      uri: asset.uri,
+      name: asset.name,
+      size: asset.size,
+    });
+  }
+
+  /**
+   * Check that a file is something we can play and transcribe
+   */
+  public validateAudioFile(file: AudioFileToImport): void {
+    const extension = getFileExtension(file.name, '');
+    if (!SUPPORTED_AUDIO_EXTENSIONS.includes(extension)) {
+      throw new Error(
+        `${extension ? `"${extension}" files are` : 'This file type is'} not supported. ` +
+        `Use one of: ${SUPPORTED_AUDIO_EXTENSIONS.join(', ')}.`
+      );
+    }
+
+    if (file.size !== undefined && file.size > MAX_IMPORT_SIZE_BYTES && !canSplitAudio(file.name)) {
+      const sizeMb = (file.size / (1024 * 1024)).toFixed(1);
+      throw new Error(
+        `This file is ${sizeMb} MB. ${extension} files up to ${MAX_IMPORT_SIZE_BYTES / (1024 * 1024)} MB ` +
+        `can be imported; longer recordings can be imported as M4A, WAV or MP3.`
+      );
+    }
+  }
+
+  /**
+   * Copy an external audio file into app storage and create a recording for it
+   */
+  public async importAudioFile(file: AudioFileToImport): Promise<string> {
+    this.validateAudioFile(file);
+
+    const id = generateSecureId('rec');
+    const directory = `${RECORDINGS_DIRECTORY}${id}/`;
+    const uri = `${directory}imported${getFileExtension(file.name)}`;
+
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    await FileSystem.copyAsync({ from: file.uri, to: uri });
+
+    try {
+      // The picker doesn't always know the size, so check the copy as well
+      const fileInfo = await FileSystem.getInfoAsync(uri);
+      const size = fileInfo.exists ? fileInfo.size : 0;
+      this.validateAudioFile({ ...file, size });
+
+      const duration = await readAudioDuration(uri);
+      if (duration === null) {
+        throw new Error('This audio file could not be read. It may be damaged or in an unsupported encoding.');
+      }
+
+      const title = file.name.replace(/\.[^.]+$/, '').trim() || 'Imported vent';
+      const recordingId = await recordingService.addRecording({
+        id,
+        title,
+        date: new Date().toISOString(),
+        audioUri: uri,
+        transcript: null,
+        duration,
+        processed: false,
+        fileSize: size,
+      });
+
+      logger.info('Audio file imported', { recordingId, duration, size });
+      return recordingId;
+    } catch (error) {
+      // Don't leave a half-imported copy behind
+      await FileSystem.deleteAsync(directory, { idempotent: true });
+      throw error;
+    }
+  }
+}
+
+// Export a singleton instance
+export const audioImportService = new AudioImportService();
+export default audioImportService;
@@ -2,24 +2,163 @@
 import { Audio } from 'expo-av';
 import { useRef, useEffect, useState } from 'react';
 import * as FileSystem from 'expo-file-system';
-import axios from 'axios';
-import { ENV, SecureKeyStorage, SECURE_STORAGE_KEYS } from '../config';
+import {
+  RecordingQualityProfile,
+  getRecordingQualityProfile,
+  buildRecordingOptions
+} from '../config/recording-profiles';
+import { normalizeMetering, downsampleEnvelope } from '../utils/waveform';
+import { TimeRange, detectSilentRanges, LEVEL_SAMPLE_MS } from '../utils/voice-activity';
+import { settingsService, VoiceActivitySettings, DEFAULT_SETTINGS } from './settings-service';
+import { recordingJournalService } from './recording-journal-service';
+import { RecordingSegment, RecordingBookmark, Recording, recordingService } from './recording-service';
+import { jobQueueService, Job, JobProgress } from './job-queue-service';
+import { generateSecureId } from '../utils/encryption';
+import { logger } from '../config';
+
+/**
+ * Errors surfaced by the recorder so screens can render a proper state
+ */
+export type RecorderErrorType = 'permission-denied' | 'no-file' | 'failed';
+
+export interface RecorderError {
+  type: RecorderErrorType;
+  message: string;
+}
+
+/**
+ * Result of a finished recording
+ */
+export interface RecordedAudio {
+  sessionId: string;
+  uri: string; // first segment
+  duration: number; // in seconds
+  size: number; // in bytes
+  waveform: number[]; // normalized 0-1 amplitude envelope
+  segments: RecordingSegment[];
+  silentRanges: TimeRange[];
+  qualityProfile: RecordingQualityProfile;
+  bookmarks: RecordingBookmark[];
+}
+
+// Recordings are written in rolling segments so a crash loses at most one segment
+export const SEGMENT_DURATION_SECONDS = 120;
 
 /**
  * Audio Recording Service - Hook for audio recording functionality
  */
 export function useAudioRecorder() {
-  const [recording, setRecording] = useState(null);
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [duration, setDuration] = useState(0);
-  const [audioUri, setAudioUri] = useState(null);
-  const [audioLevels, setAudioLevels] = useState([]);
+  const [audioUri, setAudioUri] = useState<string | null>(null);
+  const [audioLevels, setAudioLevels] = useState<number[]>([]);
+  const [recorderError, setRecorderError] = useState<RecorderError | null>(null);
+  const [autoStopTriggered, setAutoStopTriggered] = useState(false);
+  const [bookmarks, setBookmarks] = useState<RecordingBookmark[]>([]);
+  
+  const recordingRef = useRef<Audio.Recording | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  const durationTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const levelMonitorRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const envelopeRef = useRef<number[]>([]);
+  const segmentSecondsRef = useRef(0);
+  const rollPromiseRef = useRef<Promise<void> | null>(null); // set while a segment roll is under way
+  const qualityProfileRef = useRef<RecordingQualityProfile>(getRecordingQualityProfile(undefined));
+  const bookmarksRef = useRef<RecordingBookmark[]>([]);
   
-  const durationTimerRef = useRef(null);
-  const levelMonitorRef = useRef(null);
+  // Voice activity detection state
+  const voiceActivityRef = useRef<VoiceActivitySettings>(DEFAULT_SETTINGS.voiceActivity);
+  const silentSamplesRef = useRef(0);
+  
+  // Clear duration and level timers
+  const clearTimers = () => {
+    if (durationTimerRef.current) {
+      clearInterval(durationTimerRef.current);
+      durationTimerRef.current = null;
+    }
+    
+    if (levelMonitorRef.current) {
+      clearInterval(levelMonitorRef.current);
+      levelMonitorRef.current = null;
+    }
+  };
+  
+  // Create, prepare and start a recorder for the next segment
+  const startSegment = async () => {
+    const newRecording = new Audio.Recording();
+    await newRecording.prepareToRecordAsync(buildRecordingOptions(qualityProfileRef.current));
+    await newRecording.startAsync();
+    recordingRef.current = newRecording;
+    segmentSecondsRef.current = 0;
+    
+    // Journal the file being written so it can be found after a crash
+    if (sessionIdRef.current) {
+      await recordingJournalService.setActiveSegment(sessionIdRef.current, newRecording.getURI());
+    }
+  };
+  
+  // Stop the current segment and hand its file to the journal
+  const finishSegment = async () => {
+    const current = recordingRef.current;
+    const sessionId = sessionIdRef.current;
+    if (!current || !sessionId) return;
+    
+    const status = await current.stopAndUnloadAsync();
+    const uri = current.getURI();
+    recordingRef.current = null;
+    
+    if (!uri) return;
+    
+    const fileInfo = await FileSystem.getInfoAsync(uri);
+    if (fileInfo.exists && fileInfo.size > 0) {
+      const seconds = status.durationMillis
+        ? Math.round(status.durationMillis / 1000)
+        : segmentSecondsRef.current;
+      await recordingJournalService.addSegment(sessionId, uri, seconds, downsampleEnvelope(envelopeRef.current));
+    }
+  };
+  
+  // Roll over to a new segment. expo-av allows only one prepared recorder,
+  // so there is a short gap between segments. Stopping waits for the returned promise.
+  const rollSegment = (): Promise<void> => {
+    if (rollPromiseRef.current) return rollPromiseRef.current;
+    
+    rollPromiseRef.current = (async () => {
+      try {
+        await finishSegment();
+        await startSegment();
+      } catch (error) {
+        console.error('Failed to roll over recording segment', error);
+        clearTimers();
+        setIsRecording(false);
+        setRecorderError({
+          type: 'failed',
+          message: 'Recording stopped unexpectedly. What was recorded so far can be recovered from the home screen.',
+        });
+      } finally {
+        rollPromiseRef.current = null;
+      }
+    })();
+    return rollPromiseRef.current;
+  };
+  
+  // Tick the duration timer and roll segments over as they fill up
+  const startDurationTimer = () => {
+    durationTimerRef.current = setInterval(() => {
+      setDuration(prev => prev + 1);
+      segmentSecondsRef.current += 1;
+      
+      if (segmentSecondsRef.current >= SEGMENT_DURATION_SECONDS) {
+        rollSegment();
+      }
+    }, 1000);
+  };
   
   // Start recording function
   const startRecording = async () => {
+    setRecorderError(null);
+    
     try {
       // Request permissions
       console.log('Requesting permissions...');
@@ -27,7 +166,11 @@ export function useAudioRecorder() {
       
       if (!granted) {
         console.error('Audio recording permissions not granted');
-        throw new Error('Microphone permissions required');
+        setRecorderError({
+          type: 'permission-denied',
+          message: 'Janaru needs microphone access to record your vent.',
+        });
+        return false;
       }
       
       // Configure audio mode
@@ -39,156 +182,217 @@ export function useAudioRecorder() {
         playThroughEarpieceAndroid: false,
       });
       
-      // Create and prepare the recording object
-      console.log('Creating recording...');
-      const newRecording = new Audio.Recording();
-      await newRecording.prepareToRecordAsync({
-        android: {
-          extension: '.m4a',
-          outputFormat: Audio.AndroidOutputFormat.MPEG_4,
-          audioEncoder: Audio.AndroidAudioEncoder.AAC,
-          sampleRate: 44100,
-          numberOfChannels: 1,
-          bitRate: 128000,
-        },
-        ios: {
-          extension: '.m4a',
-          outputFormat: Audio.IOSOutputFormat.MPEG4AAC,
-          audioQuality: Audio.IOSAudioQuality.MEDIUM,
-          sampleRate: 44100,
-          numberOfChannels: 1,
-          bitRate: 128000,
-          linearPCMBitDepth: 16,
-          linearPCMIsBigEndian: false,
-          linearPCMIsFloat: false,
-        },
-        web: {
-          mimeType: 'audio/webm',
-          bitsPerSecond: 128000,
-        },
-      });
+      // Pick up the current quality profile and voice activity settings
+      const settings = await settingsService.getSettings();
+      qualityProfileRef.current = getRecordingQualityProfile(settings.recording.qualityProfile);
+      voiceActivityRef.current = settings.voiceActivity;
+      silentSamplesRef.current = 0;
+      setAutoStopTriggered(false);
+      
+      // Open a journal session for the segments
+      const session = await recordingJournalService.startSession(qualityProfileRef.current.id);
+      sessionIdRef.current = session.id;
       
-      // Start the recording
+      // Create the first segment and start recording
       console.log('Starting recording...');
-      await newRecording.startAsync();
-      setRecording(newRecording);
+      await startSegment();
       setIsRecording(true);
+      setIsPaused(false);
       setDuration(0);
+      setAudioUri(null);
       setAudioLevels([]);
+      envelopeRef.current = [];
+      bookmarksRef.current = [];
+      setBookmarks([]);
       
       // Start duration timer
-      durationTimerRef.current = setInterval(() => {
-        setDuration(prev => prev + 1);
-      }, 1000);
+      startDurationTimer();
       
       // Start audio level monitoring (for visualization)
-      if (newRecording.getStatusAsync) {
-        startAudioLevelMonitoring(newRecording);
-      } else {
-        // Fallback to simulated audio levels
-        startSimulatedAudioLevelMonitoring();
-      }
+      startAudioLevelMonitoring();
       
+      return true;
     } catch (error) {
       console.error('Failed to start recording', error);
-      throw error;
+      setRecorderError({
+        type: 'failed',
+        message: error instanceof Error ? error.message : 'Could not start recording',
+      });
+      return false;
     }
   };
   
-  // Function to monitor real audio levels for visualization
-  const startAudioLevelMonitoring = (rec) => {
+  // Monitor metered audio levels for the live view and the saved envelope
+  const startAudioLevelMonitoring = () => {
     levelMonitorRef.current = setInterval(async () => {
+      const rec = recordingRef.current;
+      if (!rec || rollPromiseRef.current) return;
+      
       try {
         const status = await rec.getStatusAsync();
         if (status.isRecording) {
-          // On some devices/platforms, metering is available
-          const level = status.metering ? status.metering * 100 : Math.floor(Math.random() * 80) + 10;
+          // Platforms without metering report no value, which reads as silence
+          const level = normalizeMetering(status.metering);
+          envelopeRef.current.push(level);
           setAudioLevels(prev => [...prev, level].slice(-50)); // Keep last 50 samples
+          trackVoiceActivity(level);
         }
       } catch (error) {
-        console.warn('Error monitoring audio levels, switching to simulation', error);
-        clearInterval(levelMonitorRef.current);
-        startSimulatedAudioLevelMonitoring();
+        console.warn('Error monitoring audio levels', error);
       }
     }, 100); // Sample every 100ms
   };
   
-  // Simulated audio levels for visualization
-  const startSimulatedAudioLevelMonitoring = () => {
-    levelMonitorRef.current = setInterval(() => {
-      // Generate random audio levels between 10 and 90
-      const randomLevel = Math.floor(Math.random() * 80) + 10;
-      setAudioLevels(prev => [...prev, randomLevel].slice(-50)); // Keep last 50 samples
-    }, 100); // Sample every 100ms
+  // Follow pauses in speech for segmenting and auto-stop
+  const trackVoiceActivity = (level: number) => {
+    const voiceActivity = voiceActivityRef.current;
+    if (!voiceActivity.enabled) return;
+    
+    if (level >= voiceActivity.threshold) {
+      silentSamplesRef.current = 0;
+      return;
+    }
+    
+    silentSamplesRef.current += 1;
+    const silentSeconds = (silentSamplesRef.current * LEVEL_SAMPLE_MS) / 1000;
+    
+    // Start a new segment each time the pause runs another minSilenceSeconds.
+    // Rolling only while the user is silent keeps speech out of the gap, and
+    // segments that fall wholly inside the pause are left out of uploads.
+    const samplesPerPauseSegment = Math.max(1, Math.round((voiceActivity.minSilenceSeconds * 1000) / LEVEL_SAMPLE_MS));
+    if (silentSamplesRef.current % samplesPerPauseSegment === 0) {
+      rollSegment();
+    }
+    
+    if (voiceActivity.autoStopSeconds > 0 && silentSeconds >= voiceActivity.autoStopSeconds) {
+      setAutoStopTriggered(true);
+    }
+  };
+  
+  // Mark the current moment as important
+  const addBookmark = async () => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId || !recordingRef.current) return null;
+    
+    // The envelope holds one sample per 100ms of recorded audio, so it
+    // tracks the position more closely than the one-second timer
+    const bookmark: RecordingBookmark = {
+      id: generateSecureId('bookmark'),
+      time: (envelopeRef.current.length * LEVEL_SAMPLE_MS) / 1000,
+    };
+    
+    bookmarksRef.current = [...bookmarksRef.current, bookmark];
+    setBookmarks(bookmarksRef.current);
+    
+    try {
+      await recordingJournalService.setBookmarks(sessionId, bookmarksRef.current);
+    } catch (error) {
+      console.warn('Failed to journal bookmark', error);
+    }
+    
+    return bookmark;
   };
   
   // Stop recording function
-  const stopRecording = async () => {
-    if (!recording) return null;
+  const stopRecording = async (): Promise<RecordedAudio | null> => {
+    // Clear timers, then let a roll in progress bring up its recorder so it can be stopped too
+    clearTimers();
+    await rollPromiseRef.current;
+    
+    const sessionId = sessionIdRef.current;
+    if (!recordingRef.current || !sessionId) return null;
     
     try {
-      // Stop the recording
-      await recording.stopAndUnloadAsync();
-      
-      // Get the recorded URI
-      const uri = recording.getURI();
+      // Stop the last segment and close the session
+      await finishSegment();
       
-      // Clear timers
-      if (durationTimerRef.current) {
-        clearInterval(durationTimerRef.current);
-        durationTimerRef.current = null;
-      }
-      
-      if (levelMonitorRef.current) {
-        clearInterval(levelMonitorRef.current);
-        levelMonitorRef.current = null;
-      }
+      const waveform = downsampleEnvelope(envelopeRef.current);
+      const session = await recordingJournalService.markStopped(sessionId, waveform);
       
-      // Get file info
-      if (uri) {
-        const fileInfo = await FileSystem.getInfoAsync(uri);
-        setAudioUri(uri);
-        
-        // Reset recording state
-        setIsRecording(false);
-        setRecording(null);
-        
-        return {
-          uri,
-          duration,
-          size: fileInfo.size || 0,
-        };
+      // Reset recording state
+      setIsRecording(false);
+      setIsPaused(false);
+      
+      if (session.segments.length === 0) {
+        setRecorderError({
+          type: 'no-file',
+          message: 'Recording failed - no audio file created',
+        });
+        return null;
       }
       
-      throw new Error('Recording failed - no audio file created');
+      const segments = session.segments;
+      setAudioUri(segments[0].uri);
+      
+      const voiceActivity = voiceActivityRef.current;
+      const silentRanges = voiceActivity.enabled
+        ? detectSilentRanges(envelopeRef.current, voiceActivity.threshold, voiceActivity.minSilenceSeconds)
+        : [];
+      
+      return {
+        sessionId,
+        uri: segments[0].uri,
+        duration: segments.reduce((total, segment) => total + segment.duration, 0),
+        size: segments.reduce((total, segment) => total + segment.size, 0),
+        waveform,
+        segments,
+        silentRanges,
+        qualityProfile: qualityProfileRef.current,
+        bookmarks: bookmarksRef.current,
+      };
       
     } catch (error) {
       console.error('Failed to stop recording', error);
+      recordingRef.current = null;
       setIsRecording(false);
-      setRecording(null);
-      throw error;
+      setIsPaused(false);
+      setRecorderError({
+        type: 'failed',
+        message: error instanceof Error ? error.message : 'Could not stop recording',
+      });
+      return null;
     }
   };
   
-  // Pause recording function
-  const pauseRecording = async () => {
-    if (!recording) return;
+  // Stop any active recording and delete the session's audio
+  const discardRecording = async () => {
+    clearTimers();
     
     try {
-      await recording.pauseAsync();
+      await rollPromiseRef.current;
       
-      // Pause duration timer
-      if (durationTimerRef.current) {
-        clearInterval(durationTimerRef.current);
+      if (recordingRef.current) {
+        await recordingRef.current.stopAndUnloadAsync();
+        recordingRef.current = null;
       }
       
-      // Pause audio level monitoring
-      if (levelMonitorRef.current) {
-        clearInterval(levelMonitorRef.current);
+      if (sessionIdRef.current) {
+        await recordingJournalService.discardSession(sessionIdRef.current);
+        sessionIdRef.current = null;
       }
+    } catch (error) {
+      console.error('Failed to discard recording', error);
+    }
+    
+    setIsRecording(false);
+    setIsPaused(false);
+    setAudioUri(null);
+  };
+  
+  // Pause recording function
+  const pauseRecording = async () => {
+    await rollPromiseRef.current;
+    if (!recordingRef.current) return;
+    
+    try {
+      await recordingRef.current.pauseAsync();
+      
+      // Pause duration timer and audio level monitoring
+      clearTimers();
       
       // Update state
       setIsRecording(false);
+      setIsPaused(true);
       
     } catch (error) {
       console.error('Failed to pause recording', error);
@@ -198,25 +402,18 @@ export function useAudioRecorder() {
   
   // Resume recording function
   const resumeRecording = async () => {
-    if (!recording) return;
+    if (!recordingRef.current) return;
     
     try {
-      await recording.startAsync();
-      
-      // Resume duration timer
-      durationTimerRef.current = setInterval(() => {
-        setDuration(prev => prev + 1);
-      }, 1000);
+      await recordingRef.current.startAsync();
       
-      // Resume audio level monitoring
-      if (recording.getStatusAsync) {
-        startAudioLevelMonitoring(recording);
-      } else {
-        startSimulatedAudioLevelMonitoring();
-      }
+      // Resume duration timer and audio level monitoring
+      startDurationTimer();
+      startAudioLevelMonitoring();
       
       // Update state
       setIsRecording(true);
+      setIsPaused(false);
       
     } catch (error) {
       console.error('Failed to resume recording', error);
@@ -224,149 +421,93 @@ export function useAudioRecorder() {
     }
   };
   
-  // Clean up on component unmount
+  // Clean up on component unmount. The session is left in the journal so
+  // an unsaved recording can still be recovered on the next launch.
   useEffect(() => {
-    return () => {
-      if (durationTimerRef.current) {
-        clearInterval(durationTimerRef.current);
+    const unloadRecording = () => {
+      if (recordingRef.current) {
+        recordingRef.current.stopAndUnloadAsync().catch(error => {
+          console.warn('Failed to unload recording on unmount', error);
+        });
+        recordingRef.current = null;
       }
-      if (levelMonitorRef.current) {
-        clearInterval(levelMonitorRef.current);
-      }
-      if (recording) {
-        recording.stopAndUnloadAsync();
+    };
+    
+    return () => {
+      clearTimers();
+      // A roll in progress starts another recorder, which has to be unloaded as well
+      if (rollPromiseRef.current) {
+        rollPromiseRef.current.then(unloadRecording);
+      } else {
+        unloadRecording();
       }
     };
-  }, [recording]);
+  }, []);
   
   return {
     isRecording,
+    isPaused,
     duration,
     audioUri,
     audioLevels,
+    recorderError,
+    autoStopTriggered,
+    bookmarks,
     startRecording,
     stopRecording,
+    addBookmark,
+    discardRecording,
     pauseRecording,
     resumeRecording,
   };
 }
 
 /**
- * Speech-to-Text Service - Hook for transcription functionality
+ * Speech-to-Text Service - Hook for a recording's transcription. The work runs
+ * in the background job queue, so it carries on after the screen is closed.
  */
-export function useSpeechToText() {
+export function useSpeechToText(recordingId?: string) {
   const [transcript, setTranscript] = useState('');
-  const [isTranscribing, setIsTranscribing] = useState(false);
-  const [transcriptionError, setTranscriptionError] = useState(null);
-  const [progressPercentage, setProgressPercentage] = useState(0);
-  
-  // Whisper API transcription
-  const transcribeWithWhisperAPI = async (audioUri) => {
-    try {
-      // Get API key from secure storage (using your OpenAI key)
-      const apiKey = await SecureKeyStorage.getKey(SECURE_STORAGE_KEYS.OPENAI_API_KEY);
-      if (!apiKey) {
-        throw new Error('OpenAI API key not found for transcription');
-      }
-      
-      // Create form data with the audio file
-      const formData = new FormData();
-      formData.append('file', {
-        uri: audioUri,
-        name: 'recording.m4a',
-        type: 'audio/m4a',
-      });
-      formData.append('model', 'whisper-1');
-      formData.append('language', 'en');
-      formData.append('response_format', 'json');
-      
-      // Send to Whisper API
-      setProgressPercentage(30);
-      const response = await axios.post(
-        'https://api.openai.com/v1/audio/transcriptions',
-        formData,
-        {
-          headers: {
-            'Content-Type': 'multipart/form-data',
-            'Authorization': `Bearer ${apiKey}`,
-          },
-        }
-      );
-      
-      setProgressPercentage(90);
-      
-      if (response.data && response.data.text) {
-        return response.data.text;
-      } else {
-        throw new Error('Transcription failed - no text returned');
-      }
-      
-    } catch (error) {
-      console.error('Whisper API transcription failed', error);
-      throw error;
-    }
-  };
+  const [job, setJob] = useState<Job | undefined>(undefined);
+  const [progress, setProgress] = useState<JobProgress | undefined>(undefined);
+  const [online, setOnline] = useState(jobQueueService.isOnline());
   
-  // Simulate transcription (for demo/development)
-  const simulateTranscription = async () => {
-    const finalTranscript = "I need to file my taxes by Monday. I should take my dog to the vet on Wednesday. I also need to help my mom get her driver's license this weekend. I'm feeling burnt out from work and should plan a vacation soon. I need to dispose of some yard waste next week. Everything needs to be scheduled after 6 PM because of my work.";
-    
-    // Simulate progressive transcription
-    let partialTranscript = '';
-    const words = finalTranscript.split(' ');
-    
-    // Progress updates
-    const totalSteps = words.length / 3;
-    let currentStep = 0;
+  // Follow the recording's transcription job
+  useEffect(() => {
+    if (!recordingId) return;
     
-    // Show words appearing gradually
-    for (let i = 0; i < words.length; i += 3) {
-      await new Promise(resolve => setTimeout(resolve, 200)); // Delay for realism
-      partialTranscript = words.slice(0, i + 3).join(' ');
-      setTranscript(partialTranscript);
-      
-      // Update progress
-      currentStep++;
-      setProgressPercentage(Math.min(90, (currentStep / totalSteps) * 90));
-    }
+    const update = () => {
+      const current = jobQueueService.getJob('transcribe', recordingId);
+      const currentProgress = current ? jobQueueService.getProgress(current.id) : undefined;
+      
+      // Copy, since the queue updates its jobs in place
+      setJob(current ? { ...current } : undefined);
+      setProgress(currentProgress);
+      setOnline(jobQueueService.isOnline());
+      if (currentProgress) {
+        setTranscript(currentProgress.partialText);
+      }
+    };
     
-    return finalTranscript;
-  };
+    update();
+    return jobQueueService.subscribe(update);
+  }, [recordingId]);
   
-  // Start transcription process
-  const startTranscription = async (audioUri) => {
-    setIsTranscribing(true);
-    setTranscriptionError(null);
-    setProgressPercentage(0);
+  // Queue the recording's untranscribed parts and wait for the updated recording.
+  // Rejects if the job gives up; retryNow skips the wait before a pending retry.
+  const startTranscription = async (retryNow: boolean = false): Promise<Recording | undefined> => {
+    if (!recordingId) {
+      throw new Error('No recording to transcribe');
+    }
     
-    try {
-      console.log('Starting transcription for:', audioUri);
-      
-      let transcriptionText;
-      
-      // Check environment and audio file existence
-      if (ENV.ENVIRONMENT === 'production' && audioUri && !audioUri.startsWith('file:///mock/')) {
-        // Use real Whisper API
-        transcriptionText = await transcribeWithWhisperAPI(audioUri);
-      } else {
-        // Use simulated transcription for development or mock audio
-        console.log('Using simulated transcription');
-        transcriptionText = await simulateTranscription();
-      }
-      
-      // Set the final transcript
-      setTranscript(transcriptionText);
-      setProgressPercentage(100);
-      setIsTranscribing(false);
-      
-      return transcriptionText;
-      
-    } catch (error) {
-      console.error('Transcription failed', error);
-      setTranscriptionError(error.message);
-      setIsTranscribing(false);
-      throw error;
+    const queued = await jobQueueService.enqueue('transcribe', recordingId);
+    if (retryNow && queued.status === 'retrying') {
+      await jobQueueService.retryJob(queued.id);
     }
+    
+    logger.debug('Waiting for transcription job', { jobId: queued.id });
+    await jobQueueService.waitForJob(queued.id);
+    return recordingService.getRecordingById(recordingId);
   };
   
   // Function to edit transcript
@@ -374,11 +515,16 @@ export function useSpeechToText() {
     setTranscript(newText);
   };
   
+  const hasError = !!job && (job.status === 'retrying' || job.status === 'failed');
+  
   return {
     transcript,
-    isTranscribing,
-    transcriptionError,
-    progressPercentage,
+    isTranscribing: !!job && (job.status === 'queued' || job.status === 'running'),
+    isWaitingForNetwork: !!job && !online,
+    transcriptionError: hasError ? job.lastError || 'Transcription failed' : null,
+    retryAt: job && job.status === 'retrying' ? job.nextAttemptAt : null,
+    progressPercentage: progress ? Math.round(progress.fraction * 100) : 0,
+    isProgressIndeterminate: !progress || !!progress.indeterminate,
     startTranscription,
     updateTranscript,
   };
@@ -388,90 +534,86 @@ export function useSpeechToText() {
  * Audio Playback Service - Hook for audio playback functionality
  */
 export function useAudioPlayback() {
-  const [sound, setSound] = useState(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [playbackPosition, setPlaybackPosition] = useState(0);
   const [playbackDuration, setPlaybackDuration] = useState(0);
   
-  const positionTimerRef = useRef(null);
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const positionTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const isMockRef = useRef(false);
   
-  // Load sound from URI
-  const loadSound = async (audioUri) => {
+  // Ordered parts of the loaded recording and where each one starts (in ms)
+  const partsRef = useRef<string[]>([]);
+  const partOffsetsRef = useRef<number[]>([]);
+  const partIndexRef = useRef(0);
+  const advancingRef = useRef(false);
+  
+  // Stop position tracking
+  const clearPositionTimer = () => {
+    if (positionTimerRef.current) {
+      clearInterval(positionTimerRef.current);
+      positionTimerRef.current = null;
+    }
+  };
+  
+  // Unload the current part
+  const unloadCurrentSound = async () => {
+    if (soundRef.current) {
+      const current = soundRef.current;
+      soundRef.current = null;
+      await current.unloadAsync();
+    }
+  };
+  
+  // Load sound from a URI, or the ordered segments of a recording
+  const loadSound = async (audioUris: string | string[]) => {
     try {
+      const uris = Array.isArray(audioUris) ? audioUris : [audioUris];
+      
       // Unload any existing sound
-      if (sound) {
-        await sound.unloadAsync();
-      }
+      clearPositionTimer();
+      setIsPlaying(false);
+      await unloadCurrentSound();
       
       // Check if this is a mock URI
-      if (audioUri.startsWith('file:///mock/')) {
+      if (uris[0].startsWith('file:///mock/')) {
+        isMockRef.current = true;
+        partsRef.current = uris;
+        partOffsetsRef.current = [0];
+        partIndexRef.current = 0;
         setPlaybackDuration(30000); // Mock 30 second duration
         setPlaybackPosition(0);
-        
-        // Create a dummy sound object for mock URIs
-        const dummySound = {
-          async playAsync() {
-            setIsPlaying(true);
-            
-            // Simulate playback position updates
-            positionTimerRef.current = setInterval(() => {
-              setPlaybackPosition((prev) => {
-                const newPos = prev + 100;
-                if (newPos >= 30000) {
-                  clearInterval(positionTimerRef.current);
-                  setIsPlaying(false);
-                  return 0;
-                }
-                return newPos;
-              });
-            }, 100);
-            
-            return { isPlaying: true };
-          },
-          async pauseAsync() {
-            setIsPlaying(false);
-            if (positionTimerRef.current) {
-              clearInterval(positionTimerRef.current);
-            }
-            return { isPlaying: false };
-          },
-          async getStatusAsync() {
-            return {
-              isLoaded: true,
-              positionMillis: playbackPosition,
-              durationMillis: 30000,
-              isPlaying: isPlaying,
-              didJustFinish: playbackPosition >= 30000,
-            };
-          },
-          async unloadAsync() {
-            if (positionTimerRef.current) {
-              clearInterval(positionTimerRef.current);
-            }
-            setPlaybackPosition(0);
-            setIsPlaying(false);
-          },
-        };
-        
-        setSound(dummySound);
         return true;
       }
       
-      // Load the audio file for real URIs
-      const { sound: newSound } = await Audio.Sound.createAsync(
-        { uri: audioUri },
-        { shouldPlay: false }
-      );
+      isMockRef.current = false;
+      
+      // Read each part's duration to build one timeline, keeping the first part loaded
+      const offsets: number[] = [];
+      let totalDuration = 0;
       
-      // Get sound status to retrieve duration
-      const status = await newSound.getStatusAsync();
-      if (status.isLoaded) {
-        setPlaybackDuration(status.durationMillis || 0);
+      for (let i = 0; i < uris.length; i++) {
+        const { sound: partSound } = await Audio.Sound.createAsync(
+          { uri: uris[i] },
+          { shouldPlay: false }
+        );
+        
+        const status = await partSound.getStatusAsync();
+        offsets.push(totalDuration);
+        totalDuration += status.isLoaded ? status.durationMillis || 0 : 0;
+        
+        if (i === 0) {
+          soundRef.current = partSound;
+        } else {
+          await partSound.unloadAsync();
+        }
       }
-      setPlaybackPosition(0);
       
-      // Set as current sound
-      setSound(newSound);
+      partsRef.current = uris;
+      partOffsetsRef.current = offsets;
+      partIndexRef.current = 0;
+      setPlaybackDuration(totalDuration);
+      setPlaybackPosition(0);
       
       return true;
     } catch (error) {
@@ -480,30 +622,106 @@ export function useAudioPlayback() {
     }
   };
   
+  // Load and start the next part of a multi-part recording
+  const advanceToPart = async (index: number) => {
+    advancingRef.current = true;
+    
+    try {
+      await unloadCurrentSound();
+      
+      const { sound: nextSound } = await Audio.Sound.createAsync(
+        { uri: partsRef.current[index] },
+        { shouldPlay: true }
+      );
+      
+      soundRef.current = nextSound;
+      partIndexRef.current = index;
+    } finally {
+      advancingRef.current = false;
+    }
+  };
+  
+  // Finish playback and rewind to the start
+  const finishPlayback = async () => {
+    clearPositionTimer();
+    setIsPlaying(false);
+    setPlaybackPosition(0);
+    
+    // Rewind to the first part so the next play starts over
+    if (!isMockRef.current && partIndexRef.current !== 0) {
+      await unloadCurrentSound();
+      const { sound: firstSound } = await Audio.Sound.createAsync(
+        { uri: partsRef.current[0] },
+        { shouldPlay: false }
+      );
+      soundRef.current = firstSound;
+      partIndexRef.current = 0;
+    } else if (soundRef.current) {
+      await soundRef.current.setPositionAsync(0);
+    }
+  };
+  
+  // Track the position across parts and move on when a part finishes
+  const startPositionTracking = () => {
+    clearPositionTimer();
+    
+    positionTimerRef.current = setInterval(async () => {
+      const current = soundRef.current;
+      if (!current || advancingRef.current) return;
+      
+      const status = await current.getStatusAsync();
+      if (!status.isLoaded) return;
+      
+      const offset = partOffsetsRef.current[partIndexRef.current] || 0;
+      setPlaybackPosition(offset + status.positionMillis);
+      
+      // If this part has finished
+      const partFinished = status.didJustFinish ||
+        (!status.isPlaying && !!status.durationMillis && status.positionMillis >= status.durationMillis);
+      
+      if (partFinished) {
+        if (partIndexRef.current < partsRef.current.length - 1) {
+          await advanceToPart(partIndexRef.current + 1);
+        } else {
+          await finishPlayback();
+        }
+      }
+    }, 100);
+  };
+  
+  // Simulated playback for mock recordings
+  const startMockPlayback = () => {
+    clearPositionTimer();
+    
+    positionTimerRef.current = setInterval(() => {
+      setPlaybackPosition((prev) => {
+        const newPos = prev + 100;
+        if (newPos >= 30000) {
+          clearPositionTimer();
+          setIsPlaying(false);
+          return 0;
+        }
+        return newPos;
+      });
+    }, 100);
+  };
+  
   // Start playback
   const playSound = async () => {
-    if (!sound) return;
+    if (isMockRef.current) {
+      setIsPlaying(true);
+      startMockPlayback();
+      return;
+    }
+    
+    if (!soundRef.current) return;
     
     try {
-      await sound.playAsync();
+      await soundRef.current.playAsync();
       setIsPlaying(true);
       
       // Start position tracking for real sounds
-      positionTimerRef.current = setInterval(async () => {
-        if (sound) {
-          const status = await sound.getStatusAsync();
-          if (status.isLoaded) {
-            setPlaybackPosition(status.positionMillis);
-            
-            // If playback has finished
-            if (status.didJustFinish) {
-              clearInterval(positionTimerRef.current);
-              setIsPlaying(false);
-              setPlaybackPosition(0);
-            }
-          }
-        }
-      }, 100);
+      startPositionTracking();
       
     } catch (error) {
       console.error('Failed to play sound', error);
@@ -512,33 +730,72 @@ export function useAudioPlayback() {
   
   // Pause playback
   const pauseSound = async () => {
-    if (!sound) return;
-    
     try {
-      await sound.pauseAsync();
-      setIsPlaying(false);
-      
       // Stop position tracking
-      if (positionTimerRef.current) {
-        clearInterval(positionTimerRef.current);
+      clearPositionTimer();
+      
+      if (soundRef.current) {
+        await soundRef.current.pauseAsync();
       }
+      setIsPlaying(false);
       
     } catch (error) {
       console.error('Failed to pause sound', error);
     }
   };
   
+  // Jump to a position (in ms) on the recording's timeline, loading the right part
+  const seekTo = async (positionMillis: number) => {
+    if (partsRef.current.length === 0) return false;
+    
+    const target = Math.max(0, Math.min(positionMillis, playbackDuration));
+    
+    if (isMockRef.current) {
+      setPlaybackPosition(target);
+      return true;
+    }
+    
+    // Find the part that contains the target position
+    const offsets = partOffsetsRef.current;
+    let index = 0;
+    while (index < offsets.length - 1 && target >= offsets[index + 1]) {
+      index++;
+    }
+    
+    advancingRef.current = true;
+    
+    try {
+      if (index !== partIndexRef.current || !soundRef.current) {
+        await unloadCurrentSound();
+        const { sound: partSound } = await Audio.Sound.createAsync(
+          { uri: partsRef.current[index] },
+          { shouldPlay: isPlaying }
+        );
+        soundRef.current = partSound;
+        partIndexRef.current = index;
+      }
+      
+      await soundRef.current.setPositionAsync(target - offsets[index]);
+      setPlaybackPosition(target);
+      return true;
+    } catch (error) {
+      console.error('Failed to seek', error);
+      return false;
+    } finally {
+      advancingRef.current = false;
+    }
+  };
+  
   // Clean up on component unmount
   useEffect(() => {
     return () => {
-      if (positionTimerRef.current) {
-        clearInterval(positionTimerRef.current);
-      }
-      if (sound) {
-        sound.unloadAsync();
+      clearPositionTimer();
+      if (soundRef.current) {
+        soundRef.current.unloadAsync();
+        soundRef.current = null;
       }
     };
-  }, [sound]);
+  }, []);
   
   return {
     isPlaying,
@@ -547,5 +804,6 @@ export function useAudioPlayback() {
     loadSound,
     playSound,
     pauseSound,
+    seekTo,
   };
-}
\ No newline at end of file
+}
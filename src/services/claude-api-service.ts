@@ -1,24 +1,60 @@
 // src/services/claude-api-service.ts
 import axios from 'axios';
 import { SecureKeyStorage, SECURE_STORAGE_KEYS, ENV } from '../config';
+import { formatTimestamp } from '../utils/bookmarks';
+import { getLanguageName, DEFAULT_OUTPUT_LANGUAGE } from '../config/languages';
+import { generateSecureId } from '../utils/encryption';
+import {
+  ClaudeApiError,
+  toClaudeApiError,
+  errorForStatus,
+  errorForStreamEvent,
+  networkError,
+  cancelledError
+} from './claude-errors';
+import { describeToday, describeTimeZone, reconcileTaskDate, TaskDateReview } from '../utils/relative-dates';
+import { renderPromptTemplate } from '../utils/prompt-template';
+import { BUILT_IN_PROMPT_TEMPLATE } from '../config/prompt-templates';
+import { PromptTemplateRef } from './prompt-template-service';
+import { TaskPriority, TASK_PRIORITIES } from '../config/priorities';
+import { clampScore, scoresForPriority, sortByPriority } from '../utils/task-priority';
+import {
+  TASK_RESPONSE_SCHEMA,
+  ExtractedTask,
+  ExtractedTasks,
+  validateTaskResponse,
+  validateExtractedTask,
+  formatSchemaErrors
+} from '../utils/task-schema';
+import { parseServerSentEvents } from '../utils/sse';
+import { JsonArrayItemReader } from '../utils/json-stream';
 
 // Types
 export interface ClaudeRequestOptions {
   model?: string;
   maxTokens?: number;
   temperature?: number;
-  customPrompt?: boolean;
+  promptTemplate?: string; // template to build the extraction prompt from, instead of the built-in one
+  outputLanguage?: string; // ISO 639-1 code to write task titles in
+  vocabulary?: string[]; // names and words from the user's vocabulary, correctly spelled
+}
+
+// A moment the speaker marked as important, with what they were saying
+export interface TranscriptHighlight {
+  time: number; // in seconds
+  excerpt: string;
 }
 
 export interface TaskResponse {
-  highPriorityTasks: Task[];
-  mediumPriorityTasks: Task[];
+  tasks: Task[]; // most pressing first
 }
 
 export interface Task {
   id: string;
   title: string;
-  priority: 'high' | 'medium';
+  priority: TaskPriority;
+  urgency: number; // from 1 to 5
+  importance: number; // from 1 to 5
   date: string | null;
   time: string | null;
   duration: number; // in minutes
@@ -26,6 +62,8 @@ export interface Task {
   recordingId: string;
   subTasks?: SubTask[];
   calendarEventId?: string;
+  dateReview?: TaskDateReview; // set when the date may be wrong and the user should check it
+  promptTemplate?: PromptTemplateRef; // the prompt template version the task was extracted with
 }
 
 interface SubTask {
@@ -34,19 +72,82 @@ interface SubTask {
   completed: boolean;
 }
 
+// Ways to follow task extraction while Claude is still replying, and to stop it
+export interface TaskStreamOptions {
+  onTask?: (task: Task) => void; // called with each task as soon as Claude has finished writing it
+  onRestart?: () => void; // the tasks so far are thrown away and extracted again, e.g. after a repair
+  signal?: AbortSignal; // aborting it cancels the request
+}
+
+// Extracted tasks as they arrive, before they are given IDs
+interface ExtractionStream {
+  onTask: (task: ExtractedTask) => void;
+  onRestart?: () => void;
+  signal?: AbortSignal;
+}
+
+// Blocks of Claude's replies: text, or the input Claude gave a tool
+interface ClaudeTextBlock {
+  type: 'text';
+  text: string;
+}
+
+interface ClaudeToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: unknown;
+}
+
+type ClaudeContentBlock = ClaudeTextBlock | ClaudeToolUseBlock;
+
+// Whether a block of a reply is one the app reads, with the fields it needs
+function isContentBlock(value: unknown): value is ClaudeContentBlock {
+  if (typeof value !== 'object' || value === null) return false;
+  const block = value as Record<string, unknown>;
+  return (block.type === 'text' && typeof block.text === 'string') ||
+    (block.type === 'tool_use' && typeof block.id === 'string' && typeof block.name === 'string');
+}
+
+// The data of a streamed reply's events, as far as the app reads them
+interface StreamEventData {
+  index?: number; // the content block the event is about
+  content_block?: unknown;
+  delta?: { type?: string; text?: unknown; partial_json?: unknown };
+  error?: { type?: string; message?: string };
+}
+
+// A turn of a conversation with Claude; content is text or a list of content blocks
+interface ClaudeMessage {
+  role: 'user' | 'assistant';
+  content: string | unknown[];
+}
+
+// Tool Claude fills in with the extracted tasks, so its reply always has their shape
+const TASK_TOOL_NAME = 'save_tasks';
+
+// Times Claude is asked to fix a reply that doesn't match the schema
+const MAX_REPAIR_ATTEMPTS = 1;
+
 class ClaudeApiService {
-  private readonly defaultPromptTemplate = `
-I need you to extract actionable tasks from the following transcript and organize them by priority. For each task:
-1. Create a clear, concise title
-2. Identify a suggested timeframe (specific date if mentioned, or general timing)
-3. Estimate duration if implied
-4. Organize into High Priority (This Week) or Medium Priority (Next 1-2 Weeks)
-5. Break complex tasks into sub-tasks if needed
-
-Here's the transcript:
-{transcript}
+  private readonly preferencesPromptTemplate = `
+Write titles in {outputLanguage}, whatever language the transcript is in.
+{vocabulary}`;
+
+  private readonly highlightsPromptTemplate = `
+The speaker marked these moments as important while talking. Weigh tasks discussed around them higher: make them high priority or above unless they clearly can wait, and list them first.
+{moments}
+`;
+
+  private readonly vocabularyPromptTemplate = `
+These are names and words the speaker uses often. The transcript may misspell them; always spell them exactly like this in titles:
+{terms}
 `;
 
+  private readonly translationSystemPrompt = "You translate voice memo transcripts into English. Keep the speaker's meaning, names, dates and times exactly. Reply with the translation only. If the transcript is already in English, reply with it unchanged.";
+
+  private readonly cleanupSystemPrompt = "You tidy up voice memo transcripts. Remove stutters, repeated words, filler words and false starts, and fix punctuation and sentence boundaries. Do not reword, summarize, translate or add anything: keep every fact, name, date and time. Keep paragraph breaks. Reply with the cleaned transcript only.";
+
   /**
    * Set the Claude API key securely
    */
@@ -78,100 +179,462 @@ Here's the transcript:
   private async getApiKey(): Promise<string> {
     const apiKey = await SecureKeyStorage.getKey(SECURE_STORAGE_KEYS.CLAUDE_API_KEY);
     if (!apiKey) {
-      throw new Error('Claude API key not found');
+      throw new ClaudeApiError('auth', 'No Claude API key is saved. Add one in Settings.');
     }
     return apiKey;
   }
 
   /**
-   * Process a transcript with Claude to extract tasks
+   * Send a conversation to Claude and return its reply's content blocks.
+   * Failures are thrown as a ClaudeApiError.
    */
-  public async processTranscript(transcript: string, recordingId: string, options?: ClaudeRequestOptions): Promise<TaskResponse> {
-    try {
-      // Mock response for development/testing
-      if (ENV.ENVIRONMENT !== 'production') {
-        return this.mockProcessTranscript(transcript, recordingId);
+  private async sendMessages(
+    system: string,
+    messages: ClaudeMessage[],
+    options?: ClaudeRequestOptions,
+    extra: Record<string, unknown> = {}
+  ): Promise<ClaudeContentBlock[]> {
+    const apiKey = await this.getApiKey();
+
+    const response = await axios.post(
+      ENV.CLAUDE_API_URL,
+      {
+        model: options?.model || ENV.CLAUDE_API_MODEL,
+        max_tokens: options?.maxTokens || 2000,
+        temperature: options?.temperature ?? 0.5,
+        messages,
+        system,
+        ...extra
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01'
+        }
       }
+    ).catch(error => {
+      throw toClaudeApiError(error);
+    });
 
-      // Get API key
-      const apiKey = await this.getApiKey();
-      
-      // Prepare prompt
-      const prompt = this.defaultPromptTemplate.replace('{transcript}', transcript);
-      
-      // Configure request
-      const response = await axios.post(
-        ENV.CLAUDE_API_URL,
-        {
-          model: options?.model || ENV.CLAUDE_API_MODEL,
-          max_tokens: options?.maxTokens || 2000,
-          temperature: options?.temperature || 0.5,
-          messages: [
-            { role: 'user', content: prompt }
-          ],
-          system: "You are a personal assistant who extracts actionable tasks from a user's voice memo. Extract clear tasks with priorities, dates, times, and durations. Format your response as a JSON object with highPriorityTasks and mediumPriorityTasks arrays."
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': apiKey,
-            'anthropic-version': '2023-06-01'
+    if (!Array.isArray(response.data?.content)) {
+      throw new ClaudeApiError('invalid-response', 'Claude sent a reply with no content');
+    }
+    return response.data.content.filter(isContentBlock);
+  }
+
+  /**
+   * Send a conversation to Claude with a streamed reply, passing on the
+   * pieces of tool input as they arrive, and return the reply's content
+   * blocks once it is complete. XMLHttpRequest is used because React Native's
+   * fetch can't read a response as it streams in.
+   */
+  private async streamMessages(
+    system: string,
+    messages: ClaudeMessage[],
+    options: ClaudeRequestOptions | undefined,
+    extra: Record<string, unknown>,
+    onToolInput: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<ClaudeContentBlock[]> {
+    const apiKey = await this.getApiKey();
+    if (signal?.aborted) {
+      throw cancelledError();
+    }
+
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      const blocks: ClaudeContentBlock[] = [];
+      const toolInputs = new Map<number, string>();
+      let received = 0;
+      let pending = '';
+      let streamError: ClaudeApiError | null = null;
+      let settled = false;
+
+      const finish = (error: ClaudeApiError | null) => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener('abort', abort);
+        error ? reject(error) : resolve(blocks.filter(isContentBlock));
+      };
+      const abort = () => xhr.abort();
+
+      const handleEvent = (event: string, data: StreamEventData) => {
+        if (event === 'error') {
+          streamError = errorForStreamEvent(data.error?.type, data.error?.message);
+          return;
+        }
+        if (typeof data.index !== 'number') return;
+
+        const index = data.index;
+        const block: ClaudeContentBlock | undefined = blocks[index];
+        switch (event) {
+          case 'content_block_start':
+            // Other kinds of block are left out of the reply
+            if (isContentBlock(data.content_block)) {
+              blocks[index] = { ...data.content_block };
+              if (data.content_block.type === 'tool_use') {
+                toolInputs.set(index, '');
+              }
+            }
+            break;
+          case 'content_block_delta':
+            if (data.delta?.type === 'text_delta' && block?.type === 'text' && typeof data.delta.text === 'string') {
+              block.text += data.delta.text;
+            } else if (
+              data.delta?.type === 'input_json_delta' &&
+              toolInputs.has(index) &&
+              typeof data.delta.partial_json === 'string'
+            ) {
+              toolInputs.set(index, toolInputs.get(index) + data.delta.partial_json);
+              onToolInput(data.delta.partial_json);
+            }
+            break;
+          case 'content_block_stop':
+            if (block?.type === 'tool_use') {
+              try {
+                block.input = JSON.parse(toolInputs.get(index) || '{}');
+              } catch (error) {
+                block.input = null; // fails validation, so Claude is asked to fix it
+              }
+            }
+            break;
+        }
+      };
+
+      // Read whatever has arrived since last time
+      const read = () => {
+        const text = xhr.responseText || '';
+        const { events, rest } = parseServerSentEvents(pending + text.slice(received));
+        received = text.length;
+        pending = rest;
+
+        for (const { event, data } of events) {
+          try {
+            const parsed: unknown = JSON.parse(data);
+            if (typeof parsed === 'object' && parsed !== null) {
+              handleEvent(event, parsed as StreamEventData);
+            }
+          } catch (error) {
+            console.warn('Skipping unreadable event from Claude', { event });
           }
         }
+      };
+
+      xhr.open('POST', ENV.CLAUDE_API_URL);
+      xhr.setRequestHeader('Content-Type', 'application/json');
+      xhr.setRequestHeader('x-api-key', apiKey);
+      xhr.setRequestHeader('anthropic-version', '2023-06-01');
+
+      xhr.onprogress = () => {
+        if (xhr.status === 200) read();
+      };
+      xhr.onload = () => {
+        if (xhr.status !== 200) {
+          let apiMessage: string | undefined;
+          try {
+            apiMessage = JSON.parse(xhr.responseText)?.error?.message;
+          } catch (error) {
+            // Not JSON; the status says enough
+          }
+          finish(errorForStatus(xhr.status, apiMessage, xhr.getResponseHeader('retry-after')));
+          return;
+        }
+
+        read();
+        if (!streamError && blocks.length === 0) {
+          streamError = new ClaudeApiError('invalid-response', 'Claude sent a reply with no content');
+        }
+        finish(streamError);
+      };
+      xhr.onerror = () => finish(networkError());
+      xhr.onabort = () => finish(cancelledError());
+
+      signal?.addEventListener('abort', abort);
+      xhr.send(JSON.stringify({
+        model: options?.model || ENV.CLAUDE_API_MODEL,
+        max_tokens: options?.maxTokens || 2000,
+        temperature: options?.temperature ?? 0.5,
+        messages,
+        system,
+        stream: true,
+        ...extra
+      }));
+    });
+  }
+
+  /**
+   * Send one message to Claude and return the text of its reply
+   */
+  private async createMessage(system: string, prompt: string, options?: ClaudeRequestOptions): Promise<string> {
+    const content = await this.sendMessages(system, [{ role: 'user', content: prompt }], options);
+    const textBlock = content.find((block): block is ClaudeTextBlock => block.type === 'text');
+    return textBlock ? textBlock.text : '';
+  }
+
+  /**
+   * Have Claude extract tasks through the save_tasks tool and check them
+   * against the schema. A reply with invalid fields is sent back once with
+   * the list of errors for Claude to fix. When streaming, each task is passed
+   * on as soon as it is complete.
+   */
+  private async extractTasks(
+    system: string,
+    prompt: string,
+    options?: ClaudeRequestOptions,
+    stream?: ExtractionStream
+  ): Promise<ExtractedTasks> {
+    const messages: ClaudeMessage[] = [{ role: 'user', content: prompt }];
+    const tool = {
+      name: TASK_TOOL_NAME,
+      description: 'Save the tasks extracted from the transcript, sorted by priority.',
+      input_schema: TASK_RESPONSE_SCHEMA,
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      const extra = {
+        tools: [tool],
+        tool_choice: { type: 'tool', name: TASK_TOOL_NAME },
+      };
+
+      let content: ClaudeContentBlock[];
+      if (stream) {
+        if (attempt > 0) stream.onRestart?.();
+
+        const reader = new JsonArrayItemReader();
+        content = await this.streamMessages(system, messages, options, extra, chunk => {
+          for (const item of reader.feed(chunk)) {
+            const task = item.key === 'tasks' ? validateExtractedTask(item.value) : null;
+            if (task) stream.onTask(task);
+          }
+        }, stream.signal);
+      } else {
+        content = await this.sendMessages(system, messages, options, extra);
+      }
+
+      const toolUse = content.find((block): block is ClaudeToolUseBlock =>
+        block.type === 'tool_use' && block.name === TASK_TOOL_NAME
       );
+      const result = toolUse
+        ? validateTaskResponse(toolUse.input)
+        : { valid: false as const, errors: [{ path: '', message: `must be given through the ${TASK_TOOL_NAME} tool` }] };
 
-      // Parse the Claude response
-      const responseText = response.data.content[0].text;
-      
-      // Extract JSON from the response (Claude may add extra text)
-      const jsonMatch = responseText.match(/```json\n([\s\S]*?)\n```/) || 
-                        responseText.match(/{[\s\S]*}/);
-                        
-      if (!jsonMatch) {
-        throw new Error('Failed to extract JSON from Claude response');
+      if (result.valid) {
+        return result.value;
       }
 
-      const jsonContent = jsonMatch[1] || jsonMatch[0];
-      const parsedResult: TaskResponse = JSON.parse(jsonContent);
+      const problems = formatSchemaErrors(result.errors);
+      console.warn('Claude returned tasks that do not match the schema', { attempt, problems });
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
+        throw new ClaudeApiError(
+          'invalid-response',
+          "Claude's tasks had fields that couldn't be used, even after a second try.",
+          undefined,
+          result.errors.map(error => `${error.path || 'response'}: ${error.message}`)
+        );
+      }
 
-      // Add recordingId to all tasks
-      parsedResult.highPriorityTasks.forEach(task => {
-        task.recordingId = recordingId;
-        task.completed = false;
+      // Show Claude what was wrong and ask for the whole result again
+      const repairRequest = `Those tasks don't match the schema:\n${problems}\nCall ${TASK_TOOL_NAME} again with all of the tasks, fixing these fields.`;
+      messages.push({ role: 'assistant', content });
+      messages.push({
+        role: 'user',
+        content: toolUse
+          ? [{ type: 'tool_result', tool_use_id: toolUse.id, is_error: true, content: repairRequest }]
+          : repairRequest,
       });
+    }
+  }
 
-      parsedResult.mediumPriorityTasks.forEach(task => {
-        task.recordingId = recordingId;
-        task.completed = false;
-      });
+  // Give extracted tasks their IDs and the recording they came from, score the
+  // ones Claude didn't, and check their dates against what the date phrases mean
+  private toTasks(tasks: ExtractedTask[], recordingId: string, now: Date): Task[] {
+    return tasks.map(task => {
+      const { date, time, dateReview } = reconcileTaskDate(task, now);
+      const scores = scoresForPriority(task.priority);
+      return {
+        id: generateSecureId('task'),
+        title: task.title,
+        priority: task.priority,
+        urgency: clampScore(task.urgency, scores.urgency),
+        importance: clampScore(task.importance, scores.importance),
+        date,
+        time,
+        duration: task.duration,
+        completed: false,
+        recordingId,
+        subTasks: task.subTasks?.map(subTask => ({
+          id: generateSecureId('subtask'),
+          title: subTask.title,
+          completed: false,
+        })),
+        ...(dateReview ? { dateReview } : {}),
+      };
+    });
+  }
+
+  /**
+   * Translate a transcript into English, so tasks are extracted from English text
+   */
+  public async translateTranscript(transcript: string, sourceLanguage?: string): Promise<string> {
+    // The mock extractor can't translate, so development keeps the original text
+    if (ENV.ENVIRONMENT !== 'production') {
+      return transcript;
+    }
+
+    const from = sourceLanguage ? ` from ${getLanguageName(sourceLanguage)}` : '';
+    const translation = await this.createMessage(
+      this.translationSystemPrompt,
+      `Translate this transcript${from} into English:\n\n${transcript}`,
+      { temperature: 0, maxTokens: 4000 }
+    );
+
+    if (!translation.trim()) {
+      throw new ClaudeApiError('invalid-response', 'Translation failed - no text returned');
+    }
+    return translation.trim();
+  }
+
+  /**
+   * Have Claude tidy up a transcript's sentences, without changing what was said
+   */
+  public async cleanTranscript(transcript: string, language?: string): Promise<string> {
+    // The mock extractor can't rewrite text, so development keeps the local cleanup only
+    if (ENV.ENVIRONMENT !== 'production') {
+      return transcript;
+    }
+
+    const spoken = language ? ` It is in ${getLanguageName(language)}; keep it in that language.` : '';
+    const cleaned = await this.createMessage(
+      this.cleanupSystemPrompt,
+      `Clean up this transcript.${spoken}\n\n${transcript}`,
+      { temperature: 0, maxTokens: 4000 }
+    );
+
+    if (!cleaned.trim()) {
+      throw new ClaudeApiError('invalid-response', 'Cleanup failed - no text returned');
+    }
+    return cleaned.trim();
+  }
+
+  /**
+   * Process a transcript with Claude to extract tasks. With stream options,
+   * the reply is streamed and each task is handed over as it arrives.
+   */
+  public async processTranscript(
+    transcript: string,
+    recordingId: string,
+    highlights: TranscriptHighlight[] = [],
+    options?: ClaudeRequestOptions,
+    stream?: TaskStreamOptions
+  ): Promise<TaskResponse> {
+    try {
+      if (stream?.signal?.aborted) {
+        throw cancelledError();
+      }
+
+      // Mock response for development/testing
+      if (ENV.ENVIRONMENT !== 'production') {
+        return await this.mockProcessTranscript(transcript, recordingId, highlights, stream);
+      }
+
+      // Prepare prompt
+      const now = new Date();
+      const prompt = this.buildExtractionPrompt(transcript, highlights, options, now);
+      
+      const extracted = await this.extractTasks(
+        `You are a personal assistant who extracts actionable tasks from a user's voice memo. Extract clear tasks with priorities, dates, times, and durations, and save them with the ${TASK_TOOL_NAME} tool.`,
+        prompt,
+        options,
+        stream && {
+          onTask: task => stream.onTask?.(this.toTasks([task], recordingId, now)[0]),
+          onRestart: stream.onRestart,
+          signal: stream.signal,
+        }
+      );
 
-      return parsedResult;
+      return {
+        tasks: sortByPriority(this.toTasks(extracted.tasks, recordingId, now)),
+      };
 
     } catch (error) {
-      console.error('Claude API request failed', error);
+      const claudeError = toClaudeApiError(error);
+      console.error('Claude API request failed', { kind: claudeError.kind, message: claudeError.message });
       
-      // Fall back to mock implementation if production request fails
-      if (ENV.ENVIRONMENT === 'production') {
-        console.warn('Falling back to mock implementation due to API failure');
+      // Made-up tasks are only acceptable when showing the app off
+      if (ENV.DEMO_MODE && claudeError.kind !== 'cancelled') {
+        console.warn('Demo mode: falling back to mock tasks after the API failure');
+        stream?.onRestart?.();
+        return this.mockProcessTranscript(transcript, recordingId, highlights, stream);
       }
       
-      return this.mockProcessTranscript(transcript, recordingId);
+      throw claudeError;
+    }
+  }
+
+  /**
+   * Fill in the extraction prompt template for a transcript. Also used to
+   * preview templates in Settings.
+   */
+  public buildExtractionPrompt(
+    transcript: string,
+    highlights: TranscriptHighlight[] = [],
+    options?: ClaudeRequestOptions,
+    now: Date = new Date()
+  ): string {
+    const preferences = this.preferencesPromptTemplate
+      .replace('{outputLanguage}', getLanguageName(options?.outputLanguage || DEFAULT_OUTPUT_LANGUAGE))
+      .replace('{vocabulary}', this.buildVocabularySection(options?.vocabulary || []));
+
+    return renderPromptTemplate(options?.promptTemplate || BUILT_IN_PROMPT_TEMPLATE, {
+      transcript,
+      today: describeToday(now),
+      timezone: describeTimeZone(now),
+      preferences,
+      highlights: this.buildHighlightsSection(highlights),
+    });
+  }
+
+  /**
+   * List the user's vocabulary for the prompt, or nothing if it is empty
+   */
+  private buildVocabularySection(vocabulary: string[]): string {
+    if (vocabulary.length === 0) {
+      return '';
     }
+    
+    return this.vocabularyPromptTemplate.replace('{terms}', vocabulary.join(', '));
+  }
+
+  /**
+   * Describe the marked moments for the prompt, or nothing if there are none
+   */
+  private buildHighlightsSection(highlights: TranscriptHighlight[]): string {
+    if (highlights.length === 0) {
+      return '';
+    }
+    
+    const moments = highlights
+      .map(highlight => `- At ${formatTimestamp(highlight.time)}: "${highlight.excerpt}"`)
+      .join('\n');
+    
+    return this.highlightsPromptTemplate.replace('{moments}', moments);
   }
 
   /**
    * Mock implementation for testing without actual API calls
    */
-  public async mockProcessTranscript(transcript: string, recordingId: string): Promise<TaskResponse> {
+  public async mockProcessTranscript(
+    transcript: string,
+    recordingId: string,
+    highlights: TranscriptHighlight[] = [],
+    stream?: TaskStreamOptions
+  ): Promise<TaskResponse> {
     // Simulate API processing delay
     await new Promise(resolve => setTimeout(resolve, 1500));
     
-    // Generate unique IDs using a more secure method
-    const generateSecureId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
-    
     // Extract tasks from transcript (simplified text analysis)
-    const highPriorityTasks: Task[] = [];
-    const mediumPriorityTasks: Task[] = [];
+    const tasks: Task[] = [];
     
     // Look for keywords in the transcript
     const today = new Date();
@@ -186,10 +649,11 @@ Here's the transcript:
     // Simple text analysis to extract tasks
     // Tax related tasks
     if (transcript.toLowerCase().includes('tax')) {
-      highPriorityTasks.push({
+      tasks.push({
         id: generateSecureId('task'),
         title: 'File your taxes',
-        priority: 'high',
+        priority: 'urgent',
+        ...scoresForPriority('urgent'),
         date: formatDate(today),
         time: '18:00',
         duration: 120, // 2 hours
@@ -201,10 +665,11 @@ Here's the transcript:
     // Vet/doctor related tasks
     if (transcript.toLowerCase().includes('dog') && 
        (transcript.toLowerCase().includes('vet') || transcript.toLowerCase().includes('doctor'))) {
-      highPriorityTasks.push({
+      tasks.push({
         id: generateSecureId('task'),
         title: 'Take your dog to the vet',
         priority: 'high',
+        ...scoresForPriority('high'),
         date: formatDate(new Date(today.setDate(today.getDate() + 2))), // Two days from now
         time: '18:00',
         duration: 60, // 1 hour
@@ -215,10 +680,11 @@ Here's the transcript:
     
     // Driver's license
     if (transcript.toLowerCase().includes('driver') && transcript.toLowerCase().includes('license')) {
-      highPriorityTasks.push({
+      tasks.push({
         id: generateSecureId('task'),
         title: "Help with driver's license",
         priority: 'high',
+        ...scoresForPriority('high'),
         date: formatDate(new Date(today.setDate(today.getDate() + 5))), // Weekend
         time: '10:00',
         duration: 90, // 1.5 hours
@@ -231,10 +697,11 @@ Here's the transcript:
     if (transcript.toLowerCase().includes('yard') || 
         transcript.toLowerCase().includes('waste') || 
         transcript.toLowerCase().includes('dispose')) {
-      mediumPriorityTasks.push({
+      tasks.push({
         id: generateSecureId('task'),
         title: 'Dispose of yard waste',
         priority: 'medium',
+        ...scoresForPriority('medium'),
         date: formatDate(nextWeek),
         time: null,
         duration: 60,
@@ -259,10 +726,11 @@ Here's the transcript:
     if (transcript.toLowerCase().includes('vacation') || 
         transcript.toLowerCase().includes('burnt out') || 
         transcript.toLowerCase().includes('burnout')) {
-      mediumPriorityTasks.push({
+      tasks.push({
         id: generateSecureId('task'),
         title: 'Plan vacation for burnout recovery',
         priority: 'medium',
+        ...scoresForPriority('medium'),
         date: formatDate(new Date(nextWeek.setDate(nextWeek.getDate() + 7))),
         time: null,
         duration: 120,
@@ -283,12 +751,42 @@ Here's the transcript:
       });
     }
     
+    // Garage, shed and other someday projects
+    if (transcript.toLowerCase().includes('garage') || transcript.toLowerCase().includes('someday')) {
+      tasks.push({
+        id: generateSecureId('task'),
+        title: 'Sort out the garage',
+        priority: 'someday',
+        ...scoresForPriority('someday'),
+        date: null,
+        time: null,
+        duration: 180,
+        completed: false,
+        recordingId
+      });
+    }
+    
+    // Move tasks talked about around a marked moment up to high priority, ahead of the rest
+    const highlightText = highlights.map(highlight => highlight.excerpt.toLowerCase()).join(' ');
+    const isHighlighted = (task: Task) => task.title
+      .toLowerCase()
+      .split(/\W+/)
+      .some(word => word.length > 3 && highlightText.includes(word));
+    
+    const promoted = tasks.filter(isHighlighted).map(task =>
+      TASK_PRIORITIES.indexOf(task.priority) > TASK_PRIORITIES.indexOf('high')
+        ? { ...task, priority: 'high' as const, ...scoresForPriority('high') }
+        : task
+    );
+    tasks.splice(0, tasks.length, ...sortByPriority([...promoted, ...tasks.filter(task => !isHighlighted(task))]));
+    
     // Add default tasks if nothing was extracted
-    if (highPriorityTasks.length === 0 && mediumPriorityTasks.length === 0) {
-      highPriorityTasks.push({
+    if (tasks.length === 0) {
+      tasks.push({
         id: generateSecureId('task'),
         title: 'Review your priorities',
         priority: 'high',
+        ...scoresForPriority('high'),
         date: formatDate(today),
         time: '18:00',
         duration: 30,
@@ -297,9 +795,19 @@ Here's the transcript:
       });
     }
     
+    // Hand the tasks over one at a time, like a streamed reply
+    if (stream) {
+      for (const task of tasks) {
+        await new Promise(resolve => setTimeout(resolve, 400));
+        if (stream.signal?.aborted) {
+          throw cancelledError();
+        }
+        stream.onTask?.(task);
+      }
+    }
+    
     return {
-      highPriorityTasks,
-      mediumPriorityTasks
+      tasks
     };
   }
 }
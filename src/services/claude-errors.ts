@@ -0,0 +1,112 @@
+// src/services/claude-errors.ts
+import axios from 'axios';
+
+// What went wrong talking to Claude, which decides what the user can do about it
+export type ClaudeErrorKind =
+  | 'auth' // no API key, or Claude rejected it; needs fixing in Settings
+  | 'rate-limit' // too many requests; wait and try again
+  | 'overloaded' // Claude is overloaded or having problems; try again later
+  | 'network' // Claude couldn't be reached
+  | 'invalid-response' // Claude's reply couldn't be used
+  | 'cancelled'; // the user stopped the request
+
+export class ClaudeApiError extends Error {
+  public readonly kind: ClaudeErrorKind;
+  public readonly retryAfterSeconds?: number; // how long Claude asked us to wait, if it did
+  public readonly details: string[]; // e.g. the fields that failed validation
+
+  constructor(kind: ClaudeErrorKind, message: string, retryAfterSeconds?: number, details: string[] = []) {
+    super(message);
+    this.name = 'ClaudeApiError';
+    this.kind = kind;
+    this.retryAfterSeconds = retryAfterSeconds;
+    this.details = details;
+    Object.setPrototypeOf(this, ClaudeApiError.prototype);
+  }
+
+  /**
+   * Whether trying again without the user changing anything can help
+   */
+  public get retryable(): boolean {
+    return this.kind !== 'auth' && this.kind !== 'cancelled';
+  }
+}
+
+/**
+ * The error for a request that never got an answer
+ */
+export function networkError(): ClaudeApiError {
+  return new ClaudeApiError('network', "Couldn't reach Claude. Check your connection and try again.");
+}
+
+// Read a Retry-After header, given in seconds
+function parseRetryAfter(value: unknown): number | undefined {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+}
+
+/**
+ * Sort a failed HTTP response from Claude into the error taxonomy
+ */
+export function errorForStatus(status: number, apiMessage?: string, retryAfter?: unknown): ClaudeApiError {
+  if (status === 401 || status === 403) {
+    return new ClaudeApiError('auth', 'Claude rejected your API key. Check the key in Settings.');
+  }
+  if (status === 429) {
+    return new ClaudeApiError(
+      'rate-limit',
+      'Claude is limiting how many requests you can make right now.',
+      parseRetryAfter(retryAfter)
+    );
+  }
+  if (status === 529 || status >= 500) {
+    return new ClaudeApiError('overloaded', 'Claude is overloaded or having problems at the moment.');
+  }
+  return new ClaudeApiError('invalid-response', apiMessage || `Claude request failed with status ${status}`);
+}
+
+/**
+ * Sort an error event sent part way through a streamed reply into the error taxonomy
+ */
+export function errorForStreamEvent(type: string | undefined, message?: string): ClaudeApiError {
+  switch (type) {
+    case 'authentication_error':
+    case 'permission_error':
+      return errorForStatus(401);
+    case 'rate_limit_error':
+      return errorForStatus(429);
+    case 'overloaded_error':
+    case 'api_error':
+      return errorForStatus(529);
+    default:
+      return new ClaudeApiError('invalid-response', message || 'Claude stopped replying part way through');
+  }
+}
+
+/**
+ * The error for a request the user stopped
+ */
+export function cancelledError(): ClaudeApiError {
+  return new ClaudeApiError('cancelled', 'Task extraction was cancelled.');
+}
+
+/**
+ * Sort any failure of a Claude request into the error taxonomy
+ */
+export function toClaudeApiError(error: unknown): ClaudeApiError {
+  if (error instanceof ClaudeApiError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    const apiMessage = error.response?.data?.error?.message;
+
+    if (!error.response) {
+      return networkError();
+    }
+    return errorForStatus(error.response.status, apiMessage, error.response.headers?.['retry-after']);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new ClaudeApiError('invalid-response', message);
+}
@@ -3,6 +3,8 @@ import { GoogleSignin } from '@react-native-google-signin/google-signin';
 import axios from 'axios';
 import { ENV, SecureKeyStorage, SECURE_STORAGE_KEYS, logger } from '../config';
 import { Task } from './task-service';
+import { parseLocalDate } from '../utils/relative-dates';
+import { getPriorityLevel } from '../config/priorities';
 
 interface CalendarEvent {
   id: string;
@@ -177,13 +179,9 @@ class GoogleCalendarService {
     }
 
     try {
-      // Parse date and time
-      const taskDate = new Date(task.date);
+      // Parse date and time in the user's time zone
       const timeStr = task.time || '18:00'; // Default to 6 PM if no time specified
-      const [hours, minutes] = timeStr.split(':').map(Number);
-      
-      // Set start time
-      taskDate.setHours(hours, minutes, 0, 0);
+      const taskDate = parseLocalDate(task.date, timeStr);
       
       // Calculate end time based on duration (default to 1 hour)
       const duration = task.duration || 60; // in minutes
@@ -192,7 +190,7 @@ class GoogleCalendarService {
       // Create event object
       const event: CalendarEvent = {
         summary: task.title,
-        description: `Task Priority: ${task.priority}\n${
+        description: `Task Priority: ${getPriorityLevel(task.priority).label}\n${
           task.subTasks && task.subTasks.length > 0
             ? `\nSubtasks:\n${task.subTasks.map(st => `- ${st.title}`).join('\n')}`
             : ''
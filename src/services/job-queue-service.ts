@@ -0,0 +1,443 @@
+// src/services/job-queue-service.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { logger } from '../config';
+import { generateSecureId } from '../utils/encryption';
+import { getRequestLanguage } from '../config/languages';
+import { buildVocabularyPrompt, applyVocabulary, applyVocabularyToSegments } from '../utils/vocabulary';
+import {
+  recordingService,
+  getUntranscribedSegments,
+  getBookmarkHighlights,
+  getCurrentTranscriptVersion
+} from './recording-service';
+import { transcriptionService } from './transcription-service';
+import { taskService, Task } from './task-service';
+import { settingsService } from './settings-service';
+import { vocabularyService } from './vocabulary-service';
+import { transcriptCleanupService } from './transcript-cleanup-service';
+import { ClaudeApiError, ClaudeErrorKind, cancelledError } from './claude-errors';
+
+// Types
+export type JobType = 'transcribe' | 'extract';
+
+export type JobStatus =
+  | 'queued' // waiting for its turn
+  | 'running'
+  | 'retrying' // failed, and waiting until nextAttemptAt to try again
+  | 'failed'; // gave up after MAX_JOB_ATTEMPTS, until the user retries
+
+export interface Job {
+  id: string;
+  type: JobType;
+  recordingId: string;
+  status: JobStatus;
+  attempts: number;
+  nextAttemptAt: number; // epoch milliseconds
+  lastError?: string;
+  errorKind?: ClaudeErrorKind; // set when the last failure was a Claude error
+  createdAt: string;
+}
+
+// Progress of a running job, kept in memory only
+export interface JobProgress {
+  fraction: number; // 0-1
+  indeterminate?: boolean; // no fraction is known yet
+  partialText: string;
+  partialTasks?: Task[]; // tasks extracted so far, before they are saved
+}
+
+type JobWaiter = {
+  resolve: () => void;
+  reject: (error: Error) => void;
+};
+
+const JOB_QUEUE_STORAGE_KEY = '@janaru_job_queue';
+
+// Delay before the first retry; each later retry waits twice as long
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+// Attempts before a job stops retrying on its own
+export const MAX_JOB_ATTEMPTS = 6;
+
+/**
+ * Get how long to wait before the next attempt of a job that has failed
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)));
+}
+
+class JobQueueService {
+  private jobs: Job[] = [];
+  private progress = new Map<string, JobProgress>();
+  private controllers = new Map<string, AbortController>(); // for cancelling running jobs
+  private waiters = new Map<string, JobWaiter[]>();
+  private listeners = new Set<() => void>();
+  private online = true;
+  private processing = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly loaded: Promise<void>;
+
+  constructor() {
+    // Load the queue from storage on initialization, then pick up where it left off
+    this.loaded = this.loadJobs().then(() => this.processQueue());
+
+    // Jobs wait while the device is offline and resume when it reconnects
+    NetInfo.addEventListener(state => {
+      const online = state.isConnected !== false;
+      if (online === this.online) return;
+
+      this.online = online;
+      logger.info(online ? 'Back online, resuming jobs' : 'Offline, pausing jobs');
+      this.notify();
+      if (online) {
+        this.processQueue();
+      }
+    });
+  }
+
+  /**
+   * Resolve once the queue has been loaded from storage
+   */
+  public whenLoaded(): Promise<void> {
+    return this.loaded;
+  }
+
+  /**
+   * Load the queue from local storage. Jobs interrupted by the app closing
+   * are queued again, and jobs for deleted recordings are dropped.
+   */
+  private async loadJobs(): Promise<void> {
+    try {
+      await recordingService.whenLoaded();
+
+      const jobsString = await AsyncStorage.getItem(JOB_QUEUE_STORAGE_KEY);
+      if (jobsString) {
+        const stored: Job[] = JSON.parse(jobsString);
+        this.jobs = stored
+          .filter(job => recordingService.getRecordingById(job.recordingId))
+          .map(job => (job.status === 'running' ? { ...job, status: 'queued' } : job));
+      }
+    } catch (error) {
+      logger.error('Failed to load job queue from storage', error);
+    }
+  }
+
+  /**
+   * Save the queue to local storage
+   */
+  private async saveJobs(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(JOB_QUEUE_STORAGE_KEY, JSON.stringify(this.jobs));
+    } catch (error) {
+      logger.error('Failed to save job queue to storage', error);
+    }
+  }
+
+  /**
+   * Listen for any change to the queue. Returns a function that stops listening.
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Add a job for a recording. A matching job already in the queue is
+   * returned instead, and started again if it had given up.
+   */
+  public async enqueue(type: JobType, recordingId: string): Promise<Job> {
+    await this.loaded;
+
+    const existing = this.getJob(type, recordingId);
+    if (existing) {
+      if (existing.status === 'failed') {
+        await this.retryJob(existing.id);
+      }
+      return existing;
+    }
+
+    const job: Job = {
+      id: generateSecureId('job'),
+      type,
+      recordingId,
+      status: 'queued',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: new Date().toISOString(),
+    };
+
+    this.jobs.push(job);
+    await this.saveJobs();
+    logger.info('Job queued', { jobId: job.id, type, recordingId });
+
+    this.notify();
+    this.processQueue();
+    return job;
+  }
+
+  /**
+   * Try a waiting or failed job again now, with a fresh set of attempts if it had given up
+   */
+  public async retryJob(jobId: string): Promise<void> {
+    const job = this.jobs.find(item => item.id === jobId);
+    if (!job || job.status === 'running') return;
+
+    if (job.status === 'failed') {
+      job.attempts = 0;
+    }
+    job.status = 'queued';
+    job.nextAttemptAt = Date.now();
+
+    await this.saveJobs();
+    this.notify();
+    this.processQueue();
+  }
+
+  /**
+   * Stop a job and take it out of the queue. A running extraction is aborted
+   * part way through, and nothing it extracted is saved.
+   */
+  public async cancelJob(jobId: string): Promise<void> {
+    const job = this.jobs.find(item => item.id === jobId);
+    if (!job) return;
+
+    const controller = this.controllers.get(jobId);
+    if (controller) {
+      // The running job fails with a cancelled error and is removed then
+      controller.abort();
+      return;
+    }
+    if (job.status === 'running') return; // can't be stopped part way, e.g. transcription
+
+    this.jobs = this.jobs.filter(item => item.id !== jobId);
+    await this.saveJobs();
+    logger.info('Job cancelled', { jobId, type: job.type, recordingId: job.recordingId });
+
+    this.settle(jobId, cancelledError());
+    this.notify();
+  }
+
+  /**
+   * Resolve when a job finishes, or reject when it gives up or is removed
+   */
+  public waitForJob(jobId: string): Promise<void> {
+    if (!this.jobs.some(job => job.id === jobId)) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiters.set(jobId, [...(this.waiters.get(jobId) || []), { resolve, reject }]);
+    });
+  }
+
+  /**
+   * Remove every job for a recording, e.g. when it is deleted
+   */
+  public async removeJobsForRecording(recordingId: string): Promise<void> {
+    const removed = this.jobs.filter(job => job.recordingId === recordingId && job.status !== 'running');
+    if (removed.length === 0) return;
+
+    this.jobs = this.jobs.filter(job => !removed.includes(job));
+    await this.saveJobs();
+
+    removed.forEach(job => this.settle(job.id, new Error('This job was removed')));
+    this.notify();
+  }
+
+  /**
+   * Get the job of a type for a recording, if one is queued
+   */
+  public getJob(type: JobType, recordingId: string): Job | undefined {
+    return this.jobs.find(job => job.type === type && job.recordingId === recordingId);
+  }
+
+  /**
+   * Get the queued jobs for a recording, oldest first
+   */
+  public getJobsForRecording(recordingId: string): Job[] {
+    return this.jobs.filter(job => job.recordingId === recordingId);
+  }
+
+  /**
+   * Get how far a running job has got
+   */
+  public getProgress(jobId: string): JobProgress | undefined {
+    return this.progress.get(jobId);
+  }
+
+  /**
+   * Whether jobs can run, or are paused until the device reconnects
+   */
+  public isOnline(): boolean {
+    return this.online;
+  }
+
+  /**
+   * Run jobs one at a time, oldest first, until none are due
+   */
+  private async processQueue(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.processing || !this.online) return;
+
+    const now = Date.now();
+    const waiting = this.jobs.filter(job => job.status === 'queued' || job.status === 'retrying');
+    const job = waiting.find(item => item.nextAttemptAt <= now);
+
+    if (!job) {
+      // Wake up when the next retry is due
+      if (waiting.length > 0) {
+        const nextAttemptAt = Math.min(...waiting.map(item => item.nextAttemptAt));
+        this.timer = setTimeout(() => this.processQueue(), nextAttemptAt - now);
+      }
+      return;
+    }
+
+    this.processing = true;
+    job.status = 'running';
+    job.attempts += 1;
+    await this.saveJobs();
+    this.notify();
+
+    try {
+      await this.runJob(job);
+
+      this.jobs = this.jobs.filter(item => item.id !== job.id);
+      logger.info('Job finished', { jobId: job.id, type: job.type, recordingId: job.recordingId });
+      this.settle(job.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const claudeError = error instanceof ClaudeApiError ? error : undefined;
+      job.lastError = message;
+      job.errorKind = claudeError?.kind;
+
+      if (claudeError?.kind === 'cancelled') {
+        this.jobs = this.jobs.filter(item => item.id !== job.id);
+        logger.info('Job cancelled', { jobId: job.id, type: job.type, recordingId: job.recordingId });
+        this.settle(job.id, claudeError);
+      } else if (!this.online) {
+        // Lost the connection part way through; that attempt doesn't count
+        job.attempts -= 1;
+        job.status = 'queued';
+        job.nextAttemptAt = Date.now();
+      } else if (job.attempts >= MAX_JOB_ATTEMPTS || (claudeError && !claudeError.retryable)) {
+        // Some failures, like a rejected API key, need the user before another try
+        job.status = 'failed';
+        logger.error('Job failed', { jobId: job.id, type: job.type, attempts: job.attempts, error: message });
+        this.settle(job.id, error instanceof Error ? error : new Error(message));
+      } else {
+        job.status = 'retrying';
+        // Wait at least as long as Claude asked, when it was rate limiting us
+        const requestedDelay = claudeError?.retryAfterSeconds ? claudeError.retryAfterSeconds * 1000 : 0;
+        job.nextAttemptAt = Date.now() + Math.max(getRetryDelay(job.attempts), requestedDelay);
+        logger.warn('Job will be retried', { jobId: job.id, type: job.type, attempts: job.attempts, error: message });
+      }
+    } finally {
+      this.progress.delete(job.id);
+      this.controllers.delete(job.id);
+      this.processing = false;
+      await this.saveJobs();
+      this.notify();
+      this.processQueue();
+    }
+  }
+
+  /**
+   * Do the work of one job
+   */
+  private async runJob(job: Job): Promise<void> {
+    const recording = recordingService.getRecordingById(job.recordingId);
+    if (!recording) {
+      // Deleted since the job was queued; nothing left to do
+      return;
+    }
+
+    if (job.type === 'transcribe') {
+      // Only the parts the transcript doesn't cover yet
+      const segments = getUntranscribedSegments(recording);
+      if (segments.length === 0) return;
+
+      // The recording's own language wins over the default in Settings
+      const { language, cleanup } = await settingsService.getSettings();
+      const vocabulary = await vocabularyService.getTerms();
+      const result = await transcriptionService.transcribe(segments, {
+        language: getRequestLanguage(recording.language || language.spokenLanguage),
+        prompt: buildVocabularyPrompt(vocabulary) || undefined,
+        onProgress: progress => {
+          this.progress.set(job.id, {
+            fraction: progress.fraction,
+            indeterminate: progress.indeterminate,
+            partialText: progress.partialText,
+          });
+          this.notify();
+        },
+      });
+
+      // Fix names the provider still got wrong
+      await recordingService.saveTranscription(
+        recording.id,
+        applyVocabulary(result.text, vocabulary),
+        applyVocabularyToSegments(result.segments, vocabulary),
+        result.language
+      );
+
+      // The raw transcript is kept as its own revision underneath the clean one
+      if (cleanup.enabled) {
+        await transcriptCleanupService.cleanRecording(recording.id);
+      }
+      return;
+    }
+
+    if (!recording.transcript) {
+      throw new Error('This vent has no transcript to extract tasks from');
+    }
+
+    // Note which revision the tasks come from, in case it is edited meanwhile
+    const version = getCurrentTranscriptVersion(recording);
+
+    // Show tasks as Claude writes them, and let the user stop it
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    let partialTasks: Task[] = [];
+    const showTasks = (tasks: Task[]) => {
+      partialTasks = tasks;
+      this.progress.set(job.id, { fraction: 0, partialText: '', partialTasks });
+      this.notify();
+    };
+
+    await taskService.processTranscript(
+      recording.transcript,
+      recording.id,
+      getBookmarkHighlights(recording),
+      recording.detectedLanguage || getRequestLanguage(recording.language),
+      recording.promptTemplateId,
+      {
+        onTask: task => showTasks([...partialTasks, task]),
+        onRestart: () => showTasks([]),
+        signal: controller.signal,
+      }
+    );
+    await recordingService.markRecordingAsProcessed(recording.id, version && version.id);
+  }
+
+  // Tell anyone waiting on a job how it ended
+  private settle(jobId: string, error?: Error): void {
+    const waiters = this.waiters.get(jobId) || [];
+    this.waiters.delete(jobId);
+    waiters.forEach(waiter => (error ? waiter.reject(error) : waiter.resolve()));
+  }
+}
+
+// Export a singleton instance
+export const jobQueueService = new JobQueueService();
+export default jobQueueService;
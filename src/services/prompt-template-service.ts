@@ -0,0 +1,228 @@
+// src/services/prompt-template-service.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { logger } from '../config';
+import { generateSecureId } from '../utils/encryption';
+import {
+  BUILT_IN_TEMPLATE_ID,
+  BUILT_IN_TEMPLATE_NAME,
+  BUILT_IN_PROMPT_TEMPLATE,
+  BUILT_IN_TEMPLATE_VERSION
+} from '../config/prompt-templates';
+import { settingsService } from './settings-service';
+
+// Types
+export interface PromptTemplateVersion {
+  version: number; // counts up from 1 with each saved change
+  body: string;
+  createdAt: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  builtIn: boolean; // the built-in template can't be edited or removed
+  versions: PromptTemplateVersion[]; // oldest first; the last one is used
+}
+
+// The template version something was extracted with
+export interface PromptTemplateRef {
+  id: string;
+  name: string;
+  version: number;
+}
+
+const PROMPT_TEMPLATES_STORAGE_KEY = '@janaru_prompt_templates';
+
+const BUILT_IN_TEMPLATE: PromptTemplate = {
+  id: BUILT_IN_TEMPLATE_ID,
+  name: BUILT_IN_TEMPLATE_NAME,
+  builtIn: true,
+  versions: [{ version: BUILT_IN_TEMPLATE_VERSION, body: BUILT_IN_PROMPT_TEMPLATE, createdAt: '' }],
+};
+
+/**
+ * Get the version of a template that is used now
+ */
+export function getLatestVersion(template: PromptTemplate): PromptTemplateVersion {
+  return template.versions[template.versions.length - 1];
+}
+
+class PromptTemplateService {
+  private templates: PromptTemplate[] = []; // the user's own, without the built-in one
+  private listeners = new Set<() => void>();
+  private readonly loaded: Promise<void>;
+
+  constructor() {
+    // Load templates from storage on initialization
+    this.loaded = this.loadTemplates();
+  }
+
+  /**
+   * Load the user's templates from local storage
+   */
+  private async loadTemplates(): Promise<void> {
+    try {
+      const templatesString = await AsyncStorage.getItem(PROMPT_TEMPLATES_STORAGE_KEY);
+      if (templatesString) {
+        this.templates = JSON.parse(templatesString);
+      }
+    } catch (error) {
+      logger.error('Failed to load prompt templates from storage', error);
+    }
+  }
+
+  /**
+   * Save the user's templates to local storage
+   */
+  private async saveTemplates(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(PROMPT_TEMPLATES_STORAGE_KEY, JSON.stringify(this.templates));
+    } catch (error) {
+      logger.error('Failed to save prompt templates to storage', error);
+    }
+    this.notify();
+  }
+
+  /**
+   * Listen for any change to the templates. Returns a function that stops listening.
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Get every template, the built-in one first
+   */
+  public async getTemplates(): Promise<PromptTemplate[]> {
+    await this.loaded;
+    return [BUILT_IN_TEMPLATE, ...this.templates];
+  }
+
+  /**
+   * Get a template by ID
+   */
+  public async getTemplate(id: string): Promise<PromptTemplate | null> {
+    const templates = await this.getTemplates();
+    return templates.find(template => template.id === id) || null;
+  }
+
+  /**
+   * Add a template, e.g. a copy of another one to change
+   */
+  public async addTemplate(name: string, body: string): Promise<PromptTemplate> {
+    await this.loaded;
+
+    const trimmed = this.checkName(name);
+    const added: PromptTemplate = {
+      id: generateSecureId('template'),
+      name: trimmed,
+      builtIn: false,
+      versions: [{ version: 1, body, createdAt: new Date().toISOString() }],
+    };
+
+    this.templates.push(added);
+    await this.saveTemplates();
+    logger.debug('Prompt template added', { templateId: added.id });
+
+    return added;
+  }
+
+  /**
+   * Rename a template or change its text. Changed text is saved as a new
+   * version, so tasks keep pointing at the text that produced them.
+   */
+  public async updateTemplate(id: string, updates: { name?: string; body?: string }): Promise<PromptTemplate> {
+    await this.loaded;
+
+    const template = this.templates.find(item => item.id === id);
+    if (!template) {
+      throw new Error(id === BUILT_IN_TEMPLATE_ID ? "The built-in template can't be changed" : 'Template not found');
+    }
+
+    if (updates.name !== undefined) {
+      template.name = this.checkName(updates.name, id);
+    }
+    if (updates.body !== undefined && updates.body !== getLatestVersion(template).body) {
+      template.versions.push({
+        version: getLatestVersion(template).version + 1,
+        body: updates.body,
+        createdAt: new Date().toISOString(),
+      });
+    }
+
+    await this.saveTemplates();
+    return template;
+  }
+
+  /**
+   * Remove a template. Vents and Settings that used it go back to the default.
+   */
+  public async removeTemplate(id: string): Promise<void> {
+    await this.loaded;
+
+    this.templates = this.templates.filter(item => item.id !== id);
+    await this.saveTemplates();
+
+    if ((await this.getDefaultTemplateId()) === id) {
+      await this.setDefaultTemplate(BUILT_IN_TEMPLATE_ID);
+    }
+  }
+
+  /**
+   * Get the ID of the template vents use unless they have their own
+   */
+  public async getDefaultTemplateId(): Promise<string> {
+    const { prompt } = await settingsService.getSettings();
+    return prompt.templateId;
+  }
+
+  /**
+   * Choose the template vents use unless they have their own
+   */
+  public async setDefaultTemplate(id: string): Promise<void> {
+    await settingsService.updateSettings('prompt', { templateId: id });
+    this.notify();
+  }
+
+  /**
+   * Get the template to extract with: the vent's own choice, or else the
+   * default from Settings, or else the built-in one
+   */
+  public async resolveTemplate(templateId?: string): Promise<{ ref: PromptTemplateRef; body: string }> {
+    const template =
+      (templateId && (await this.getTemplate(templateId))) ||
+      (await this.getTemplate(await this.getDefaultTemplateId())) ||
+      BUILT_IN_TEMPLATE;
+
+    const latest = getLatestVersion(template);
+    return {
+      ref: { id: template.id, name: template.name, version: latest.version },
+      body: latest.body,
+    };
+  }
+
+  private checkName(name: string, id?: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Give the template a name');
+    }
+    const taken = [BUILT_IN_TEMPLATE, ...this.templates].some(template =>
+      template.id !== id && template.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (taken) {
+      throw new Error(`There is already a template called "${trimmed}"`);
+    }
+    return trimmed;
+  }
+}
+
+// Export a singleton instance
+export const promptTemplateService = new PromptTemplateService();
+export default promptTemplateService;
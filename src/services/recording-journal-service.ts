@@ -0,0 +1,417 @@
+// src/services/recording-journal-service.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { logger } from '../config';
+import { generateSecureId } from '../utils/encryption';
+import { readAudioDuration, getFileExtension } from '../utils/audio-file';
+import { RecordingQualityProfileId } from '../config/recording-profiles';
+import {
+  recordingService,
+  Recording,
+  RecordingSegment,
+  RecordingBookmark,
+  getRecordingSegments,
+  RECORDINGS_DIRECTORY
+} from './recording-service';
+
+// Types
+export type JournalSessionStatus = 'recording' | 'stopped';
+
+export interface JournalSession {
+  id: string;
+  startedAt: string;
+  directory: string;
+  status: JournalSessionStatus;
+  segments: RecordingSegment[];
+  activeSegmentUri: string | null; // segment being written when the journal was last updated
+  waveform: number[];
+  qualityProfile?: RecordingQualityProfileId;
+  bookmarks?: RecordingBookmark[];
+}
+
+export interface RecoverableSession {
+  session: JournalSession;
+  segments: RecordingSegment[]; // segments whose audio is still readable
+  duration: number; // in seconds
+  orphaned: boolean; // found on disk without a journal entry
+}
+
+export type RecoveryMode = 'stitched' | 'separate';
+
+const JOURNAL_STORAGE_KEY = '@janaru_recording_journal';
+
+class RecordingJournalService {
+  private sessions: JournalSession[] = [];
+  private readonly loaded: Promise<void>;
+
+  constructor() {
+    // Load the journal from storage on initialization
+    this.loaded = this.loadJournal();
+  }
+
+  /**
+   * Load journal entries from local storage
+   */
+  private async loadJournal(): Promise<void> {
+    try {
+      const journalString = await AsyncStorage.getItem(JOURNAL_STORAGE_KEY);
+      if (journalString) {
+        this.sessions = JSON.parse(journalString);
+      }
+    } catch (error) {
+      logger.error('Failed to load recording journal from storage', error);
+    }
+  }
+
+  /**
+   * Save journal entries to local storage
+   */
+  private async saveJournal(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(JOURNAL_STORAGE_KEY, JSON.stringify(this.sessions));
+    } catch (error) {
+      logger.error('Failed to save recording journal to storage', error);
+    }
+  }
+
+  /**
+   * Get a journal session by ID
+   */
+  private getSession(sessionId: string): JournalSession {
+    const session = this.sessions.find(s => s.id === sessionId);
+    if (!session) {
+      throw new Error('Recording session not found');
+    }
+    return session;
+  }
+
+  /**
+   * Start a new recording session with its own directory
+   */
+  public async startSession(qualityProfile: RecordingQualityProfileId): Promise<JournalSession> {
+    await this.loaded;
+
+    const id = generateSecureId('session');
+    const directory = `${RECORDINGS_DIRECTORY}${id}/`;
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+    const session: JournalSession = {
+      id,
+      startedAt: new Date().toISOString(),
+      directory,
+      status: 'recording',
+      segments: [],
+      activeSegmentUri: null,
+      waveform: [],
+      qualityProfile,
+    };
+
+    this.sessions.push(session);
+    await this.saveJournal();
+
+    logger.info('Recording session started', { sessionId: id });
+    return session;
+  }
+
+  /**
+   * Remember which file the recorder is currently writing to
+   */
+  public async setActiveSegment(sessionId: string, uri: string | null): Promise<void> {
+    const session = this.getSession(sessionId);
+    session.activeSegmentUri = uri;
+    await this.saveJournal();
+  }
+
+  /**
+   * Move a finished segment into the session directory and journal it
+   */
+  public async addSegment(
+    sessionId: string,
+    tempUri: string,
+    duration: number,
+    waveform: number[]
+  ): Promise<RecordingSegment> {
+    const session = this.getSession(sessionId);
+
+    const index = String(session.segments.length).padStart(3, '0');
+    const uri = `${session.directory}segment_${index}${getFileExtension(tempUri)}`;
+    await FileSystem.moveAsync({ from: tempUri, to: uri });
+
+    const fileInfo = await FileSystem.getInfoAsync(uri);
+    const segment: RecordingSegment = {
+      uri,
+      duration,
+      size: fileInfo.exists ? fileInfo.size : 0,
+    };
+
+    session.segments.push(segment);
+    session.waveform = waveform;
+    if (session.activeSegmentUri === tempUri) {
+      session.activeSegmentUri = null;
+    }
+    await this.saveJournal();
+
+    logger.debug('Recording segment journaled', { sessionId, uri, duration });
+    return segment;
+  }
+
+  /**
+   * Save the moments marked so far
+   */
+  public async setBookmarks(sessionId: string, bookmarks: RecordingBookmark[]): Promise<void> {
+    const session = this.getSession(sessionId);
+    session.bookmarks = bookmarks;
+    await this.saveJournal();
+  }
+  
+  /**
+   * Mark a session as stopped; it stays in the journal until it's saved or discarded
+   */
+  public async markStopped(sessionId: string, waveform: number[]): Promise<JournalSession> {
+    const session = this.getSession(sessionId);
+    session.status = 'stopped';
+    session.activeSegmentUri = null;
+    session.waveform = waveform;
+    await this.saveJournal();
+    return session;
+  }
+
+  /**
+   * Remove a session from the journal once its recording has been saved
+   */
+  public async completeSession(sessionId: string): Promise<void> {
+    await this.loaded;
+    this.sessions = this.sessions.filter(s => s.id !== sessionId);
+    await this.saveJournal();
+    logger.info('Recording session completed', { sessionId });
+  }
+
+  /**
+   * Delete a session's audio and remove it from the journal
+   */
+  public async discardSession(sessionId: string): Promise<void> {
+    await this.loaded;
+
+    const session = this.sessions.find(s => s.id === sessionId);
+    const directory = session ? session.directory : `${RECORDINGS_DIRECTORY}${sessionId}/`;
+
+    try {
+      await FileSystem.deleteAsync(directory, { idempotent: true });
+      if (session && session.activeSegmentUri) {
+        await FileSystem.deleteAsync(session.activeSegmentUri, { idempotent: true });
+      }
+    } catch (error) {
+      logger.warn('Failed to delete recording session files', { sessionId, error });
+    }
+
+    this.sessions = this.sessions.filter(s => s.id !== sessionId);
+    await this.saveJournal();
+    logger.info('Recording session discarded', { sessionId });
+  }
+
+  /**
+   * Find interrupted sessions in the journal and orphaned session directories on disk
+   */
+  public async findRecoverableSessions(): Promise<RecoverableSession[]> {
+    await this.loaded;
+    await recordingService.whenLoaded();
+
+    const recoverable: RecoverableSession[] = [];
+
+    // Interrupted sessions from the journal
+    for (const session of this.sessions) {
+      const segments = await this.collectReadableSegments(session);
+      if (segments.length === 0) {
+        // Nothing left to recover
+        await this.discardSession(session.id);
+        continue;
+      }
+
+      recoverable.push({
+        session,
+        segments,
+        duration: segments.reduce((total, segment) => total + segment.duration, 0),
+        orphaned: false,
+      });
+    }
+
+    // Session directories that neither the journal nor a saved recording knows about
+    const orphans = await this.findOrphanedDirectories();
+    for (const session of orphans) {
+      const segments = await this.collectReadableSegments(session);
+      if (segments.length === 0) continue;
+
+      this.sessions.push(session);
+      recoverable.push({
+        session,
+        segments,
+        duration: segments.reduce((total, segment) => total + segment.duration, 0),
+        orphaned: true,
+      });
+    }
+
+    if (orphans.length > 0) {
+      await this.saveJournal();
+    }
+
+    logger.info('Recoverable recording sessions found', { count: recoverable.length });
+    return recoverable;
+  }
+
+  /**
+   * Turn a recoverable session into one recording, or one recording per segment
+   */
+  public async recoverSession(recoverable: RecoverableSession, mode: RecoveryMode): Promise<string[]> {
+    const { session, segments, duration } = recoverable;
+    const recordingIds: string[] = [];
+
+    if (mode === 'stitched' || segments.length === 1) {
+      const recording: Recording = {
+        id: generateSecureId('rec'),
+        title: 'Recovered vent',
+        date: session.startedAt,
+        audioUri: segments[0].uri,
+        transcript: null,
+        duration,
+        processed: false,
+        fileSize: segments.reduce((total, segment) => total + segment.size, 0),
+        qualityProfile: session.qualityProfile,
+      };
+
+      if (segments.length > 1) {
+        recording.segments = segments;
+      }
+      if (session.waveform.length > 0) {
+        recording.waveform = session.waveform;
+      }
+      if (session.bookmarks && session.bookmarks.length > 0) {
+        recording.bookmarks = session.bookmarks;
+      }
+
+      recordingIds.push(await recordingService.addRecording(recording));
+    } else {
+      let offset = 0;
+
+      for (let i = 0; i < segments.length; i++) {
+        const segment = segments[i];
+        const date = new Date(new Date(session.startedAt).getTime() + offset * 1000);
+        const part: Recording = {
+          id: generateSecureId('rec'),
+          title: `Recovered vent (part ${i + 1} of ${segments.length})`,
+          date: date.toISOString(),
+          audioUri: segment.uri,
+          transcript: null,
+          duration: segment.duration,
+          processed: false,
+          fileSize: segment.size,
+          qualityProfile: session.qualityProfile,
+        };
+
+        // Each part keeps the bookmarks that fall inside it
+        const partBookmarks = (session.bookmarks || [])
+          .filter(bookmark => bookmark.time >= offset && bookmark.time < offset + segment.duration)
+          .map(bookmark => ({ ...bookmark, time: bookmark.time - offset }));
+        if (partBookmarks.length > 0) {
+          part.bookmarks = partBookmarks;
+        }
+
+        offset += segment.duration;
+        recordingIds.push(await recordingService.addRecording(part));
+      }
+    }
+
+    await this.completeSession(session.id);
+    logger.info('Recording session recovered', { sessionId: session.id, mode, recordingIds });
+
+    return recordingIds;
+  }
+
+  /**
+   * Check which of a session's segments are still readable, including the interrupted one
+   */
+  private async collectReadableSegments(session: JournalSession): Promise<RecordingSegment[]> {
+    const segments: RecordingSegment[] = [];
+
+    for (const segment of session.segments) {
+      const fileInfo = await FileSystem.getInfoAsync(segment.uri);
+      if (fileInfo.exists && fileInfo.size > 0) {
+        segments.push(segment);
+      }
+    }
+
+    // The segment being written when the app died may or may not be decodable
+    if (session.activeSegmentUri) {
+      const fileInfo = await FileSystem.getInfoAsync(session.activeSegmentUri);
+      const duration = fileInfo.exists && fileInfo.size > 0
+        ? await readAudioDuration(session.activeSegmentUri)
+        : null;
+
+      if (duration !== null) {
+        const segment = await this.addSegment(session.id, session.activeSegmentUri, duration, session.waveform);
+        segments.push(segment);
+      } else {
+        logger.warn('Interrupted recording segment is not readable', { sessionId: session.id });
+        session.activeSegmentUri = null;
+        await this.saveJournal();
+      }
+    }
+
+    return segments;
+  }
+
+  /**
+   * Build journal sessions for directories in the recordings folder that nothing references
+   */
+  private async findOrphanedDirectories(): Promise<JournalSession[]> {
+    const directoryInfo = await FileSystem.getInfoAsync(RECORDINGS_DIRECTORY);
+    if (!directoryInfo.exists) {
+      return [];
+    }
+
+    const knownDirectories = new Set(this.sessions.map(s => s.directory));
+    const referencedUris = new Set<string>();
+    recordingService.getRecordings().forEach(recording => {
+      getRecordingSegments(recording).forEach(segment => referencedUris.add(segment.uri));
+    });
+
+    const orphans: JournalSession[] = [];
+    const entries = await FileSystem.readDirectoryAsync(RECORDINGS_DIRECTORY);
+
+    for (const entry of entries) {
+      const directory = `${RECORDINGS_DIRECTORY}${entry}/`;
+      if (knownDirectories.has(directory)) continue;
+
+      const info = await FileSystem.getInfoAsync(directory);
+      if (!info.exists || !info.isDirectory) continue;
+
+      const files = (await FileSystem.readDirectoryAsync(directory)).sort();
+      if (files.some(file => referencedUris.has(`${directory}${file}`))) continue;
+
+      const segments: RecordingSegment[] = [];
+      for (const file of files) {
+        const uri = `${directory}${file}`;
+        const duration = await readAudioDuration(uri);
+        if (duration === null) continue;
+
+        const fileInfo = await FileSystem.getInfoAsync(uri);
+        segments.push({ uri, duration, size: fileInfo.exists ? fileInfo.size : 0 });
+      }
+
+      orphans.push({
+        id: entry,
+        startedAt: new Date((info.modificationTime || Date.now() / 1000) * 1000).toISOString(),
+        directory,
+        status: 'stopped',
+        segments,
+        activeSegmentUri: null,
+        waveform: [],
+      });
+    }
+
+    return orphans;
+  }
+}
+
+// Export a singleton instance
+export const recordingJournalService = new RecordingJournalService();
+export default recordingJournalService;
@@ -1,7 +1,40 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as FileSystem from 'expo-file-system';
+import { TimeRange, isRangeSilent } from '../utils/voice-activity';
+import { generateSecureId } from '../utils/encryption';
+import { getTranscriptExcerpt } from '../utils/bookmarks';
+import { appendEnvelope } from '../utils/waveform';
+import { TranscriptSegment } from '../utils/transcript-timing';
+import {
+  RecordingQualityProfile,
+  RecordingQualityProfileId,
+  getRecordingQualityProfile,
+  LEGACY_RECORDING_QUALITY_PROFILE
+} from '../config/recording-profiles';
+import { taskService } from './task-service';
+import { TranscriptHighlight } from './claude-api-service';
+
+// Where recorded audio lives, one directory per recording session
+export const RECORDINGS_DIRECTORY = `${FileSystem.documentDirectory}recordings/`;
 
 // Types
+export interface RecordingSegment {
+  uri: string;
+  duration: number; // in seconds
+  size: number; // in bytes
+}
+
+// A segment placed on the recording's timeline
+export interface TimelineSegment extends RecordingSegment {
+  start: number; // in seconds from the start of the recording
+}
+
+// Moment the user marked as important while recording
+export interface RecordingBookmark {
+  id: string;
+  time: number; // in seconds from the start of the recording
+}
+
 export interface Recording {
   id: string;
   title: string;
@@ -11,14 +44,186 @@ export interface Recording {
   duration: number;
   processed: boolean;
   fileSize?: number;
+  waveform?: number[]; // normalized 0-1 amplitude envelope
+  segments?: RecordingSegment[]; // ordered audio files when recorded in more than one segment
+  silentRanges?: TimeRange[]; // pauses found by voice activity detection
+  qualityProfile?: RecordingQualityProfileId; // how the audio was recorded, unset for imports
+  bookmarks?: RecordingBookmark[]; // marked moments, in time order
+  transcribedParts?: number; // leading segments the transcript covers, unset when it covers all of them
+  transcriptSegments?: TranscriptSegment[]; // segment and word timings on the recording's timeline
+  language?: string; // spoken language chosen for this recording ('auto' or ISO 639-1), overriding Settings
+  detectedLanguage?: string; // ISO 639-1 code the transcription provider heard
+  transcriptVersions?: TranscriptVersion[]; // every revision of the transcript, oldest first
+  extractedVersionId?: string; // transcript version the current tasks were extracted from
+  promptTemplateId?: string; // prompt template to extract tasks with, overriding Settings
+}
+
+// Where a transcript revision came from
+export type TranscriptSource = 'machine' | 'edit' | 'cleanup' | 'revert';
+
+// One saved revision of a recording's transcript
+export interface TranscriptVersion {
+  id: string;
+  text: string;
+  source: TranscriptSource;
+  createdAt: string;
+  segments?: TranscriptSegment[]; // timings, kept on machine revisions so a revert can restore them
+  revertedFrom?: string; // version ID a revert copied
+}
+
+// Audio recorded later to continue an existing recording
+export interface RecordingContinuation {
+  segments: RecordingSegment[];
+  waveform: number[];
+  silentRanges: TimeRange[];
+  bookmarks: RecordingBookmark[];
+}
+
+/**
+ * Get the quality profile a recording was made with
+ */
+export function getRecordingQuality(recording: Recording): RecordingQualityProfile {
+  return getRecordingQualityProfile(recording.qualityProfile || LEGACY_RECORDING_QUALITY_PROFILE);
+}
+
+/**
+ * Get the ordered audio files of a recording
+ */
+export function getRecordingSegments(recording: Recording): RecordingSegment[] {
+  if (recording.segments && recording.segments.length > 0) {
+    return recording.segments;
+  }
+  
+  return [{
+    uri: recording.audioUri,
+    duration: recording.duration,
+    size: recording.fileSize || 0,
+  }];
+}
+
+/**
+ * Get the segments worth sending to transcription, skipping ones that are entirely silent
+ */
+export function getTranscribableSegments(recording: Recording): TimelineSegment[] {
+  const silentRanges = recording.silentRanges || [];
+  
+  let offset = 0;
+  const placed = getRecordingSegments(recording).map(segment => {
+    const timelineSegment = { ...segment, start: offset };
+    offset += segment.duration;
+    return timelineSegment;
+  });
+  
+  return placed.filter(segment =>
+    !isRangeSilent({ start: segment.start, end: segment.start + segment.duration }, silentRanges)
+  );
+}
+
+/**
+ * Get the transcribable segments added since the transcript was made
+ */
+export function getUntranscribedSegments(recording: Recording): TimelineSegment[] {
+  if (!recording.transcript) {
+    return getTranscribableSegments(recording);
+  }
+  if (recording.transcribedParts === undefined) {
+    return [];
+  }
+  
+  const transcribedDuration = getRecordingSegments(recording)
+    .slice(0, recording.transcribedParts)
+    .reduce((total, segment) => total + segment.duration, 0);
+  return getTranscribableSegments(recording).filter(segment => segment.start >= transcribedDuration);
+}
+
+// Most revisions kept per recording; the first machine transcript is always kept
+const MAX_TRANSCRIPT_VERSIONS = 50;
+
+/**
+ * Get a recording's transcript revisions, oldest first. Recordings saved before
+ * revisions were kept get one for their current transcript.
+ */
+export function getTranscriptVersions(recording: Recording): TranscriptVersion[] {
+  if (recording.transcriptVersions && recording.transcriptVersions.length > 0) {
+    return recording.transcriptVersions;
+  }
+  if (!recording.transcript) {
+    return [];
+  }
+  
+  return [{
+    id: `${recording.id}_v1`,
+    text: recording.transcript,
+    source: 'machine',
+    createdAt: recording.date,
+    segments: recording.transcriptSegments,
+  }];
+}
+
+/**
+ * Get the revision the current transcript came from
+ */
+export function getCurrentTranscriptVersion(recording: Recording): TranscriptVersion | undefined {
+  const versions = getTranscriptVersions(recording);
+  return versions[versions.length - 1];
+}
+
+/**
+ * Get the transcript as it came from transcription, if it has been cleaned up
+ * since then. Edits made after the cleanup are not in it.
+ */
+export function getRawTranscript(recording: Recording): string | undefined {
+  const versions = getTranscriptVersions(recording);
+  const machineIndex = versions.map(version => version.source).lastIndexOf('machine');
+  if (machineIndex < 0) return undefined;
+  
+  const cleaned = versions.slice(machineIndex + 1).some(version => version.source === 'cleanup');
+  return cleaned ? versions[machineIndex].text : undefined;
+}
+
+/**
+ * Pair each bookmark with what was being said around it, for task extraction
+ */
+export function getBookmarkHighlights(recording: Recording): TranscriptHighlight[] {
+  if (!recording.transcript || !recording.bookmarks) {
+    return [];
+  }
+  
+  return recording.bookmarks.map(bookmark => ({
+    time: bookmark.time,
+    excerpt: getTranscriptExcerpt(recording.transcript || '', bookmark.time, recording.duration),
+  })).filter(highlight => highlight.excerpt.length > 0);
 }
 
 class RecordingService {
   private recordings: Recording[] = [];
+  private listeners = new Set<() => void>();
+  private readonly loaded: Promise<void>;
   
   constructor() {
     // Load recordings from storage on initialization
-    this.loadRecordings();
+    this.loaded = this.loadRecordings();
+  }
+  
+  /**
+   * Resolve once recordings have been loaded from storage
+   */
+  public whenLoaded(): Promise<void> {
+    return this.loaded;
+  }
+  
+  /**
+   * Listen for any change to the recordings. Returns a function that stops listening.
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+  
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
   }
   
   /**
@@ -44,6 +249,7 @@ class RecordingService {
     } catch (error) {
       console.error('Failed to save recordings to storage', error);
     }
+    this.notify();
   }
   
   /**
@@ -82,30 +288,362 @@ class RecordingService {
   }
   
   /**
-   * Update a recording's transcript
+   * Update a recording's transcript, saving it as a new revision. Timings are
+   * kept across manual edits, since they are matched to the text word by word
+   * when shown.
    */
-  public async updateRecordingTranscript(id: string, transcript: string): Promise<void> {
+  public async updateRecordingTranscript(
+    id: string,
+    transcript: string,
+    transcriptSegments?: TranscriptSegment[],
+    source: TranscriptSource = 'edit'
+  ): Promise<void> {
     const recording = this.recordings.find(rec => rec.id === id);
     if (!recording) {
       throw new Error('Recording not found');
     }
     
+    // Saving unchanged text doesn't make a revision
+    if (transcript !== recording.transcript || source === 'machine') {
+      this.addTranscriptVersion(recording, {
+        id: generateSecureId('ver'),
+        text: transcript,
+        source,
+        createdAt: new Date().toISOString(),
+        segments: source === 'machine' ? transcriptSegments : undefined,
+      });
+    }
+    
     recording.transcript = transcript;
+    if (transcriptSegments) {
+      recording.transcriptSegments = transcriptSegments;
+    }
+    
+    // The saved transcript now covers every part
+    delete recording.transcribedParts;
+    
+    // Save changes
+    await this.saveRecordings();
+  }
+  
+  /**
+   * Save the transcription of a recording's untranscribed segments. A part
+   * added by continuing the recording is merged after the existing transcript.
+   */
+  public async saveTranscription(
+    id: string,
+    transcript: string,
+    transcriptSegments: TranscriptSegment[],
+    detectedLanguage?: string
+  ): Promise<Recording> {
+    const recording = this.recordings.find(rec => rec.id === id);
+    if (!recording) {
+      throw new Error('Recording not found');
+    }
+    
+    // A continuation keeps the language the recording started in
+    if (detectedLanguage && !(recording.transcript && recording.detectedLanguage)) {
+      recording.detectedLanguage = detectedLanguage;
+    }
+    
+    if (recording.transcript && recording.transcribedParts !== undefined) {
+      const merged = [recording.transcript, transcript].filter(text => text && text.trim()).join('\n\n');
+      await this.updateRecordingTranscript(
+        id,
+        merged,
+        [...(recording.transcriptSegments || []), ...transcriptSegments],
+        'machine'
+      );
+    } else {
+      await this.updateRecordingTranscript(id, transcript, transcriptSegments, 'machine');
+    }
+    
+    return recording;
+  }
+  
+  /**
+   * Make an earlier revision the current transcript again. The revert is
+   * saved as a revision of its own, so it can be undone the same way.
+   */
+  public async revertTranscript(id: string, versionId: string): Promise<Recording> {
+    const recording = this.recordings.find(rec => rec.id === id);
+    if (!recording) {
+      throw new Error('Recording not found');
+    }
+    
+    const versions = getTranscriptVersions(recording);
+    const version = versions.find(item => item.id === versionId);
+    if (!version) {
+      throw new Error('Transcript version not found');
+    }
+    
+    // Timings come from the latest machine revision up to the one restored
+    const timed = versions
+      .slice(0, versions.indexOf(version) + 1)
+      .reverse()
+      .find(item => item.segments);
+    
+    this.addTranscriptVersion(recording, {
+      id: generateSecureId('ver'),
+      text: version.text,
+      source: 'revert',
+      createdAt: new Date().toISOString(),
+      revertedFrom: version.id,
+    });
+    
+    recording.transcript = version.text;
+    if (timed && timed.segments) {
+      recording.transcriptSegments = timed.segments;
+    }
+    delete recording.transcribedParts;
+    
+    // Save changes
+    await this.saveRecordings();
+    
+    return recording;
+  }
+  
+  // Append a revision, dropping the oldest ones (but never the first) past the limit
+  private addTranscriptVersion(recording: Recording, version: TranscriptVersion): void {
+    const versions = [...getTranscriptVersions(recording), version];
+    recording.transcriptVersions = versions.length > MAX_TRANSCRIPT_VERSIONS
+      ? [versions[0], ...versions.slice(versions.length - MAX_TRANSCRIPT_VERSIONS + 1)]
+      : versions;
+  }
+  
+  /**
+   * Choose the prompt template tasks are extracted from this recording with,
+   * or clear it to use the default from Settings
+   */
+  public async setRecordingPromptTemplate(id: string, templateId?: string): Promise<Recording> {
+    const recording = this.recordings.find(rec => rec.id === id);
+    if (!recording) {
+      throw new Error('Recording not found');
+    }
+    
+    if (templateId) {
+      recording.promptTemplateId = templateId;
+    } else {
+      delete recording.promptTemplateId;
+    }
     
     // Save changes
     await this.saveRecordings();
+    
+    return recording;
   }
   
   /**
-   * Mark a recording as processed
+   * Set the spoken language of a recording. With retranscribe, the transcript
+   * is cleared so the whole recording is transcribed again in that language.
    */
-  public async markRecordingAsProcessed(id: string): Promise<void> {
+  public async setRecordingLanguage(id: string, language: string, retranscribe: boolean = false): Promise<Recording> {
+    const recording = this.recordings.find(rec => rec.id === id);
+    if (!recording) {
+      throw new Error('Recording not found');
+    }
+    
+    recording.language = language;
+    if (retranscribe) {
+      // Keep the replaced transcript in the history
+      recording.transcriptVersions = getTranscriptVersions(recording);
+      recording.transcript = null;
+      delete recording.transcriptSegments;
+      delete recording.transcribedParts;
+      delete recording.detectedLanguage;
+      recording.processed = false;
+    }
+    
+    // Save changes
+    await this.saveRecordings();
+    
+    return recording;
+  }
+  
+  /**
+   * Add newly recorded segments to the end of a recording. The existing
+   * transcript is kept and only the new parts need transcribing.
+   */
+  public async appendToRecording(id: string, continuation: RecordingContinuation): Promise<Recording> {
+    const recording = this.recordings.find(rec => rec.id === id);
+    if (!recording) {
+      throw new Error('Recording not found');
+    }
+    if (continuation.segments.length === 0) {
+      throw new Error('Nothing was recorded to add');
+    }
+    
+    const existingSegments = getRecordingSegments(recording);
+    const offset = recording.duration;
+    const addedDuration = continuation.segments.reduce((total, segment) => total + segment.duration, 0);
+    const addedSize = continuation.segments.reduce((total, segment) => total + segment.size, 0);
+    
+    if (recording.transcript && recording.transcribedParts === undefined) {
+      recording.transcribedParts = existingSegments.length;
+    }
+    
+    recording.segments = [...existingSegments, ...continuation.segments];
+    recording.waveform = appendEnvelope(
+      recording.waveform || [],
+      recording.duration,
+      continuation.waveform,
+      addedDuration
+    );
+    
+    // Times in the new part are relative to its own start
+    if (continuation.silentRanges.length > 0) {
+      recording.silentRanges = [
+        ...(recording.silentRanges || []),
+        ...continuation.silentRanges.map(range => ({ start: range.start + offset, end: range.end + offset })),
+      ];
+    }
+    if (continuation.bookmarks.length > 0) {
+      recording.bookmarks = [
+        ...(recording.bookmarks || []),
+        ...continuation.bookmarks.map(bookmark => ({ ...bookmark, time: bookmark.time + offset })),
+      ];
+    }
+    
+    recording.duration = offset + addedDuration;
+    recording.fileSize = (recording.fileSize || 0) + addedSize;
+    
+    // Tasks need extracting again once the new part is transcribed
+    recording.processed = false;
+    
+    // Save changes
+    await this.saveRecordings();
+    
+    return recording;
+  }
+  
+  /**
+   * Mark a recording as processed, noting the transcript version its tasks came from
+   */
+  public async markRecordingAsProcessed(id: string, extractedVersionId?: string): Promise<void> {
     const recording = this.recordings.find(rec => rec.id === id);
     if (!recording) {
       throw new Error('Recording not found');
     }
     
     recording.processed = true;
+    if (extractedVersionId) {
+      recording.extractedVersionId = extractedVersionId;
+    }
+    
+    // Save changes
+    await this.saveRecordings();
+  }
+  
+  /**
+   * Rename a recording
+   */
+  public async renameRecording(id: string, title: string): Promise<void> {
+    const recording = this.recordings.find(rec => rec.id === id);
+    if (!recording) {
+      throw new Error('Recording not found');
+    }
+    
+    const trimmedTitle = title.trim();
+    if (!trimmedTitle) {
+      throw new Error('Recording title cannot be empty');
+    }
+    
+    recording.title = trimmedTitle;
+    
+    // Save changes
+    await this.saveRecordings();
+  }
+  
+  /**
+   * Duplicate a recording, including a copy of its audio files
+   */
+  public async duplicateRecording(id: string): Promise<string> {
+    const recording = this.recordings.find(rec => rec.id === id);
+    if (!recording) {
+      throw new Error('Recording not found');
+    }
+    
+    const newId = generateSecureId('rec');
+    const directory = `${RECORDINGS_DIRECTORY}${newId}/`;
+    const segments = getRecordingSegments(recording);
+    const copiedSegments: RecordingSegment[] = [];
+    
+    // Mock recordings have no file to copy
+    const isMock = (segment: RecordingSegment) => segment.uri.startsWith('file:///mock/');
+    if (!segments.every(isMock)) {
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    }
+    
+    for (const segment of segments) {
+      if (isMock(segment)) {
+        copiedSegments.push({ ...segment });
+        continue;
+      }
+      
+      const fileName = segment.uri.substring(segment.uri.lastIndexOf('/') + 1);
+      const uri = `${directory}${fileName}`;
+      await FileSystem.copyAsync({ from: segment.uri, to: uri });
+      copiedSegments.push({ ...segment, uri });
+    }
+    
+    // The copy gets its own tasks once it is processed
+    const copy: Recording = {
+      ...recording,
+      id: newId,
+      title: `${recording.title} (copy)`,
+      date: new Date().toISOString(),
+      audioUri: copiedSegments[0].uri,
+      processed: false,
+      extractedVersionId: undefined,
+    };
+    
+    if (recording.segments) {
+      copy.segments = copiedSegments;
+    }
+    
+    return this.addRecording(copy);
+  }
+  
+  /**
+   * Delete a recording along with its audio files and extracted tasks
+   */
+  public async deleteRecording(id: string): Promise<void> {
+    const recording = this.recordings.find(rec => rec.id === id);
+    if (!recording) {
+      throw new Error('Recording not found');
+    }
+    
+    // Remove audio files
+    const directories = new Set<string>();
+    for (const segment of getRecordingSegments(recording)) {
+      if (segment.uri.startsWith('file:///mock/')) continue;
+      
+      try {
+        await FileSystem.deleteAsync(segment.uri, { idempotent: true });
+        directories.add(segment.uri.substring(0, segment.uri.lastIndexOf('/') + 1));
+      } catch (error) {
+        console.error('Failed to delete recording audio', segment.uri, error);
+      }
+    }
+    
+    // Remove session directories that are now empty
+    for (const directory of directories) {
+      if (!directory.startsWith(RECORDINGS_DIRECTORY) || directory === RECORDINGS_DIRECTORY) continue;
+      
+      try {
+        const remaining = await FileSystem.readDirectoryAsync(directory);
+        if (remaining.length === 0) {
+          await FileSystem.deleteAsync(directory, { idempotent: true });
+        }
+      } catch (error) {
+        console.error('Failed to clean up recording directory', directory, error);
+      }
+    }
+    
+    // Remove tasks extracted from this recording
+    await taskService.deleteTasksByRecordingId(id);
+    
+    this.recordings = this.recordings.filter(rec => rec.id !== id);
     
     // Save changes
     await this.saveRecordings();
@@ -0,0 +1,243 @@
+// src/services/search-service.ts
+import { logger } from '../config';
+import { tokenizeForSearch, findMatches, buildSnippet, SnippetPart } from '../utils/search-text';
+import { recordingService } from './recording-service';
+import { taskService, Task } from './task-service';
+
+// Types
+export type SearchResultKind = 'recording' | 'task';
+
+export interface SearchResult {
+  kind: SearchResultKind;
+  recordingId: string;
+  taskId?: string;
+  title: string;
+  date: string | null;
+  snippet: SnippetPart[];
+  score: number;
+}
+
+// A searchable piece of text in a document; matches in the title count for more
+interface IndexedField {
+  text: string;
+  weight: number;
+}
+
+// A recording or task in the index
+interface IndexedDocument {
+  key: string;
+  kind: SearchResultKind;
+  recordingId: string;
+  taskId?: string;
+  title: string;
+  date: string | null;
+  fields: IndexedField[];
+  signature: string; // all field text, to tell when the document needs reindexing
+}
+
+// How much a match counts for, by where it is
+const TITLE_WEIGHT = 3;
+const TASK_WEIGHT = 2;
+const TRANSCRIPT_WEIGHT = 1;
+
+// Most results returned for one search
+const MAX_RESULTS = 50;
+
+class SearchService {
+  private documents = new Map<string, IndexedDocument>();
+  // term -> document key -> weighted number of times the term appears
+  private postings = new Map<string, Map<string, number>>();
+  private stale = true;
+  private listeners = new Set<() => void>();
+  private readonly loaded: Promise<void>;
+
+  constructor() {
+    // Reindex lazily, on the next search after anything changes
+    this.loaded = Promise.all([recordingService.whenLoaded(), taskService.whenLoaded()]).then(() => undefined);
+    recordingService.subscribe(() => this.markStale());
+    taskService.subscribe(() => this.markStale());
+  }
+
+  /**
+   * Listen for changes that may change search results. Returns a function that stops listening.
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private markStale(): void {
+    this.stale = true;
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Find recordings and tasks containing every word of the query. The last
+   * word may be partly typed, so words are matched by how they start.
+   */
+  public async search(query: string): Promise<SearchResult[]> {
+    await this.loaded;
+    if (this.stale) {
+      this.syncIndex();
+    }
+
+    const queryTerms = Array.from(new Set(tokenizeForSearch(query).map(token => token.term)));
+    if (queryTerms.length === 0) {
+      return [];
+    }
+
+    // Score documents that match every query term
+    let scores: Map<string, number> | null = null;
+    for (const queryTerm of queryTerms) {
+      const termScores = new Map<string, number>();
+      this.postings.forEach((documents, term) => {
+        if (!term.startsWith(queryTerm)) return;
+        // A whole-word match counts double a prefix match
+        const boost = term === queryTerm ? 2 : 1;
+        documents.forEach((count, key) => {
+          termScores.set(key, (termScores.get(key) || 0) + count * boost);
+        });
+      });
+
+      const previous: Map<string, number> | null = scores;
+      scores = new Map();
+      termScores.forEach((score, key) => {
+        if (previous === null || previous.has(key)) {
+          scores!.set(key, score + (previous ? previous.get(key)! : 0));
+        }
+      });
+      if (scores.size === 0) {
+        return [];
+      }
+    }
+
+    const results: SearchResult[] = [];
+    scores!.forEach((score, key) => {
+      const document = this.documents.get(key);
+      if (!document) return;
+
+      // Show the snippet from the first field with a match, the transcript before the title
+      const fields = [...document.fields].sort((a, b) => a.weight - b.weight);
+      const field = fields.find(item => findMatches(item.text, queryTerms).length > 0) || fields[0];
+
+      results.push({
+        kind: document.kind,
+        recordingId: document.recordingId,
+        taskId: document.taskId,
+        title: document.title,
+        date: document.date,
+        snippet: buildSnippet(field.text, findMatches(field.text, queryTerms)),
+        score,
+      });
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score || (b.date ? new Date(b.date).getTime() : 0) - (a.date ? new Date(a.date).getTime() : 0))
+      .slice(0, MAX_RESULTS);
+  }
+
+  /**
+   * Bring the index up to date, reindexing only documents that changed
+   */
+  private syncIndex(): void {
+    const current = new Map<string, IndexedDocument>();
+
+    for (const recording of recordingService.getRecordings()) {
+      const fields = [{ text: recording.title, weight: TITLE_WEIGHT }];
+      if (recording.transcript) {
+        fields.push({ text: recording.transcript, weight: TRANSCRIPT_WEIGHT });
+      }
+      this.addDocument(current, {
+        key: `recording:${recording.id}`,
+        kind: 'recording',
+        recordingId: recording.id,
+        title: recording.title,
+        date: recording.date,
+        fields,
+      });
+    }
+
+    const { tasks, completedTasks } = taskService.getAllTasks();
+    [...tasks, ...completedTasks].forEach((task: Task) => {
+      const subTasks = (task.subTasks || []).map(subTask => subTask.title).join('\n');
+      this.addDocument(current, {
+        key: `task:${task.id}`,
+        kind: 'task',
+        recordingId: task.recordingId,
+        taskId: task.id,
+        title: task.title,
+        date: task.date,
+        fields: subTasks
+          ? [{ text: task.title, weight: TASK_WEIGHT }, { text: subTasks, weight: TRANSCRIPT_WEIGHT }]
+          : [{ text: task.title, weight: TASK_WEIGHT }],
+      });
+    });
+
+    let changed = 0;
+    this.documents.forEach((document, key) => {
+      const next = current.get(key);
+      if (!next || next.signature !== document.signature) {
+        this.unindex(document);
+        this.documents.delete(key);
+      }
+    });
+    current.forEach((document, key) => {
+      if (!this.documents.has(key)) {
+        this.index(document);
+        changed++;
+      }
+      // Keep the latest title and date even when the text is unchanged
+      this.documents.set(key, document);
+    });
+
+    this.stale = false;
+    logger.debug('Search index updated', { documents: this.documents.size, reindexed: changed });
+  }
+
+  // Add a document to a set, noting its text so changes can be spotted
+  private addDocument(
+    documents: Map<string, IndexedDocument>,
+    document: Omit<IndexedDocument, 'signature'>
+  ): void {
+    documents.set(document.key, {
+      ...document,
+      signature: document.fields.map(field => field.text).join('\u0000'),
+    });
+  }
+
+  // Count each term of a document, weighted by the field it is in
+  private countTerms(document: IndexedDocument): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const field of document.fields) {
+      for (const token of tokenizeForSearch(field.text)) {
+        counts.set(token.term, (counts.get(token.term) || 0) + field.weight);
+      }
+    }
+    return counts;
+  }
+
+  private index(document: IndexedDocument): void {
+    this.countTerms(document).forEach((count, term) => {
+      const documents = this.postings.get(term) || new Map<string, number>();
+      documents.set(document.key, count);
+      this.postings.set(term, documents);
+    });
+  }
+
+  private unindex(document: IndexedDocument): void {
+    this.countTerms(document).forEach((_count, term) => {
+      const documents = this.postings.get(term);
+      if (!documents) return;
+      documents.delete(document.key);
+      if (documents.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+  }
+}
+
+// Export a singleton instance
+export const searchService = new SearchService();
+export default searchService;
@@ -0,0 +1,155 @@
+// src/services/settings-service.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { logger, ENV } from '../config';
+import { RecordingQualityProfileId, DEFAULT_RECORDING_QUALITY_PROFILE } from '../config/recording-profiles';
+import { AUTO_DETECT_LANGUAGE, DEFAULT_OUTPUT_LANGUAGE } from '../config/languages';
+import { BUILT_IN_TEMPLATE_ID } from '../config/prompt-templates';
+import { TranscriptionProviderId } from './transcription-providers';
+
+// Types
+export interface VoiceActivitySettings {
+  enabled: boolean;
+  threshold: number; // normalized level (0-1) below which audio counts as silence
+  minSilenceSeconds: number; // shortest pause that is marked as silence
+  autoStopSeconds: number; // stop recording after this much silence, 0 to never stop
+}
+
+export interface RecordingSettings {
+  qualityProfile: RecordingQualityProfileId;
+}
+
+export interface TranscriptionSettings {
+  provider: TranscriptionProviderId;
+  openaiBaseUrl: string; // base URL of the OpenAI-compatible API
+  whisperCppUrl: string; // address of a whisper.cpp server, e.g. http://192.168.1.20:8080
+}
+
+export interface LanguageSettings {
+  spokenLanguage: string; // ISO 639-1 code, or 'auto' to detect it; recordings can override it
+  translateToEnglish: boolean; // translate transcripts to English before extracting tasks
+  outputLanguage: string; // ISO 639-1 code tasks are written in
+}
+
+export interface CleanupSettings {
+  enabled: boolean; // clean up stutters, filler words and punctuation after transcription
+  useClaude: boolean; // also have Claude tidy the sentences, after the local pass
+}
+
+export interface PromptSettings {
+  templateId: string; // prompt template tasks are extracted with, unless a vent has its own
+}
+
+export interface AppSettings {
+  voiceActivity: VoiceActivitySettings;
+  recording: RecordingSettings;
+  transcription: TranscriptionSettings;
+  language: LanguageSettings;
+  cleanup: CleanupSettings;
+  prompt: PromptSettings;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  voiceActivity: {
+    enabled: true,
+    threshold: 0.25,
+    minSilenceSeconds: 10, // shorter pauses are part of talking, and splitting on them loses context
+    autoStopSeconds: 30,
+  },
+  recording: {
+    qualityProfile: DEFAULT_RECORDING_QUALITY_PROFILE,
+  },
+  transcription: {
+    provider: ENV.ENVIRONMENT === 'production' ? 'openai' : 'mock',
+    openaiBaseUrl: ENV.OPENAI_API_URL,
+    whisperCppUrl: '',
+  },
+  language: {
+    spokenLanguage: AUTO_DETECT_LANGUAGE,
+    translateToEnglish: false,
+    outputLanguage: DEFAULT_OUTPUT_LANGUAGE,
+  },
+  cleanup: {
+    enabled: true,
+    useClaude: false,
+  },
+  prompt: {
+    templateId: BUILT_IN_TEMPLATE_ID,
+  },
+};
+
+const SETTINGS_STORAGE_KEY = '@janaru_settings';
+
+class SettingsService {
+  private settings: AppSettings = DEFAULT_SETTINGS;
+  private readonly loaded: Promise<void>;
+
+  constructor() {
+    // Load settings from storage on initialization
+    this.loaded = this.loadSettings();
+  }
+
+  /**
+   * Load settings from local storage, filling in defaults for anything missing
+   */
+  private async loadSettings(): Promise<void> {
+    try {
+      const settingsString = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+      if (settingsString) {
+        const stored = JSON.parse(settingsString);
+        this.settings = {
+          voiceActivity: { ...DEFAULT_SETTINGS.voiceActivity, ...stored.voiceActivity },
+          recording: { ...DEFAULT_SETTINGS.recording, ...stored.recording },
+          transcription: { ...DEFAULT_SETTINGS.transcription, ...stored.transcription },
+          language: { ...DEFAULT_SETTINGS.language, ...stored.language },
+          cleanup: { ...DEFAULT_SETTINGS.cleanup, ...stored.cleanup },
+          prompt: { ...DEFAULT_SETTINGS.prompt, ...stored.prompt },
+        };
+      }
+    } catch (error) {
+      logger.error('Failed to load settings from storage', error);
+    }
+  }
+
+  /**
+   * Save settings to local storage
+   */
+  private async saveSettings(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      logger.error('Failed to save settings to storage', error);
+    }
+  }
+
+  /**
+   * Get the current settings
+   */
+  public async getSettings(): Promise<AppSettings> {
+    await this.loaded;
+    return this.settings;
+  }
+
+  /**
+   * Update one group of settings
+   */
+  public async updateSettings<K extends keyof AppSettings>(
+    key: K,
+    updates: Partial<AppSettings[K]>
+  ): Promise<AppSettings> {
+    await this.loaded;
+
+    this.settings = {
+      ...this.settings,
+      [key]: { ...this.settings[key], ...updates },
+    };
+
+    await this.saveSettings();
+    logger.debug('Settings updated', { key });
+
+    return this.settings;
+  }
+}
+
+// Export a singleton instance
+export const settingsService = new SettingsService();
+export default settingsService;
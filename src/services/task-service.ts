@@ -1,15 +1,25 @@
 // src/services/task-service.ts
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { claudeApiService } from './claude-api-service';
+import { claudeApiService, TranscriptHighlight, TaskStreamOptions } from './claude-api-service';
 import { googleCalendarService } from './google-calendar-service';
+import { settingsService } from './settings-service';
+import { vocabularyService } from './vocabulary-service';
+import { promptTemplateService, PromptTemplateRef } from './prompt-template-service';
 import { logger } from '../config';
 import { generateSecureId } from '../utils/encryption';
+import { applyVocabulary } from '../utils/vocabulary';
+import { TaskDateReview } from '../utils/relative-dates';
+import { matchTasks } from '../utils/task-matching';
+import { TaskPriority, DEFAULT_PRIORITY, isTaskPriority, getPriorityLevel } from '../config/priorities';
+import { clampScore, scoresForPriority, sortByPriority } from '../utils/task-priority';
 
 // Types
 export interface Task {
   id: string;
   title: string;
-  priority: 'high' | 'medium';
+  priority: TaskPriority;
+  urgency: number; // from 1 to 5, how soon it has to happen
+  importance: number; // from 1 to 5, how much it matters
   date: string | null;
   time: string | null;
   duration: number; // in minutes
@@ -17,8 +27,16 @@ export interface Task {
   recordingId: string;
   subTasks?: SubTask[];
   calendarEventId?: string;
+  dateReview?: TaskDateReview; // set when the date may be wrong and the user should check it
+  editedFields?: EditableTaskField[]; // fields the user changed, which re-extracting leaves alone
+  promptTemplate?: PromptTemplateRef; // the prompt template version the task was extracted with
 }
 
+// Fields of a task that re-extracting can change, unless the user already has
+export type EditableTaskField = 'title' | 'priority' | 'urgency' | 'importance' | 'date' | 'time' | 'duration';
+
+const EDITABLE_FIELDS: EditableTaskField[] = ['title', 'priority', 'urgency', 'importance', 'date', 'time', 'duration'];
+
 interface SubTask {
   id: string;
   title: string;
@@ -26,19 +44,96 @@ interface SubTask {
 }
 
 export interface ProcessTranscriptResponse {
-  highPriorityTasks: Task[];
-  mediumPriorityTasks: Task[];
+  tasks: Task[]; // the recording's tasks that aren't completed, most pressing first
+  changeset?: TaskChangeset | null; // set when the recording already had tasks
+}
+
+// Tasks ready to show: the ones still to do by priority, and the completed ones
+export interface TaskList {
+  tasks: Task[]; // most pressing first
+  completedTasks: Task[]; // in the order they were completed
+}
+
+// One task in a changeset, with what happened to it
+export interface TaskChange {
+  taskId: string;
+  title: string;
+  details?: string[]; // e.g. 'Date changed from 2026-10-21 to 2026-10-22'
+}
+
+// What re-extracting a recording's tasks changed, for the user to review
+export interface TaskChangeset {
+  recordingId: string;
+  createdAt: string;
+  added: TaskChange[];
+  updated: TaskChange[];
+  proposedRemovals: TaskChange[]; // no longer extracted, but kept until the user removes them
+}
+
+// Stored tasks, with the version of their shape
+interface StoredTasks {
+  version: number;
+  tasks: Task[];
+}
+
+const TASKS_STORAGE_KEY = '@janaru_tasks';
+const CHANGESETS_STORAGE_KEY = '@janaru_task_changesets';
+
+// Raise when the shape of stored tasks changes, and migrate older data in loadTasks
+const TASKS_STORAGE_VERSION = 2;
+
+// Before priority levels, tasks were kept in a list per priority and one for completed tasks
+const LEGACY_TASK_KEYS = {
+  high: '@janaru_high_priority_tasks',
+  medium: '@janaru_medium_priority_tasks',
+  completed: '@janaru_completed_tasks',
+};
+
+/**
+ * Make sure a stored task has a known priority and scores in range
+ */
+function withPriority(task: Task): Task {
+  const priority = isTaskPriority(task.priority) ? task.priority : DEFAULT_PRIORITY;
+  const scores = scoresForPriority(priority);
+  return {
+    ...task,
+    priority,
+    urgency: clampScore(task.urgency, scores.urgency),
+    importance: clampScore(task.importance, scores.importance)
+  };
 }
 
 class TaskService {
-  // Task cache
-  private highPriorityTasks: Task[] = [];
-  private mediumPriorityTasks: Task[] = [];
-  private completedTasks: Task[] = [];
+  // Task cache: every task, completed or not
+  private tasks: Task[] = [];
+  private changesets: Record<string, TaskChangeset> = {}; // by recording ID
+  private listeners = new Set<() => void>();
+  private readonly loaded: Promise<void>;
   
   constructor() {
     // Load tasks from storage on initialization
-    this.loadTasks();
+    this.loaded = this.loadTasks();
+  }
+  
+  /**
+   * Resolve once tasks have been loaded from storage
+   */
+  public whenLoaded(): Promise<void> {
+    return this.loaded;
+  }
+  
+  /**
+   * Listen for any change to the tasks. Returns a function that stops listening.
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+  
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
   }
   
   /**
@@ -46,79 +141,135 @@ class TaskService {
    */
   private async loadTasks(): Promise<void> {
     try {
-      // Load high priority tasks
-      const highPriorityString = await AsyncStorage.getItem('@janaru_high_priority_tasks');
-      if (highPriorityString) {
-        this.highPriorityTasks = JSON.parse(highPriorityString);
-      }
-      
-      // Load medium priority tasks
-      const mediumPriorityString = await AsyncStorage.getItem('@janaru_medium_priority_tasks');
-      if (mediumPriorityString) {
-        this.mediumPriorityTasks = JSON.parse(mediumPriorityString);
+      // Load tasks, or move them over from the lists they were kept in before
+      const tasksString = await AsyncStorage.getItem(TASKS_STORAGE_KEY);
+      if (tasksString) {
+        const stored: StoredTasks = JSON.parse(tasksString);
+        this.tasks = stored.tasks.map(withPriority);
+      } else {
+        await this.migrateLegacyTasks();
       }
       
-      // Load completed tasks
-      const completedString = await AsyncStorage.getItem('@janaru_completed_tasks');
-      if (completedString) {
-        this.completedTasks = JSON.parse(completedString);
+      // Load changesets waiting for review
+      const changesetsString = await AsyncStorage.getItem(CHANGESETS_STORAGE_KEY);
+      if (changesetsString) {
+        this.changesets = JSON.parse(changesetsString);
       }
       
       logger.info('Tasks loaded from storage', {
-        highPriority: this.highPriorityTasks.length,
-        mediumPriority: this.mediumPriorityTasks.length,
-        completed: this.completedTasks.length
+        active: this.tasks.filter(task => !task.completed).length,
+        completed: this.tasks.filter(task => task.completed).length
       });
     } catch (error) {
       logger.error('Failed to load tasks from storage', error);
     }
   }
   
+  /**
+   * Move tasks from the high, medium and completed lists into the single task
+   * list. Each gets the priority of the list it was in and that level's scores.
+   * The old lists are only removed once the tasks are saved the new way.
+   */
+  private async migrateLegacyTasks(): Promise<void> {
+    const [highString, mediumString, completedString] = await Promise.all([
+      AsyncStorage.getItem(LEGACY_TASK_KEYS.high),
+      AsyncStorage.getItem(LEGACY_TASK_KEYS.medium),
+      AsyncStorage.getItem(LEGACY_TASK_KEYS.completed)
+    ]);
+    if (!highString && !mediumString && !completedString) return;
+    
+    const parse = (value: string | null): Task[] => (value ? JSON.parse(value) : []);
+    this.tasks = [
+      ...parse(highString).map(task => withPriority({ ...task, priority: 'high' })),
+      ...parse(mediumString).map(task => withPriority({ ...task, priority: 'medium' })),
+      ...parse(completedString).map(task => withPriority({ ...task, completed: true }))
+    ];
+    
+    const stored: StoredTasks = { version: TASKS_STORAGE_VERSION, tasks: this.tasks };
+    await AsyncStorage.setItem(TASKS_STORAGE_KEY, JSON.stringify(stored));
+    await AsyncStorage.multiRemove(Object.values(LEGACY_TASK_KEYS));
+    
+    logger.info('Tasks migrated to priority levels', { tasks: this.tasks.length });
+  }
+  
   /**
    * Save tasks to local storage
    */
   private async saveTasks(): Promise<void> {
     try {
-      // Save high priority tasks
-      await AsyncStorage.setItem('@janaru_high_priority_tasks', JSON.stringify(this.highPriorityTasks));
-      
-      // Save medium priority tasks
-      await AsyncStorage.setItem('@janaru_medium_priority_tasks', JSON.stringify(this.mediumPriorityTasks));
+      // Save tasks
+      const stored: StoredTasks = { version: TASKS_STORAGE_VERSION, tasks: this.tasks };
+      await AsyncStorage.setItem(TASKS_STORAGE_KEY, JSON.stringify(stored));
       
-      // Save completed tasks
-      await AsyncStorage.setItem('@janaru_completed_tasks', JSON.stringify(this.completedTasks));
+      // Save changesets waiting for review
+      await AsyncStorage.setItem(CHANGESETS_STORAGE_KEY, JSON.stringify(this.changesets));
       
       logger.debug('Tasks saved to storage');
     } catch (error) {
       logger.error('Failed to save tasks to storage', error);
     }
+    this.notify();
   }
   
   /**
-   * Process a transcript to extract and prioritize tasks
+   * Process a transcript to extract and prioritize tasks.
+   * Highlights are moments the user marked as important while recording.
+   * The spoken language, if known, is used when translating to English first.
+   * The recording's own prompt template is used if it has one.
+   * Stream options show tasks as they are extracted, before they are saved.
    */
-  public async processTranscript(transcript: string, recordingId: string): Promise<ProcessTranscriptResponse> {
+  public async processTranscript(
+    transcript: string,
+    recordingId: string,
+    highlights: TranscriptHighlight[] = [],
+    spokenLanguage?: string,
+    promptTemplateId?: string,
+    stream?: TaskStreamOptions
+  ): Promise<ProcessTranscriptResponse> {
+    // Reconciling against tasks that aren't loaded yet would duplicate every one of them
+    await this.loaded;
+    
     try {
-      logger.info('Processing transcript', { recordingId, transcriptLength: transcript.length });
+      const { language } = await settingsService.getSettings();
+      const vocabulary = await vocabularyService.getTerms();
+      const template = await promptTemplateService.resolveTemplate(promptTemplateId);
+      const translate = language.translateToEnglish && spokenLanguage !== 'en';
+      
+      logger.info('Processing transcript', {
+        recordingId,
+        transcriptLength: transcript.length,
+        highlights: highlights.length,
+        spokenLanguage,
+        translate,
+        outputLanguage: language.outputLanguage,
+        promptTemplate: template.ref
+      });
+      
+      const text = translate
+        ? await claudeApiService.translateTranscript(transcript, spokenLanguage)
+        : transcript;
       
       // Use Claude API to extract tasks
-      const response = await claudeApiService.processTranscript(transcript, recordingId);
+      const response = await claudeApiService.processTranscript(text, recordingId, highlights, {
+        outputLanguage: language.outputLanguage,
+        vocabulary: vocabulary.map(term => term.term),
+        promptTemplate: template.body
+      }, stream && {
+        ...stream,
+        onTask: task => stream.onTask?.({ ...task, title: applyVocabulary(task.title, vocabulary) })
+      });
       
-      // Ensure all tasks have IDs and completed status
-      response.highPriorityTasks.forEach(task => {
-        if (!task.id) task.id = generateSecureId('task');
-        task.completed = false;
-        
-        // Ensure all subtasks have IDs
-        if (task.subTasks) {
-          task.subTasks.forEach(subTask => {
-            if (!subTask.id) subTask.id = generateSecureId('subtask');
-            subTask.completed = false;
-          });
-        }
+      // Correct any misspelled names that made it into titles, and note the template used
+      response.tasks.forEach(task => {
+        task.promptTemplate = template.ref;
+        task.title = applyVocabulary(task.title, vocabulary);
+        task.subTasks?.forEach(subTask => {
+          subTask.title = applyVocabulary(subTask.title, vocabulary);
+        });
       });
       
-      response.mediumPriorityTasks.forEach(task => {
+      // Ensure all tasks have IDs and completed status
+      response.tasks.forEach(task => {
         if (!task.id) task.id = generateSecureId('task');
         task.completed = false;
         
@@ -131,29 +282,175 @@ class TaskService {
         }
       });
       
-      // Remove any existing tasks for this recording to prevent duplicates
-      this.highPriorityTasks = this.highPriorityTasks.filter(task => task.recordingId !== recordingId);
-      this.mediumPriorityTasks = this.mediumPriorityTasks.filter(task => task.recordingId !== recordingId);
+      // Tasks already extracted from this recording are updated rather than replaced,
+      // so completed tasks, calendar events and the user's edits survive
+      const existing = this.tasks.filter(task => task.recordingId === recordingId);
       
-      // Add the new tasks
-      this.highPriorityTasks = [...this.highPriorityTasks, ...response.highPriorityTasks];
-      this.mediumPriorityTasks = [...this.mediumPriorityTasks, ...response.mediumPriorityTasks];
+      let changeset: TaskChangeset | null = null;
+      if (existing.length === 0) {
+        this.tasks = [...this.tasks, ...response.tasks];
+      } else {
+        changeset = this.reconcileTasks(recordingId, existing, response.tasks);
+      }
       
       // Save to storage
       await this.saveTasks();
       
       logger.info('Transcript processed successfully', {
-        highPriorityTasks: response.highPriorityTasks.length,
-        mediumPriorityTasks: response.mediumPriorityTasks.length
+        tasks: response.tasks.length,
+        added: changeset ? changeset.added.length : undefined,
+        updated: changeset ? changeset.updated.length : undefined,
+        proposedRemovals: changeset ? changeset.proposedRemovals.length : undefined
       });
       
-      return response;
+      return { tasks: this.getTasksByRecordingId(recordingId).tasks, changeset };
     } catch (error) {
+      // Passed on as is, so callers can tell an API key problem from an outage
       logger.error('Failed to process transcript', error);
-      throw new Error('Failed to extract tasks from transcript');
+      throw error;
     }
   }
   
+  /**
+   * Match re-extracted tasks to the recording's existing ones, update the
+   * matches, add the rest, and note tasks that are gone as proposed removals
+   */
+  private reconcileTasks(recordingId: string, existing: Task[], incoming: Task[]): TaskChangeset | null {
+    const { matches, unmatchedExisting, unmatchedIncoming } = matchTasks(existing, incoming);
+    
+    const updated: TaskChange[] = [];
+    matches.forEach(({ existingIndex, incomingIndex }) => {
+      const task = existing[existingIndex];
+      const details = this.mergeTask(task, incoming[incomingIndex]);
+      if (details.length > 0) {
+        updated.push({ taskId: task.id, title: task.title, details });
+      }
+    });
+    
+    const added = unmatchedIncoming.map(index => incoming[index]);
+    this.tasks = [...this.tasks, ...added];
+    
+    // Completed tasks stay as a record of what was done, even if they aren't mentioned any more
+    const proposedRemovals = unmatchedExisting
+      .map(index => existing[index])
+      .filter(task => !task.completed)
+      .map(task => ({ taskId: task.id, title: task.title }));
+    
+    if (added.length === 0 && updated.length === 0 && proposedRemovals.length === 0) {
+      delete this.changesets[recordingId];
+      return null;
+    }
+    
+    const changeset: TaskChangeset = {
+      recordingId,
+      createdAt: new Date().toISOString(),
+      added: added.map(task => ({ taskId: task.id, title: task.title })),
+      updated,
+      proposedRemovals
+    };
+    this.changesets[recordingId] = changeset;
+    return changeset;
+  }
+  
+  /**
+   * Update an existing task from its re-extracted version, keeping whether it
+   * and its steps are done, its calendar event and anything the user edited.
+   * Returns what changed.
+   */
+  private mergeTask(task: Task, incoming: Task): string[] {
+    const edited = new Set(task.editedFields || []);
+    const details: string[] = [];
+    task.promptTemplate = incoming.promptTemplate;
+    
+    if (!edited.has('title') && incoming.title !== task.title) {
+      details.push(`Title changed from "${task.title}"`);
+      task.title = incoming.title;
+    }
+    
+    if (!edited.has('priority') && incoming.priority !== task.priority) {
+      details.push(`Priority changed from ${getPriorityLevel(task.priority).label} to ${getPriorityLevel(incoming.priority).label}`);
+      task.priority = incoming.priority;
+    }
+    
+    // Scores follow the new extraction without a note, unless the user set them or the priority
+    if (!edited.has('urgency') && !edited.has('priority')) task.urgency = incoming.urgency;
+    if (!edited.has('importance') && !edited.has('priority')) task.importance = incoming.importance;
+    
+    // A task on the calendar keeps its time, so it still matches the event
+    const dateChanged = incoming.date !== task.date || incoming.time !== task.time;
+    if (dateChanged && task.calendarEventId) {
+      details.push('Kept the date of its calendar event');
+    } else if (dateChanged && !edited.has('date') && !edited.has('time')) {
+      const describe = (date: string | null, time: string | null) =>
+        [date, time].filter(Boolean).join(' at ') || 'no date';
+      details.push(`Date changed from ${describe(task.date, task.time)} to ${describe(incoming.date, incoming.time)}`);
+      task.date = incoming.date;
+      task.time = incoming.time;
+      task.dateReview = incoming.dateReview;
+    }
+    
+    if (!edited.has('duration') && incoming.duration !== task.duration) {
+      details.push(`Duration changed from ${task.duration} to ${incoming.duration} minutes`);
+      task.duration = incoming.duration;
+    }
+    
+    // Steps are matched by title, so ticked-off steps stay ticked off
+    const previousSteps = task.subTasks || [];
+    const nextSteps = (incoming.subTasks || []).map(subTask => {
+      const previous = previousSteps.find(step => step.title.toLowerCase() === subTask.title.toLowerCase());
+      return previous || subTask;
+    });
+    const stepsChanged = nextSteps.length !== previousSteps.length ||
+      nextSteps.some((step, index) => step !== previousSteps[index]);
+    if (stepsChanged) {
+      details.push('Steps updated');
+      task.subTasks = nextSteps.length > 0 ? nextSteps : undefined;
+    }
+    
+    return details;
+  }
+  
+  /**
+   * Get the changes from re-extracting a recording's tasks that are waiting for
+   * review, leaving out tasks that have since been deleted
+   */
+  public getChangeset(recordingId: string): TaskChangeset | null {
+    const changeset = this.changesets[recordingId];
+    if (!changeset) return null;
+    
+    const exists = (change: TaskChange) => this.getTaskById(change.taskId) !== null;
+    return {
+      ...changeset,
+      added: changeset.added.filter(exists),
+      updated: changeset.updated.filter(exists),
+      proposedRemovals: changeset.proposedRemovals.filter(exists)
+    };
+  }
+  
+  /**
+   * Remove a task that is no longer extracted, or keep it
+   */
+  public async resolveRemoval(recordingId: string, taskId: string, remove: boolean): Promise<void> {
+    const changeset = this.changesets[recordingId];
+    if (changeset) {
+      changeset.proposedRemovals = changeset.proposedRemovals.filter(change => change.taskId !== taskId);
+    }
+    
+    if (remove) {
+      await this.deleteTask(taskId);
+    } else {
+      await this.saveTasks();
+    }
+  }
+  
+  /**
+   * Close a changeset, keeping any tasks still proposed for removal
+   */
+  public async dismissChangeset(recordingId: string): Promise<void> {
+    delete this.changesets[recordingId];
+    await this.saveTasks();
+  }
+  
   /**
    * Add a single task
    */
@@ -166,12 +463,7 @@ class TaskService {
     // Ensure completed status
     task.completed = task.completed || false;
     
-    // Add to appropriate array based on priority
-    if (task.priority === 'high') {
-      this.highPriorityTasks.push(task);
-    } else {
-      this.mediumPriorityTasks.push(task);
-    }
+    this.tasks.push(withPriority(task));
     
     // Save changes
     await this.saveTasks();
@@ -180,32 +472,23 @@ class TaskService {
   }
   
   /**
-   * Get all tasks grouped by priority
+   * Get all tasks, the ones still to do sorted by priority
    */
-  public getAllTasks(): {
-    highPriorityTasks: Task[];
-    mediumPriorityTasks: Task[];
-    completedTasks: Task[];
-  } {
-    return {
-      highPriorityTasks: this.highPriorityTasks,
-      mediumPriorityTasks: this.mediumPriorityTasks,
-      completedTasks: this.completedTasks
-    };
+  public getAllTasks(): TaskList {
+    return this.toTaskList(this.tasks);
   }
   
   /**
    * Get tasks for a specific recording
    */
-  public getTasksByRecordingId(recordingId: string): {
-    highPriorityTasks: Task[];
-    mediumPriorityTasks: Task[];
-    completedTasks: Task[];
-  } {
+  public getTasksByRecordingId(recordingId: string): TaskList {
+    return this.toTaskList(this.tasks.filter(task => task.recordingId === recordingId));
+  }
+  
+  private toTaskList(tasks: Task[]): TaskList {
     return {
-      highPriorityTasks: this.highPriorityTasks.filter(task => task.recordingId === recordingId),
-      mediumPriorityTasks: this.mediumPriorityTasks.filter(task => task.recordingId === recordingId),
-      completedTasks: this.completedTasks.filter(task => task.recordingId === recordingId)
+      tasks: sortByPriority(tasks.filter(task => !task.completed)),
+      completedTasks: tasks.filter(task => task.completed)
     };
   }
   
@@ -213,30 +496,27 @@ class TaskService {
    * Get a task by ID
    */
   public getTaskById(taskId: string): Task | null {
-    // Check in high priority tasks
-    let task = this.highPriorityTasks.find(t => t.id === taskId);
-    if (task) return task;
-    
-    // Check in medium priority tasks
-    task = this.mediumPriorityTasks.find(t => t.id === taskId);
-    if (task) return task;
-    
-    // Check in completed tasks
-    task = this.completedTasks.find(t => t.id === taskId);
-    if (task) return task;
-    
-    return null;
+    return this.tasks.find(task => task.id === taskId) || null;
   }
   
   /**
-   * Update a task
+   * Update a task. A new priority brings its level's scores, unless scores are given too.
    */
   public async updateTask(taskId: string, updates: Partial<Task>): Promise<Task | null> {
-    let task = this.getTaskById(taskId);
+    const task = this.getTaskById(taskId);
     if (!task) return null;
     
-    // Apply updates
-    Object.assign(task, updates);
+    const changes = updates.priority && updates.urgency === undefined && updates.importance === undefined
+      ? { ...scoresForPriority(updates.priority), ...updates }
+      : updates;
+    
+    // Apply updates, noting which fields the user changed so re-extracting leaves them alone.
+    // Scores filled in from the priority aren't the user's, so they stay unmarked.
+    Object.assign(task, changes);
+    const edited = EDITABLE_FIELDS.filter(field => field in updates);
+    if (edited.length > 0) {
+      task.editedFields = Array.from(new Set([...(task.editedFields || []), ...edited]));
+    }
     
     // Save changes
     await this.saveTasks();
@@ -255,17 +535,9 @@ class TaskService {
         throw new Error('Task not found');
       }
       
-      // Mark as completed
+      // Mark as completed, moving it to the end so completed tasks stay in the order they were done
       task.completed = true;
-      
-      // Move from active lists to completed list
-      if (task.priority === 'high') {
-        this.highPriorityTasks = this.highPriorityTasks.filter(t => t.id !== taskId);
-      } else {
-        this.mediumPriorityTasks = this.mediumPriorityTasks.filter(t => t.id !== taskId);
-      }
-      
-      this.completedTasks.push(task);
+      this.tasks = [...this.tasks.filter(t => t.id !== taskId), task];
       
       // Save changes
       await this.saveTasks();
@@ -339,10 +611,7 @@ class TaskService {
    */
   public async deleteTask(taskId: string): Promise<void> {
     try {
-      // Remove from all task lists
-      this.highPriorityTasks = this.highPriorityTasks.filter(task => task.id !== taskId);
-      this.mediumPriorityTasks = this.mediumPriorityTasks.filter(task => task.id !== taskId);
-      this.completedTasks = this.completedTasks.filter(task => task.id !== taskId);
+      this.tasks = this.tasks.filter(task => task.id !== taskId);
       
       // Save changes
       await this.saveTasks();
@@ -354,14 +623,31 @@ class TaskService {
     }
   }
   
+  /**
+   * Delete all tasks extracted from a recording
+   */
+  public async deleteTasksByRecordingId(recordingId: string): Promise<void> {
+    try {
+      this.tasks = this.tasks.filter(task => task.recordingId !== recordingId);
+      delete this.changesets[recordingId];
+      
+      // Save changes
+      await this.saveTasks();
+      
+      logger.info('Tasks deleted for recording', { recordingId });
+    } catch (error) {
+      logger.error('Failed to delete tasks for recording', { recordingId, error });
+      throw error;
+    }
+  }
+  
   /**
    * Clear all tasks
    */
   public async clearAllTasks(): Promise<void> {
     try {
-      this.highPriorityTasks = [];
-      this.mediumPriorityTasks = [];
-      this.completedTasks = [];
+      this.tasks = [];
+      this.changesets = {};
       
       await this.saveTasks();
       
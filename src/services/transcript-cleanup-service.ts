@@ -0,0 +1,64 @@
+// src/services/transcript-cleanup-service.ts
+import { logger } from '../config';
+import { getRequestLanguage } from '../config/languages';
+import { cleanTranscript } from '../utils/transcript-cleanup';
+import { recordingService, Recording } from './recording-service';
+import { claudeApiService } from './claude-api-service';
+import { settingsService } from './settings-service';
+
+// Claude's cleanup is rejected if it drops more than this share of the words,
+// since it has most likely summarized rather than tidied
+const MIN_KEPT_WORDS = 0.6;
+
+// Count the words in a text
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => word.length > 0).length;
+}
+
+class TranscriptCleanupService {
+  /**
+   * Clean up a recording's transcript and save the result as a cleanup
+   * revision. The raw transcript stays in the history.
+   */
+  public async cleanRecording(recordingId: string): Promise<Recording> {
+    const recording = recordingService.getRecordingById(recordingId);
+    if (!recording) {
+      throw new Error('Recording not found');
+    }
+    if (!recording.transcript) {
+      return recording;
+    }
+
+    const raw = recording.transcript;
+    const language = recording.detectedLanguage || getRequestLanguage(recording.language);
+    let cleaned = cleanTranscript(raw, language);
+
+    const { cleanup } = await settingsService.getSettings();
+    if (cleanup.useClaude) {
+      try {
+        const polished = await claudeApiService.cleanTranscript(cleaned, language);
+        if (countWords(polished) >= countWords(cleaned) * MIN_KEPT_WORDS) {
+          cleaned = polished;
+        } else {
+          logger.warn('Discarded Claude cleanup that dropped too many words', { recordingId });
+        }
+      } catch (error) {
+        // The local cleanup is still worth keeping
+        logger.warn('Claude cleanup failed, keeping the local cleanup', error);
+      }
+    }
+
+    if (cleaned === raw) {
+      return recording;
+    }
+
+    await recordingService.updateRecordingTranscript(recording.id, cleaned, undefined, 'cleanup');
+    logger.info('Transcript cleaned up', { recordingId });
+
+    return recording;
+  }
+}
+
+// Export a singleton instance
+export const transcriptCleanupService = new TranscriptCleanupService();
+export default transcriptCleanupService;
@@ -0,0 +1,339 @@
+// src/services/transcription-providers.ts
+import axios from 'axios';
+import * as FileSystem from 'expo-file-system';
+import { SecureKeyStorage, SECURE_STORAGE_KEYS, ENV } from '../config';
+import { LANGUAGE_NAMES, AUTO_DETECT_LANGUAGE, toLanguageCode } from '../config/languages';
+import { getFileExtension } from '../utils/audio-file';
+import { TranscriptSegment, TranscriptWord, estimateWordTimings } from '../utils/transcript-timing';
+import { settingsService } from './settings-service';
+
+// Types
+export type TranscriptionProviderId = 'openai' | 'whisper-cpp' | 'mock';
+
+export interface TranscriptionCapabilities {
+  languages: string[]; // ISO 639-1 codes the provider can transcribe
+  maxFileSizeBytes: number | null; // null when uploads are not limited
+  timestamps: boolean; // whether segment and word timings can be returned
+}
+
+export interface TranscriptionOptions {
+  language?: string; // ISO 639-1 code of the spoken language, detected when unset
+  prompt?: string; // words the model should expect, e.g. names from the user's vocabulary
+  onProgress?: (partialText: string, fraction: number) => void; // fraction of this file done, 0-1
+}
+
+export interface TranscriptionResult {
+  text: string;
+  segments?: TranscriptSegment[]; // timings relative to the start of the file, when supported
+  language?: string; // ISO 639-1 code of the language heard, when reported
+}
+
+export interface TranscriptionProvider {
+  readonly id: TranscriptionProviderId;
+  readonly label: string;
+  readonly description: string;
+  readonly capabilities: TranscriptionCapabilities;
+  transcribe(audioUri: string, options?: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+// Languages Whisper models transcribe reliably
+export const WHISPER_LANGUAGES = Object.keys(LANGUAGE_NAMES);
+
+// The hosted OpenAI API rejects uploads larger than this
+const OPENAI_MAX_FILE_SIZE_BYTES = 25 * 1024 * 1024;
+
+// A file part of a multipart body. React Native uploads it from the URI in place of a Blob.
+interface FormDataFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+/**
+ * Build a multipart body holding the audio file
+ */
+function buildAudioFormData(audioUri: string): FormData {
+  const extension = getFileExtension(audioUri).slice(1);
+  const file: FormDataFile = {
+    uri: audioUri,
+    name: `recording.${extension}`,
+    type: extension === 'mp3' ? 'audio/mpeg' : `audio/${extension}`,
+  };
+  const formData = new FormData();
+  formData.append('file', file as unknown as Blob);
+  return formData;
+}
+
+/**
+ * Fail early when a file is bigger than the provider accepts
+ */
+async function checkFileSize(audioUri: string, provider: TranscriptionProvider): Promise<void> {
+  const limit = provider.capabilities.maxFileSizeBytes;
+  if (limit === null) return;
+
+  const fileInfo = await FileSystem.getInfoAsync(audioUri);
+  if (fileInfo.exists && fileInfo.size > limit) {
+    const sizeMb = (fileInfo.size / (1024 * 1024)).toFixed(1);
+    throw new Error(
+      `This audio is ${sizeMb} MB, but ${provider.label} accepts files up to ${limit / (1024 * 1024)} MB.`
+    );
+  }
+}
+
+// A verbose_json transcription response. Servers that copy the OpenAI API
+// don't all return the same shape, so the timings are checked before use.
+interface VerboseTranscriptionResponse {
+  text: string;
+  language?: unknown;
+  detected_language?: unknown; // whisper.cpp
+  segments?: unknown;
+  words?: unknown;
+}
+
+interface VerboseTranscriptionSegment {
+  text: string;
+  start: number; // in seconds
+  end: number; // in seconds
+  words?: unknown; // whisper.cpp times words per segment
+}
+
+interface VerboseTranscriptionWord {
+  word: string;
+  start: number; // in seconds
+  end: number; // in seconds
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isSeconds(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isVerboseTranscriptionResponse(data: unknown): data is VerboseTranscriptionResponse {
+  return isRecord(data) && typeof data.text === 'string';
+}
+
+function isVerboseTranscriptionSegment(value: unknown): value is VerboseTranscriptionSegment {
+  return isRecord(value) && typeof value.text === 'string' && isSeconds(value.start) && isSeconds(value.end);
+}
+
+function isVerboseTranscriptionWord(value: unknown): value is VerboseTranscriptionWord {
+  return isRecord(value) && typeof value.word === 'string' && isSeconds(value.start) && isSeconds(value.end);
+}
+
+// The valid entries of a list the server may have left out or filled oddly
+function validItems<T>(list: unknown, isValid: (value: unknown) => value is T): T[] {
+  return Array.isArray(list) ? list.filter(isValid) : [];
+}
+
+/**
+ * Read segment and word timings from a verbose_json response. Words may be
+ * listed per segment (whisper.cpp) or for the whole file (OpenAI).
+ * Malformed segments and words are skipped.
+ */
+function parseTimedSegments(data: VerboseTranscriptionResponse): TranscriptSegment[] {
+  const segments = validItems(data.segments, isVerboseTranscriptionSegment);
+  const fileWords = validItems(data.words, isVerboseTranscriptionWord);
+  const toWord = (word: VerboseTranscriptionWord): TranscriptWord => ({
+    word: word.word.trim(),
+    start: word.start,
+    end: word.end,
+  });
+
+  return segments.map((segment, index): TranscriptSegment => {
+    const start = segment.start;
+    const end = Math.max(segment.end, start);
+    const text = segment.text.trim();
+    const isLast = index === segments.length - 1;
+
+    let words: TranscriptWord[] = Array.isArray(segment.words)
+      ? validItems(segment.words, isVerboseTranscriptionWord).map(toWord)
+      : fileWords
+          .filter(word => word.start >= start && (word.start < end || isLast))
+          .map(toWord);
+
+    // Fall back to evenly spaced words when the server only timed the segment
+    if (words.length === 0) {
+      words = estimateWordTimings(text, start, end);
+    }
+
+    return { text, start, end, words: words.filter(word => word.word.length > 0) };
+  });
+}
+
+// Remove trailing slashes so paths can be appended
+function trimBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+// The scheme and host of a URL, e.g. https://api.openai.com
+function getOrigin(url: string): string {
+  const match = url.trim().match(/^([a-z]+:\/\/[^/?#]+)/i);
+  return match ? match[1].toLowerCase() : '';
+}
+
+/**
+ * Whether a base URL points at OpenAI itself, the only server the OpenAI key is sent to
+ */
+export function isOpenAIBaseUrl(url: string): boolean {
+  return getOrigin(url) === getOrigin(ENV.OPENAI_API_URL);
+}
+
+/**
+ * OpenAI's transcription API, or any server that implements the same endpoint
+ */
+class OpenAITranscriptionProvider implements TranscriptionProvider {
+  public readonly id = 'openai';
+  public readonly label = 'OpenAI-compatible API';
+  public readonly description = 'OpenAI Whisper, or a self-hosted server with the same API.';
+  public readonly capabilities: TranscriptionCapabilities = {
+    languages: WHISPER_LANGUAGES,
+    maxFileSizeBytes: OPENAI_MAX_FILE_SIZE_BYTES,
+    timestamps: true,
+  };
+
+  public async transcribe(audioUri: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    await checkFileSize(audioUri, this);
+
+    const { transcription } = await settingsService.getSettings();
+    const baseUrl = trimBaseUrl(transcription.openaiBaseUrl || ENV.OPENAI_API_URL);
+
+    // The OpenAI key only goes to OpenAI. Other servers get their own key, and
+    // self-hosted ones often run without one.
+    const official = isOpenAIBaseUrl(baseUrl);
+    const apiKey = await SecureKeyStorage.getKey(
+      official ? SECURE_STORAGE_KEYS.OPENAI_API_KEY : SECURE_STORAGE_KEYS.TRANSCRIPTION_SERVER_API_KEY
+    );
+    if (!apiKey && official) {
+      throw new Error('OpenAI API key not found for transcription');
+    }
+
+    const formData = buildAudioFormData(audioUri);
+    formData.append('model', 'whisper-1');
+    // Leaving the language out makes Whisper detect it
+    if (options.language) {
+      formData.append('language', options.language);
+    }
+    if (options.prompt) {
+      formData.append('prompt', options.prompt);
+    }
+    formData.append('response_format', 'verbose_json');
+    formData.append('timestamp_granularities[]', 'segment');
+    formData.append('timestamp_granularities[]', 'word');
+
+    const headers: Record<string, string> = { 'Content-Type': 'multipart/form-data' };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    const response = await axios.post(`${baseUrl}/audio/transcriptions`, formData, { headers });
+
+    const data: unknown = response.data;
+    if (!isVerboseTranscriptionResponse(data)) {
+      throw new Error('Transcription failed - no text returned');
+    }
+
+    return {
+      text: data.text.trim(),
+      segments: parseTimedSegments(data),
+      language: toLanguageCode(data.language),
+    };
+  }
+}
+
+/**
+ * The example HTTP server that ships with whisper.cpp, usually on the local network.
+ * Start it with --convert so it accepts m4a as well as wav.
+ */
+class WhisperCppTranscriptionProvider implements TranscriptionProvider {
+  public readonly id = 'whisper-cpp';
+  public readonly label = 'whisper.cpp server';
+  public readonly description = 'A whisper.cpp server on your own network. Audio never leaves it.';
+  public readonly capabilities: TranscriptionCapabilities = {
+    languages: WHISPER_LANGUAGES,
+    maxFileSizeBytes: null,
+    timestamps: true,
+  };
+
+  public async transcribe(audioUri: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    const { transcription } = await settingsService.getSettings();
+    if (!transcription.whisperCppUrl.trim()) {
+      throw new Error('Set the whisper.cpp server address in Settings first');
+    }
+
+    const formData = buildAudioFormData(audioUri);
+    formData.append('language', options.language || AUTO_DETECT_LANGUAGE);
+    formData.append('temperature', '0');
+    if (options.prompt) {
+      formData.append('prompt', options.prompt);
+    }
+    formData.append('response_format', 'verbose_json');
+
+    const response = await axios.post(
+      `${trimBaseUrl(transcription.whisperCppUrl)}/inference`,
+      formData,
+      { headers: { 'Content-Type': 'multipart/form-data' } }
+    );
+
+    const data: unknown = response.data;
+    if (!isVerboseTranscriptionResponse(data)) {
+      throw new Error('Transcription failed - no text returned');
+    }
+
+    return {
+      text: data.text.trim(),
+      segments: parseTimedSegments(data),
+      language: toLanguageCode(data.detected_language || data.language),
+    };
+  }
+}
+
+/**
+ * Canned transcript for demos and development
+ */
+class MockTranscriptionProvider implements TranscriptionProvider {
+  public readonly id = 'mock';
+  public readonly label = 'Demo transcript';
+  public readonly description = 'Returns a sample vent without sending audio anywhere.';
+  public readonly capabilities: TranscriptionCapabilities = {
+    languages: ['en'],
+    maxFileSizeBytes: null,
+    timestamps: false,
+  };
+
+  private readonly sampleTranscript = "I need to file my taxes by Monday. I should take my dog to the vet on Wednesday. I also need to help my mom get her driver's license this weekend. I'm feeling burnt out from work and should plan a vacation soon. I need to dispose of some yard waste next week. Everything needs to be scheduled after 6 PM because of my work.";
+
+  public async transcribe(audioUri: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    const words = this.sampleTranscript.split(' ');
+
+    // Show words appearing gradually
+    for (let i = 0; i < words.length; i += 3) {
+      await new Promise(resolve => setTimeout(resolve, 200)); // Delay for realism
+      if (options.onProgress) {
+        options.onProgress(words.slice(0, i + 3).join(' '), Math.min(1, (i + 3) / words.length));
+      }
+    }
+
+    return { text: this.sampleTranscript, language: 'en' };
+  }
+}
+
+export const mockTranscriptionProvider = new MockTranscriptionProvider();
+
+export const TRANSCRIPTION_PROVIDERS: Record<TranscriptionProviderId, TranscriptionProvider> = {
+  'openai': new OpenAITranscriptionProvider(),
+  'whisper-cpp': new WhisperCppTranscriptionProvider(),
+  'mock': mockTranscriptionProvider,
+};
+
+/**
+ * Look up a provider, falling back to the demo one for unknown IDs
+ */
+export function getTranscriptionProvider(id: string | undefined): TranscriptionProvider {
+  if (id && id in TRANSCRIPTION_PROVIDERS) {
+    return TRANSCRIPTION_PROVIDERS[id as TranscriptionProviderId];
+  }
+  return mockTranscriptionProvider;
+}
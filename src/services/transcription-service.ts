@@ -0,0 +1,291 @@
+// src/services/transcription-service.ts
+import * as FileSystem from 'expo-file-system';
+import { logger } from '../config';
+import { generateSecureId } from '../utils/encryption';
+import { readAudioDuration, getFileExtension } from '../utils/audio-file';
+import {
+  AudioChunk,
+  canSplitAudio,
+  getChunkSeconds,
+  planChunks,
+  writeAudioChunk,
+  MAX_CHUNK_SECONDS
+} from '../utils/audio-chunking';
+import {
+  TranscriptSegment,
+  offsetTranscriptSegments,
+  trimSegmentsToRange,
+  mergeOverlappingText
+} from '../utils/transcript-timing';
+import { settingsService } from './settings-service';
+import {
+  TranscriptionProvider,
+  TranscriptionOptions,
+  getTranscriptionProvider,
+  mockTranscriptionProvider
+} from './transcription-providers';
+
+// Types
+export interface TranscriptionPart {
+  uri: string;
+  start: number; // where the file starts in its recording, in seconds
+  duration?: number; // in seconds, read from the file when not known
+}
+
+export interface TimedTranscript {
+  text: string;
+  segments: TranscriptSegment[]; // timings on the recording's timeline
+  language?: string; // ISO 639-1 code of the language most of the audio was in, when reported
+}
+
+export interface TranscribeOptions {
+  language?: string; // ISO 639-1 code of the spoken language, detected per file or chunk when unset
+  prompt?: string; // vocabulary hint passed to every request
+  onProgress?: (progress: TranscriptionProgress) => void;
+}
+
+export interface TranscriptionProgress {
+  completedChunks: number;
+  totalChunks: number;
+  fraction: number; // overall progress, 0-1
+  partialText: string; // transcript of the chunks finished so far, in order
+  indeterminate: boolean; // the file is sent whole and the provider can't report how far it got
+}
+
+interface ChunkJob {
+  part: TranscriptionPart;
+  chunk: AudioChunk | null; // null when the whole file is sent
+  fileSize: number;
+  duration: number;
+  keepFrom: number; // overlap with neighbouring chunks is cut at these times (recording timeline)
+  keepUntil: number;
+}
+
+interface ChunkResult {
+  text: string;
+  segments: TranscriptSegment[];
+  language?: string;
+}
+
+// Chunks sent to the provider at the same time
+const TRANSCRIPTION_CONCURRENCY = 2;
+
+const CHUNKS_DIRECTORY = `${FileSystem.cacheDirectory}transcription-chunks/`;
+
+class TranscriptionService {
+  /**
+   * Transcribe the ordered audio files of a recording. Long WAV, MP3 and M4A
+   * files are cut into overlapping chunks, and the overlap is removed when stitching.
+   * Without a language each file is detected on its own, so a speaker who
+   * switches language between segments is still transcribed in both.
+   */
+  public async transcribe(
+    parts: TranscriptionPart[],
+    options: TranscribeOptions = {}
+  ): Promise<TimedTranscript> {
+    const { language, prompt, onProgress } = options;
+    const provider = await this.getProvider(parts);
+
+    const jobs: ChunkJob[] = [];
+    for (const part of parts) {
+      jobs.push(...await this.planJobs(part, provider));
+    }
+
+    logger.info('Transcription started', {
+      provider: provider.id,
+      files: parts.length,
+      chunks: jobs.length,
+      language: language || 'auto',
+    });
+
+    const results: (ChunkResult | null)[] = jobs.map(() => null);
+    const inFlight: number[] = jobs.map(() => 0);
+    const partialTexts: string[] = jobs.map(() => '');
+    // Formats that can't be split go out in one request, with no progress until it ends
+    const isWholeFile = jobs.length === 1 && jobs[0].chunk === null;
+
+    // Report chunks in order, so the partial transcript only grows at the end
+    const reportProgress = () => {
+      if (!onProgress) return;
+
+      const completedChunks = results.filter(result => result !== null).length;
+      const inFlightTotal = inFlight.reduce((total, fraction) => total + fraction, 0);
+      const firstPending = results.findIndex(result => result === null);
+      const finished = firstPending === -1 ? results.length : firstPending;
+
+      const texts = results.slice(0, finished).map(result => (result as ChunkResult).text);
+      if (firstPending !== -1 && partialTexts[firstPending]) {
+        texts.push(partialTexts[firstPending]);
+      }
+
+      onProgress({
+        completedChunks,
+        totalChunks: jobs.length,
+        fraction: (completedChunks + inFlightTotal) / jobs.length,
+        partialText: this.stitchTexts(jobs, texts),
+        indeterminate: isWholeFile && completedChunks === 0 && inFlightTotal === 0,
+      });
+    };
+
+    // Stop handing out chunks once one has failed
+    let next = 0;
+    let failed = false;
+    const worker = async () => {
+      while (!failed && next < jobs.length) {
+        const index = next++;
+        try {
+          results[index] = await this.runJob(jobs[index], provider, { language, prompt }, (partialText, fraction) => {
+            partialTexts[index] = partialText;
+            inFlight[index] = fraction;
+            reportProgress();
+          });
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+        inFlight[index] = 0;
+        reportProgress();
+      }
+    };
+
+    reportProgress();
+
+    const workers = [];
+    for (let i = 0; i < Math.min(TRANSCRIPTION_CONCURRENCY, jobs.length); i++) {
+      workers.push(worker());
+    }
+    await Promise.all(workers);
+
+    const finishedResults = results as ChunkResult[];
+    return {
+      text: this.stitchTexts(jobs, finishedResults.map(result => result.text)),
+      segments: finishedResults.reduce<TranscriptSegment[]>(
+        (all, result, index) => all.concat(trimSegmentsToRange(result.segments, jobs[index].keepFrom, jobs[index].keepUntil)),
+        []
+      ),
+      language: language || this.getMainLanguage(finishedResults),
+    };
+  }
+
+  /**
+   * The detected language that covers the most text
+   */
+  private getMainLanguage(results: ChunkResult[]): string | undefined {
+    const lengths = new Map<string, number>();
+    for (const result of results) {
+      if (!result.language) continue;
+      lengths.set(result.language, (lengths.get(result.language) || 0) + result.text.length);
+    }
+
+    let main: string | undefined;
+    lengths.forEach((length, code) => {
+      if (main === undefined || length > (lengths.get(main) || 0)) {
+        main = code;
+      }
+    });
+    return main;
+  }
+
+  /**
+   * Use the provider from Settings, except for mock recordings
+   */
+  private async getProvider(parts: TranscriptionPart[]): Promise<TranscriptionProvider> {
+    if (parts.some(part => part.uri.startsWith('file:///mock/'))) {
+      return mockTranscriptionProvider;
+    }
+
+    const { transcription } = await settingsService.getSettings();
+    return getTranscriptionProvider(transcription.provider);
+  }
+
+  /**
+   * Decide how a file is sent: whole, or in overlapping chunks
+   */
+  private async planJobs(part: TranscriptionPart, provider: TranscriptionProvider): Promise<ChunkJob[]> {
+    const wholeFile: ChunkJob = {
+      part,
+      chunk: null,
+      fileSize: 0,
+      duration: part.duration || 0,
+      keepFrom: -Infinity,
+      keepUntil: Infinity,
+    };
+
+    if (part.uri.startsWith('file:///mock/') || !canSplitAudio(part.uri)) {
+      return [wholeFile];
+    }
+
+    const fileInfo = await FileSystem.getInfoAsync(part.uri);
+    const fileSize = fileInfo.exists ? fileInfo.size : 0;
+    const duration = part.duration || await readAudioDuration(part.uri) || 0;
+    const maxBytes = provider.capabilities.maxFileSizeBytes;
+
+    const tooLong = duration > MAX_CHUNK_SECONDS;
+    const tooBig = maxBytes !== null && fileSize > maxBytes;
+    if (duration <= 0 || (!tooLong && !tooBig)) {
+      return [wholeFile];
+    }
+
+    const chunks = planChunks(duration, getChunkSeconds(fileSize, duration, maxBytes));
+
+    // Each chunk keeps the words up to the middle of its overlap with the next
+    return chunks.map((chunk, index) => ({
+      part,
+      chunk,
+      fileSize,
+      duration,
+      keepFrom: index === 0 ? -Infinity : part.start + (chunks[index - 1].end + chunk.start) / 2,
+      keepUntil: index === chunks.length - 1 ? Infinity : part.start + (chunk.end + chunks[index + 1].start) / 2,
+    }));
+  }
+
+  /**
+   * Transcribe one chunk, writing it to a temporary file first if needed
+   */
+  private async runJob(
+    job: ChunkJob,
+    provider: TranscriptionProvider,
+    requestOptions: Pick<TranscriptionOptions, 'language' | 'prompt'>,
+    onProgress: (partialText: string, fraction: number) => void
+  ): Promise<ChunkResult> {
+    let uri = job.part.uri;
+    let offset = job.part.start;
+
+    if (job.chunk) {
+      await FileSystem.makeDirectoryAsync(CHUNKS_DIRECTORY, { intermediates: true });
+      uri = `${CHUNKS_DIRECTORY}${generateSecureId('chunk')}${getFileExtension(job.part.uri)}`;
+      await writeAudioChunk(job.part.uri, job.fileSize, job.duration, job.chunk, uri);
+      offset += job.chunk.start;
+    }
+
+    try {
+      const result = await provider.transcribe(uri, { ...requestOptions, onProgress });
+      return {
+        text: result.text,
+        segments: offsetTranscriptSegments(result.segments || [], offset),
+        language: result.language,
+      };
+    } finally {
+      if (job.chunk) {
+        await FileSystem.deleteAsync(uri, { idempotent: true });
+      }
+    }
+  }
+
+  /**
+   * Join chunk transcripts in order, removing repeated words where chunks overlap
+   */
+  private stitchTexts(jobs: ChunkJob[], texts: string[]): string {
+    return texts.reduce((stitched, text, index) => {
+      if (!stitched) return text;
+      if (!text) return stitched;
+
+      const overlapsPrevious = jobs[index].chunk !== null && jobs[index].part === jobs[index - 1].part;
+      return overlapsPrevious ? mergeOverlappingText(stitched, text) : `${stitched} ${text}`;
+    }, '');
+  }
+}
+
+// Export a singleton instance
+export const transcriptionService = new TranscriptionService();
+export default transcriptionService;
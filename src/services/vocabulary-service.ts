@@ -0,0 +1,128 @@
+// src/services/vocabulary-service.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { logger } from '../config';
+import { generateSecureId } from '../utils/encryption';
+import { VocabularyTerm } from '../utils/vocabulary';
+
+const VOCABULARY_STORAGE_KEY = '@janaru_vocabulary';
+
+class VocabularyService {
+  private terms: VocabularyTerm[] = [];
+  private readonly loaded: Promise<void>;
+
+  constructor() {
+    // Load the vocabulary from storage on initialization
+    this.loaded = this.loadTerms();
+  }
+
+  /**
+   * Load the vocabulary from local storage
+   */
+  private async loadTerms(): Promise<void> {
+    try {
+      const termsString = await AsyncStorage.getItem(VOCABULARY_STORAGE_KEY);
+      if (termsString) {
+        this.terms = JSON.parse(termsString);
+      }
+    } catch (error) {
+      logger.error('Failed to load vocabulary from storage', error);
+    }
+  }
+
+  /**
+   * Save the vocabulary to local storage
+   */
+  private async saveTerms(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(VOCABULARY_STORAGE_KEY, JSON.stringify(this.terms));
+    } catch (error) {
+      logger.error('Failed to save vocabulary to storage', error);
+    }
+  }
+
+  /**
+   * Get every term, in the order they were added
+   */
+  public async getTerms(): Promise<VocabularyTerm[]> {
+    await this.loaded;
+    return [...this.terms];
+  }
+
+  /**
+   * Add a term with the ways it tends to be misheard
+   */
+  public async addTerm(term: string, misspellings: string[] = []): Promise<VocabularyTerm> {
+    await this.loaded;
+
+    const trimmed = term.trim();
+    if (!trimmed) {
+      throw new Error('Enter a word or name to add');
+    }
+    if (this.terms.some(existing => existing.term.toLowerCase() === trimmed.toLowerCase())) {
+      throw new Error(`"${trimmed}" is already in your vocabulary`);
+    }
+
+    const added: VocabularyTerm = {
+      id: generateSecureId('term'),
+      term: trimmed,
+      misspellings: this.cleanMisspellings(trimmed, misspellings),
+    };
+
+    this.terms.push(added);
+    await this.saveTerms();
+    logger.debug('Vocabulary term added', { termId: added.id });
+
+    return added;
+  }
+
+  /**
+   * Change a term or its misspellings
+   */
+  public async updateTerm(id: string, updates: Partial<Omit<VocabularyTerm, 'id'>>): Promise<VocabularyTerm> {
+    await this.loaded;
+
+    const existing = this.terms.find(item => item.id === id);
+    if (!existing) {
+      throw new Error('Vocabulary term not found');
+    }
+
+    const term = updates.term !== undefined ? updates.term.trim() : existing.term;
+    if (!term) {
+      throw new Error('Enter a word or name to add');
+    }
+
+    existing.term = term;
+    existing.misspellings = this.cleanMisspellings(term, updates.misspellings || existing.misspellings);
+
+    await this.saveTerms();
+    return existing;
+  }
+
+  /**
+   * Remove a term
+   */
+  public async removeTerm(id: string): Promise<void> {
+    await this.loaded;
+
+    this.terms = this.terms.filter(item => item.id !== id);
+    await this.saveTerms();
+  }
+
+  // Drop blanks, duplicates and the correct spelling itself. A different
+  // capitalization of the term is kept, since fixing case is useful too.
+  private cleanMisspellings(term: string, misspellings: string[]): string[] {
+    const seen = new Set<string>();
+    return misspellings
+      .map(misspelling => misspelling.trim())
+      .filter(misspelling => {
+        const key = misspelling.toLowerCase();
+        if (!misspelling || misspelling === term || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+}
+
+// Export a singleton instance
+export const vocabularyService = new VocabularyService();
+export default vocabularyService;
@@ -0,0 +1,487 @@
+// src/utils/audio-chunking.ts
+import * as FileSystem from 'expo-file-system';
+import { getFileExtension } from './audio-file';
+
+// Longest stretch of audio sent to a provider in one request
+export const MAX_CHUNK_SECONDS = 600;
+
+// Audio shared by neighbouring chunks, so words cut at a boundary are heard whole once
+export const CHUNK_OVERLAP_SECONDS = 3;
+
+// Shortest chunk worth making, however small the provider's size limit
+const MIN_CHUNK_SECONDS = 30;
+
+// Headroom under the provider's size limit for headers and rounding
+const CHUNK_SIZE_MARGIN = 0.9;
+
+// Enough of a WAV file to find its format and data chunks
+const WAV_HEADER_SCAN_BYTES = 4096;
+
+// Formats that can be cut without decoding: PCM WAV by rewriting the header,
+// MP3 because decoders resync on the next frame, and M4A by copying the
+// window's AAC frames into a container of their own
+const SPLITTABLE_EXTENSIONS = ['.wav', '.mp3', '.m4a'];
+
+// A window of a file, in seconds from the file's start
+export interface AudioChunk {
+  start: number;
+  end: number;
+}
+
+/**
+ * Check whether a file can be cut into chunks on the device
+ */
+export function canSplitAudio(uri: string): boolean {
+  return SPLITTABLE_EXTENSIONS.includes(getFileExtension(uri, ''));
+}
+
+/**
+ * Pick a chunk length that keeps each upload under the size limit
+ */
+export function getChunkSeconds(fileSize: number, duration: number, maxBytes: number | null): number {
+  if (maxBytes === null || fileSize <= 0 || duration <= 0) {
+    return MAX_CHUNK_SECONDS;
+  }
+
+  const bytesPerSecond = fileSize / duration;
+  const bySize = Math.floor((maxBytes * CHUNK_SIZE_MARGIN) / bytesPerSecond);
+  return Math.max(MIN_CHUNK_SECONDS, Math.min(MAX_CHUNK_SECONDS, bySize));
+}
+
+/**
+ * Split a duration into overlapping windows
+ */
+export function planChunks(
+  duration: number,
+  chunkSeconds: number,
+  overlapSeconds: number = CHUNK_OVERLAP_SECONDS
+): AudioChunk[] {
+  if (duration <= chunkSeconds) {
+    return [{ start: 0, end: duration }];
+  }
+
+  const chunks: AudioChunk[] = [];
+  let start = 0;
+
+  while (start < duration) {
+    const end = Math.min(duration, start + chunkSeconds);
+    chunks.push({ start, end });
+    if (end >= duration) break;
+    start = end - overlapSeconds;
+  }
+
+  return chunks;
+}
+
+/**
+ * Write one window of a WAV, MP3 or M4A file to a new file
+ */
+export async function writeAudioChunk(
+  uri: string,
+  fileSize: number,
+  duration: number,
+  chunk: AudioChunk,
+  outputUri: string
+): Promise<void> {
+  const extension = getFileExtension(uri, '');
+
+  if (extension === '.wav') {
+    await writeWavChunk(uri, fileSize, chunk, outputUri);
+  } else if (extension === '.mp3') {
+    await writeMp3Chunk(uri, fileSize, duration, chunk, outputUri);
+  } else if (extension === '.m4a') {
+    await writeM4aChunk(uri, fileSize, duration, chunk, outputUri);
+  } else {
+    throw new Error(`${extension || 'This'} audio can't be split into chunks`);
+  }
+}
+
+// Read a byte range as a binary string
+async function readBytes(uri: string, position: number, length: number): Promise<string> {
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+    position,
+    length,
+  });
+  return atob(base64);
+}
+
+function readUint16(bytes: string, offset: number): number {
+  return bytes.charCodeAt(offset) | (bytes.charCodeAt(offset + 1) << 8);
+}
+
+function readUint32(bytes: string, offset: number): number {
+  return (readUint16(bytes, offset) | (readUint16(bytes, offset + 2) << 16)) >>> 0;
+}
+
+function writeUint32(value: number): string {
+  return String.fromCharCode(value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff);
+}
+
+// Copy the samples in a window and give them a header of their own
+async function writeWavChunk(uri: string, fileSize: number, chunk: AudioChunk, outputUri: string): Promise<void> {
+  const header = await readBytes(uri, 0, Math.min(fileSize, WAV_HEADER_SCAN_BYTES));
+  if (header.substring(0, 4) !== 'RIFF' || header.substring(8, 12) !== 'WAVE') {
+    throw new Error('This WAV file has an unrecognized header');
+  }
+
+  let format = '';
+  let dataOffset = -1;
+  let dataSize = 0;
+  let offset = 12;
+
+  while (offset + 8 <= header.length) {
+    const id = header.substring(offset, offset + 4);
+    const size = readUint32(header, offset + 4);
+
+    if (id === 'fmt ') {
+      format = header.substring(offset + 8, offset + 8 + size);
+    } else if (id === 'data') {
+      dataOffset = offset + 8;
+      // Streamed files may leave the size unset
+      dataSize = size > 0 && dataOffset + size <= fileSize ? size : fileSize - dataOffset;
+      break;
+    }
+
+    offset += 8 + size + (size % 2);
+  }
+
+  if (!format || dataOffset < 0) {
+    throw new Error('This WAV file has no audio data');
+  }
+
+  const byteRate = readUint32(format, 8);
+  const blockAlign = readUint16(format, 12) || 1;
+  const toByte = (seconds: number) =>
+    Math.min(dataSize, Math.floor((seconds * byteRate) / blockAlign) * blockAlign);
+
+  const startByte = toByte(chunk.start);
+  const samples = await readBytes(uri, dataOffset + startByte, toByte(chunk.end) - startByte);
+
+  const output =
+    'RIFF' + writeUint32(4 + 8 + format.length + 8 + samples.length) + 'WAVE' +
+    'fmt ' + writeUint32(format.length) + format +
+    'data' + writeUint32(samples.length) + samples;
+
+  await FileSystem.writeAsStringAsync(outputUri, btoa(output), { encoding: FileSystem.EncodingType.Base64 });
+}
+
+// Cut by byte position, assuming a roughly constant bitrate. Offsets are kept
+// on three-byte boundaries so the base64 can be copied without re-encoding.
+async function writeMp3Chunk(
+  uri: string,
+  fileSize: number,
+  duration: number,
+  chunk: AudioChunk,
+  outputUri: string
+): Promise<void> {
+  const bytesPerSecond = fileSize / duration;
+  const toByte = (seconds: number) => seconds >= duration
+    ? fileSize
+    : Math.floor((seconds * bytesPerSecond) / 3) * 3;
+
+  const startByte = toByte(chunk.start);
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+    position: startByte,
+    length: toByte(chunk.end) - startByte,
+  });
+
+  await FileSystem.writeAsStringAsync(outputUri, base64, { encoding: FileSystem.EncodingType.Base64 });
+}
+
+// MP4 boxes store numbers big-endian
+function readUint32BE(bytes: string, offset: number): number {
+  return (
+    (bytes.charCodeAt(offset) << 24) |
+    (bytes.charCodeAt(offset + 1) << 16) |
+    (bytes.charCodeAt(offset + 2) << 8) |
+    bytes.charCodeAt(offset + 3)
+  ) >>> 0;
+}
+
+function readUint64BE(bytes: string, offset: number): number {
+  return readUint32BE(bytes, offset) * 0x100000000 + readUint32BE(bytes, offset + 4);
+}
+
+function writeUint32BE(value: number): string {
+  return String.fromCharCode((value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+}
+
+function writeUint16BE(value: number): string {
+  return String.fromCharCode((value >> 8) & 0xff, value & 0xff);
+}
+
+// A box of an MP4 file. start and end bound its contents, after the header.
+interface Mp4Box {
+  type: string;
+  start: number;
+  end: number;
+}
+
+// Read the size and type of the box at an offset
+function readMp4BoxHeader(bytes: string, offset: number, limit: number): Mp4Box | null {
+  if (offset + 8 > bytes.length) return null;
+
+  const type = bytes.substring(offset + 4, offset + 8);
+  let size = readUint32BE(bytes, offset);
+  let headerSize = 8;
+  if (size === 1) {
+    if (offset + 16 > bytes.length) return null;
+    size = readUint64BE(bytes, offset + 8);
+    headerSize = 16;
+  } else if (size === 0) {
+    size = limit - offset; // runs to the end
+  }
+
+  if (size < headerSize || offset + size > limit) return null;
+  return { type, start: offset + headerSize, end: offset + size };
+}
+
+// List the boxes held in a range of a binary string
+function readMp4Boxes(bytes: string, start: number, end: number): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+
+  while (offset < end) {
+    const box = readMp4BoxHeader(bytes, offset, end);
+    if (!box) break;
+    boxes.push(box);
+    offset = box.end;
+  }
+
+  return boxes;
+}
+
+// Follow a path of box types down from a parent box
+function findMp4Box(bytes: string, parent: Mp4Box, path: string[]): Mp4Box | undefined {
+  let box: Mp4Box | undefined = parent;
+  for (const type of path) {
+    box = readMp4Boxes(bytes, box.start, box.end).find(child => child.type === type);
+    if (!box) return undefined;
+  }
+  return box;
+}
+
+function mp4Box(type: string, contents: string): string {
+  return writeUint32BE(8 + contents.length) + type + contents;
+}
+
+// A box that starts with a version byte and three bytes of flags
+function mp4FullBox(type: string, flags: number, contents: string): string {
+  return mp4Box(type, writeUint32BE(flags & 0xffffff) + contents);
+}
+
+// The identity transform that movie and track headers carry
+const MP4_UNITY_MATRIX = [0x10000, 0, 0, 0, 0x10000, 0, 0, 0, 0x40000000].map(writeUint32BE).join('');
+
+// Where each audio frame of an M4A file is and when it plays
+interface M4aSampleTable {
+  timescale: number; // ticks per second
+  handler: string; // contents of the track's hdlr box
+  sampleDescription: string; // contents of the stsd box, with the codec setup
+  offsets: number[];
+  sizes: number[];
+  times: number[]; // in ticks from the start
+  durations: number[]; // in ticks
+}
+
+// Find the top-level boxes of a file, reading only their headers
+async function readTopLevelMp4Boxes(uri: string, fileSize: number): Promise<{ type: string; offset: number; size: number }[]> {
+  const boxes: { type: string; offset: number; size: number }[] = [];
+  let offset = 0;
+
+  while (offset + 8 <= fileSize) {
+    const header = await readBytes(uri, offset, Math.min(16, fileSize - offset));
+    const box = readMp4BoxHeader(header, 0, fileSize - offset);
+    if (!box) break;
+    boxes.push({ type: box.type, offset, size: box.end });
+    offset += box.end;
+  }
+
+  return boxes;
+}
+
+// Read the sample table of the first audio track in a moov box
+function readM4aSampleTable(moov: string): M4aSampleTable {
+  const root = readMp4BoxHeader(moov, 0, moov.length);
+  const track = root && readMp4Boxes(moov, root.start, root.end)
+    .filter(box => box.type === 'trak')
+    .find(trak => {
+      const handler = findMp4Box(moov, trak, ['mdia', 'hdlr']);
+      return handler !== undefined && moov.substring(handler.start + 8, handler.start + 12) === 'soun';
+    });
+
+  const mdhd = track && findMp4Box(moov, track, ['mdia', 'mdhd']);
+  const hdlr = track && findMp4Box(moov, track, ['mdia', 'hdlr']);
+  const stbl = track && findMp4Box(moov, track, ['mdia', 'minf', 'stbl']);
+  const stsd = stbl && findMp4Box(moov, stbl, ['stsd']);
+  const stts = stbl && findMp4Box(moov, stbl, ['stts']);
+  const stsc = stbl && findMp4Box(moov, stbl, ['stsc']);
+  const stsz = stbl && findMp4Box(moov, stbl, ['stsz']);
+  const stco = stbl && (findMp4Box(moov, stbl, ['stco']) || findMp4Box(moov, stbl, ['co64']));
+  if (!mdhd || !hdlr || !stsd || !stts || !stsc || !stsz || !stco) {
+    throw new Error('This M4A file has no audio track that can be split');
+  }
+
+  // Version 1 headers use 64-bit times
+  const timescale = readUint32BE(moov, mdhd.start + (moov.charCodeAt(mdhd.start) === 1 ? 20 : 12));
+
+  const sampleCount = readUint32BE(moov, stsz.start + 8);
+  const fixedSize = readUint32BE(moov, stsz.start + 4);
+  const sizes: number[] = [];
+  for (let i = 0; i < sampleCount; i++) {
+    sizes.push(fixedSize || readUint32BE(moov, stsz.start + 12 + i * 4));
+  }
+
+  const durations: number[] = [];
+  const times: number[] = [];
+  let time = 0;
+  const timeEntries = readUint32BE(moov, stts.start + 4);
+  for (let i = 0; i < timeEntries && durations.length < sampleCount; i++) {
+    const count = readUint32BE(moov, stts.start + 8 + i * 8);
+    const delta = readUint32BE(moov, stts.start + 12 + i * 8);
+    for (let j = 0; j < count && durations.length < sampleCount; j++) {
+      times.push(time);
+      durations.push(delta);
+      time += delta;
+    }
+  }
+
+  const is64Bit = stco.type === 'co64';
+  const chunkCount = readUint32BE(moov, stco.start + 4);
+  const chunkOffsets: number[] = [];
+  for (let i = 0; i < chunkCount; i++) {
+    chunkOffsets.push(is64Bit
+      ? readUint64BE(moov, stco.start + 8 + i * 8)
+      : readUint32BE(moov, stco.start + 8 + i * 4));
+  }
+
+  // Runs of chunks with the same number of samples, from their first chunk on
+  const offsets: number[] = [];
+  const runCount = readUint32BE(moov, stsc.start + 4);
+  for (let run = 0; run < runCount; run++) {
+    const firstChunk = readUint32BE(moov, stsc.start + 8 + run * 12) - 1;
+    const samplesPerChunk = readUint32BE(moov, stsc.start + 12 + run * 12);
+    const nextChunk = run + 1 < runCount ? readUint32BE(moov, stsc.start + 20 + run * 12) - 1 : chunkCount;
+
+    for (let chunkIndex = firstChunk; chunkIndex < nextChunk && chunkIndex < chunkCount; chunkIndex++) {
+      let offset = chunkOffsets[chunkIndex];
+      for (let i = 0; i < samplesPerChunk && offsets.length < sampleCount; i++) {
+        offsets.push(offset);
+        offset += sizes[offsets.length - 1];
+      }
+    }
+  }
+
+  if (timescale === 0 || offsets.length < sampleCount || times.length < sampleCount) {
+    throw new Error('This M4A file has an unreadable sample table');
+  }
+
+  return {
+    timescale,
+    handler: moov.substring(hdlr.start, hdlr.end),
+    sampleDescription: moov.substring(stsd.start, stsd.end),
+    offsets,
+    sizes,
+    times,
+    durations,
+  };
+}
+
+// Build a movie box for one audio track whose samples sit in a single chunk
+function buildM4aMovie(table: M4aSampleTable, samples: number[], dataOffset: number): string {
+  const duration = samples.reduce((total, index) => total + table.durations[index], 0);
+
+  // Sample durations, run-length encoded
+  const timeRuns: { count: number; delta: number }[] = [];
+  for (const index of samples) {
+    const delta = table.durations[index];
+    const last = timeRuns[timeRuns.length - 1];
+    if (last && last.delta === delta) {
+      last.count += 1;
+    } else {
+      timeRuns.push({ count: 1, delta });
+    }
+  }
+
+  const mvhd = mp4FullBox('mvhd', 0,
+    writeUint32BE(0) + writeUint32BE(0) + writeUint32BE(table.timescale) + writeUint32BE(duration) +
+    writeUint32BE(0x10000) + writeUint16BE(0x100) + '\0'.repeat(10) + MP4_UNITY_MATRIX + '\0'.repeat(24) +
+    writeUint32BE(2)
+  );
+  const tkhd = mp4FullBox('tkhd', 0x3,
+    writeUint32BE(0) + writeUint32BE(0) + writeUint32BE(1) + writeUint32BE(0) + writeUint32BE(duration) +
+    '\0'.repeat(8) + writeUint16BE(0) + writeUint16BE(0) + writeUint16BE(0x100) + writeUint16BE(0) +
+    MP4_UNITY_MATRIX + writeUint32BE(0) + writeUint32BE(0)
+  );
+  const mdhd = mp4FullBox('mdhd', 0,
+    writeUint32BE(0) + writeUint32BE(0) + writeUint32BE(table.timescale) + writeUint32BE(duration) +
+    writeUint16BE(0x55c4) + writeUint16BE(0) // language "und"
+  );
+  const stbl = mp4Box('stbl',
+    mp4Box('stsd', table.sampleDescription) +
+    mp4FullBox('stts', 0, writeUint32BE(timeRuns.length) +
+      timeRuns.map(run => writeUint32BE(run.count) + writeUint32BE(run.delta)).join('')) +
+    mp4FullBox('stsc', 0, writeUint32BE(1) + writeUint32BE(1) + writeUint32BE(samples.length) + writeUint32BE(1)) +
+    mp4FullBox('stsz', 0, writeUint32BE(0) + writeUint32BE(samples.length) +
+      samples.map(index => writeUint32BE(table.sizes[index])).join('')) +
+    mp4FullBox('stco', 0, writeUint32BE(1) + writeUint32BE(dataOffset))
+  );
+  const minf = mp4Box('minf',
+    mp4FullBox('smhd', 0, writeUint32BE(0)) +
+    mp4Box('dinf', mp4FullBox('dref', 0, writeUint32BE(1) + mp4FullBox('url ', 0x1, ''))) +
+    stbl
+  );
+
+  return mp4Box('moov', mvhd + mp4Box('trak', tkhd + mp4Box('mdia', mdhd + mp4Box('hdlr', table.handler) + minf)));
+}
+
+// Copy the AAC frames that start within a window into a new M4A file,
+// with a sample table of their own
+async function writeM4aChunk(
+  uri: string,
+  fileSize: number,
+  duration: number,
+  chunk: AudioChunk,
+  outputUri: string
+): Promise<void> {
+  const moovBox = (await readTopLevelMp4Boxes(uri, fileSize)).find(box => box.type === 'moov');
+  if (!moovBox) {
+    throw new Error('This M4A file has no movie header');
+  }
+
+  const table = readM4aSampleTable(await readBytes(uri, moovBox.offset, moovBox.size));
+  const startTicks = chunk.start * table.timescale;
+  const endTicks = chunk.end >= duration ? Infinity : chunk.end * table.timescale;
+  const samples = table.times
+    .map((time, index) => ({ time, index }))
+    .filter(sample => sample.time >= startTicks && sample.time < endTicks)
+    .map(sample => sample.index);
+
+  if (samples.length === 0) {
+    throw new Error('This part of the M4A file has no audio');
+  }
+
+  // Read the frames in as few reads as possible; they are usually stored back to back
+  let data = '';
+  let runStart = table.offsets[samples[0]];
+  let runEnd = runStart;
+  for (const index of samples) {
+    if (table.offsets[index] !== runEnd) {
+      data += await readBytes(uri, runStart, runEnd - runStart);
+      runStart = table.offsets[index];
+      runEnd = runStart;
+    }
+    runEnd += table.sizes[index];
+  }
+  data += await readBytes(uri, runStart, runEnd - runStart);
+
+  const ftyp = mp4Box('ftyp', 'M4A ' + writeUint32BE(0) + 'M4A mp42isom');
+  // The movie box's size doesn't depend on the data offset, so measure it first
+  const movieSize = buildM4aMovie(table, samples, 0).length;
+  const moov = buildM4aMovie(table, samples, ftyp.length + movieSize + 8);
+  const output = ftyp + moov + mp4Box('mdat', data);
+
+  await FileSystem.writeAsStringAsync(outputUri, btoa(output), { encoding: FileSystem.EncodingType.Base64 });
+}
@@ -0,0 +1,37 @@
+// src/utils/audio-file.ts
+import { Audio } from 'expo-av';
+
+/**
+ * Read the duration of an audio file in seconds by loading it with expo-av.
+ * Returns null when the file can't be decoded (e.g. a truncated recording).
+ */
+export async function readAudioDuration(uri: string): Promise<number | null> {
+  let sound: Audio.Sound | null = null;
+
+  try {
+    const result = await Audio.Sound.createAsync({ uri }, { shouldPlay: false });
+    sound = result.sound;
+
+    const status = await sound.getStatusAsync();
+    if (!status.isLoaded || !status.durationMillis) {
+      return null;
+    }
+
+    return Math.round(status.durationMillis / 1000);
+  } catch (error) {
+    console.warn('Could not read audio duration', uri, error);
+    return null;
+  } finally {
+    if (sound) {
+      await sound.unloadAsync().catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Get the file extension of a URI, including the dot
+ */
+export function getFileExtension(uri: string, fallback: string = '.m4a'): string {
+  const match = uri.split('?')[0].match(/\.[a-zA-Z0-9]+$/);
+  return match ? match[0].toLowerCase() : fallback;
+}
@@ -0,0 +1,37 @@
+// src/utils/bookmarks.ts
+
+// Words either side of a bookmark to quote as its context
+export const BOOKMARK_CONTEXT_WORDS = 15;
+
+/**
+ * Format a position in seconds as m:ss
+ */
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds));
+  const mins = Math.floor(whole / 60);
+  const secs = whole % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Estimate what was being said at a point in a recording. Without word timings
+ * the transcript is assumed to be spoken at an even pace.
+ */
+export function getTranscriptExcerpt(
+  transcript: string,
+  time: number,
+  duration: number,
+  contextWords: number = BOOKMARK_CONTEXT_WORDS
+): string {
+  const words = transcript.split(/\s+/).filter(word => word.length > 0);
+  if (words.length === 0 || duration <= 0) {
+    return '';
+  }
+
+  const position = Math.min(1, Math.max(0, time / duration));
+  const center = Math.round(position * (words.length - 1));
+  const start = Math.max(0, center - contextWords);
+  const end = Math.min(words.length, center + contextWords + 1);
+
+  return `${start > 0 ? '...' : ''}${words.slice(start, end).join(' ')}${end < words.length ? '...' : ''}`;
+}
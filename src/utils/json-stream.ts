@@ -0,0 +1,93 @@
+// src/utils/json-stream.ts
+
+// An object from one of the arrays of a JSON object, complete and parsed
+export interface StreamedItem {
+  key: string; // the array it is in, e.g. tasks
+  index: number;
+  value: unknown;
+}
+
+/**
+ * Reads a JSON object like {"a": [{...}, {...}], "b": [...]} as it arrives in
+ * pieces, and hands back each object in its arrays as soon as it is complete
+ */
+export class JsonArrayItemReader {
+  private text = '';
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private lastKey: string | null = null;
+  private arrayKey: string | null = null;
+  private itemStart = -1;
+  private index = 0;
+
+  /**
+   * Add the next piece of JSON and get the array items it completed
+   */
+  public feed(chunk: string): StreamedItem[] {
+    this.text += chunk;
+    const items: StreamedItem[] = [];
+
+    for (; this.position < this.text.length; this.position++) {
+      const char = this.text[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          // Strings directly inside the outer object are its keys (or plain values)
+          if (this.depth === 1) {
+            this.lastKey = this.parse(this.text.slice(this.stringStart, this.position + 1)) as string | null;
+          }
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.position;
+          break;
+        case '{':
+        case '[':
+          if (char === '[' && this.depth === 1) {
+            this.arrayKey = this.lastKey;
+            this.index = 0;
+          } else if (char === '{' && this.depth === 2 && this.arrayKey !== null) {
+            this.itemStart = this.position;
+          }
+          this.depth++;
+          break;
+        case '}':
+        case ']':
+          this.depth--;
+          if (this.depth === 2 && this.itemStart !== -1 && this.arrayKey !== null) {
+            items.push({
+              key: this.arrayKey,
+              index: this.index++,
+              value: this.parse(this.text.slice(this.itemStart, this.position + 1)),
+            });
+            this.itemStart = -1;
+          } else if (this.depth === 1) {
+            this.arrayKey = null;
+          }
+          break;
+      }
+    }
+
+    return items;
+  }
+
+  private parse(json: string): unknown {
+    try {
+      return JSON.parse(json);
+    } catch (error) {
+      return null;
+    }
+  }
+}
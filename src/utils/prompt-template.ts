@@ -0,0 +1,53 @@
+// src/utils/prompt-template.ts
+import { PROMPT_VARIABLES } from '../config/prompt-templates';
+
+const VARIABLE_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Fill a template's {variables} in. Values are put in as they are, so a
+ * transcript that happens to contain "{today}" is left alone. Unknown
+ * variables are kept as written, and the transcript is added at the end of
+ * templates that don't place it.
+ */
+export function renderPromptTemplate(body: string, values: Record<string, string>): string {
+  const rendered = body.replace(VARIABLE_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match
+  );
+
+  if (!findTemplateVariables(body).includes('transcript') && values.transcript !== undefined) {
+    return `${rendered.trimEnd()}\n\nHere's the transcript:\n${values.transcript}`;
+  }
+  return rendered;
+}
+
+/**
+ * List the variables a template uses, each once, in the order they first appear
+ */
+export function findTemplateVariables(body: string): string[] {
+  const names: string[] = [];
+  for (const match of body.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+}
+
+/**
+ * Describe anything in a template that probably isn't what was meant
+ */
+export function checkPromptTemplate(body: string): string[] {
+  const known = PROMPT_VARIABLES.map(variable => variable.name);
+  const used = findTemplateVariables(body);
+  const problems: string[] = [];
+
+  if (!body.trim()) {
+    problems.push('The template is empty.');
+  }
+  if (!used.includes('transcript')) {
+    problems.push('{transcript} is missing, so the transcript will be added at the end.');
+  }
+  used
+    .filter(name => !known.includes(name))
+    .forEach(name => problems.push(`{${name}} isn't a variable and will be sent as written.`));
+
+  return problems;
+}
@@ -0,0 +1,220 @@
+// src/utils/relative-dates.ts
+
+// A concrete day, and time if one was said, worked out from a phrase
+export interface ResolvedDate {
+  date: string; // YYYY-MM-DD in the user's time zone
+  time: string | null; // HH:MM, 24-hour
+}
+
+// Why a task's date needs a second look, with what Claude suggested instead
+export interface TaskDateReview {
+  reason: string;
+  date: string | null;
+  time: string | null;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+  eight: 8, nine: 9, ten: 10, couple: 2, 'a couple': 2, 'a couple of': 2,
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Format a date as YYYY-MM-DD in the device's time zone
+ */
+export function formatLocalDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Read a YYYY-MM-DD date (and HH:MM time) as a moment in the device's time
+ * zone. `new Date('2026-10-21')` would give midnight UTC instead, which is
+ * the day before anywhere west of Greenwich.
+ */
+export function parseLocalDate(date: string, time?: string | null): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = (time || '00:00').split(':').map(Number);
+  return new Date(year, month - 1, day, hours || 0, minutes || 0);
+}
+
+/**
+ * Get the device's IANA time zone, e.g. America/New_York
+ */
+export function getTimeZoneName(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch (error) {
+    return 'UTC';
+  }
+}
+
+/**
+ * Describe today for the extraction prompt, e.g. "Sunday, 2026-10-18"
+ */
+export function describeToday(now: Date = new Date()): string {
+  const weekday = WEEKDAYS[now.getDay()];
+  return `${weekday[0].toUpperCase()}${weekday.slice(1)}, ${formatLocalDate(now)}`;
+}
+
+/**
+ * Describe the device's time zone for the extraction prompt, e.g.
+ * "America/New_York (UTC-04:00)"
+ */
+export function describeTimeZone(now: Date = new Date()): string {
+  const offset = -now.getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  const utcOffset = `UTC${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+  return `${getTimeZoneName()} (${utcOffset})`;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+// Monday-based day of the week, 0 for Monday to 6 for Sunday
+function weekdayFromMonday(date: Date): number {
+  return (date.getDay() + 6) % 7;
+}
+
+// Find an explicit clock time, like "6pm", "6:30 p.m.", "18:00" or "noon"
+function resolveTime(phrase: string): string | null {
+  const twelveHour = phrase.match(/\b(\d{1,2})(?::([0-5]\d))?\s*(a\.?m\.?|p\.?m\.?)(?![a-z])/);
+  if (twelveHour) {
+    const hour = Number(twelveHour[1]);
+    if (hour >= 1 && hour <= 12) {
+      const afternoon = twelveHour[3].startsWith('p');
+      return `${pad((hour % 12) + (afternoon ? 12 : 0))}:${twelveHour[2] || '00'}`;
+    }
+  }
+
+  const twentyFourHour = phrase.match(/\b([01]?\d|2[0-3]):([0-5]\d)\b/);
+  if (twentyFourHour) {
+    return `${pad(Number(twentyFourHour[1]))}:${twentyFourHour[2]}`;
+  }
+
+  if (/\b(noon|midday)\b/.test(phrase)) {
+    return '12:00';
+  }
+  return null;
+}
+
+// Find the day a phrase means, or null if it doesn't name one day
+function resolveDay(phrase: string, today: Date): Date | null {
+  if (/\bday after tomorrow\b/.test(phrase)) return addDays(today, 2);
+  if (/\btomorrow\b/.test(phrase)) return addDays(today, 1);
+  if (/\b(today|tonight|this (morning|afternoon|evening))\b/.test(phrase)) return today;
+
+  // "in 3 days", "in a week", "in a couple of weeks"
+  const offset = phrase.match(/\bin (\d+|a couple of|a couple|couple|an|a|one|two|three|four|five|six|seven|eight|nine|ten) (day|week|month)s?\b/);
+  if (offset) {
+    const count = /^\d+$/.test(offset[1]) ? Number(offset[1]) : NUMBER_WORDS[offset[1]];
+    if (offset[2] === 'day') return addDays(today, count);
+    if (offset[2] === 'week') return addDays(today, count * 7);
+    return new Date(today.getFullYear(), today.getMonth() + count, today.getDate());
+  }
+
+  // "end of the month", "end of next month"
+  const monthEnd = phrase.match(/\bend of (the |this |next )?month\b/);
+  if (monthEnd) {
+    const months = monthEnd[1] === 'next ' ? 2 : 1;
+    return new Date(today.getFullYear(), today.getMonth() + months, 0);
+  }
+
+  // The Friday of this working week; at the weekend it's unclear which week is meant
+  if (/\bend of (the |this )?week\b/.test(phrase)) {
+    const weekday = weekdayFromMonday(today);
+    return weekday <= 4 ? addDays(today, 4 - weekday) : null;
+  }
+
+  // Saturday of this week, or of next week
+  const weekend = phrase.match(/\b(this|next) weekend\b/);
+  if (weekend) {
+    const weekday = weekdayFromMonday(today);
+    if (weekend[1] === 'this') return weekday >= 5 ? today : addDays(today, 5 - weekday);
+    return addDays(today, 12 - weekday);
+  }
+
+  // "next Wednesday" is the Wednesday of next week; "this Wednesday" the one
+  // of this week if it hasn't passed; "Wednesday" or "by Wednesday" the next one
+  const weekdayMatch = phrase.match(/\b(?:(this|next|coming)\s+)?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/);
+  if (weekdayMatch) {
+    const target = (WEEKDAYS.indexOf(weekdayMatch[2]) + 6) % 7;
+    const weekday = weekdayFromMonday(today);
+    if (weekdayMatch[1] === 'next') return addDays(today, 7 - weekday + target);
+    if (weekdayMatch[1] === 'this' && target >= weekday) return addDays(today, target - weekday);
+    return addDays(today, ((target - weekday + 6) % 7) + 1);
+  }
+
+  // "October 21", "21st of October"; the next time that date comes round
+  const monthNames = MONTHS.join('|');
+  const monthDay = phrase.match(new RegExp(`\\b(${monthNames}) (\\d{1,2})(?:st|nd|rd|th)?\\b`)) ||
+    phrase.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)? (?:of )?(${monthNames})\\b`));
+  if (monthDay) {
+    const [monthName, day] = /^\d/.test(monthDay[1])
+      ? [monthDay[2], Number(monthDay[1])]
+      : [monthDay[1], Number(monthDay[2])];
+    const month = MONTHS.indexOf(monthName);
+    let date = new Date(today.getFullYear(), month, day);
+    if (date.getMonth() !== month) return null; // e.g. February 30
+    if (date < today) date = new Date(today.getFullYear() + 1, month, day);
+    return date;
+  }
+
+  return null;
+}
+
+/**
+ * Work out the day (and time, if one was said) that a phrase like "next
+ * Wednesday", "end of month" or "tomorrow at 6pm" means, counting from now in
+ * the device's time zone. Returns null for phrases that don't name one day,
+ * like "next week" or "soon".
+ */
+export function resolveRelativeDate(phrase: string, now: Date = new Date()): ResolvedDate | null {
+  const normalized = phrase.toLowerCase().replace(/[,!?]/g, ' ').replace(/\s+/g, ' ').trim();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  const day = resolveDay(normalized, today);
+  if (!day) {
+    return null;
+  }
+  return { date: formatLocalDate(day), time: resolveTime(normalized) };
+}
+
+/**
+ * Settle a task's date from what Claude suggested and what its date phrase
+ * resolves to. The resolved date wins; if Claude suggested something else,
+ * the task is flagged for review with Claude's suggestion kept.
+ */
+export function reconcileTaskDate(
+  task: { date: string | null; time: string | null; datePhrase?: string | null },
+  now: Date = new Date()
+): { date: string | null; time: string | null; dateReview?: TaskDateReview } {
+  const resolved = task.datePhrase ? resolveRelativeDate(task.datePhrase, now) : null;
+  if (!resolved) {
+    return { date: task.date, time: task.time };
+  }
+
+  const time = resolved.time || task.time;
+  const dateDiffers = resolved.date !== task.date;
+  const timeDiffers = resolved.time !== null && resolved.time !== task.time;
+  if (!dateDiffers && !timeDiffers) {
+    return { date: resolved.date, time };
+  }
+
+  const suggested = [task.date, task.time].filter(Boolean).join(' at ') || 'no date';
+  return {
+    date: resolved.date,
+    time,
+    dateReview: {
+      reason: `"${task.datePhrase}" was read as ${[resolved.date, time].filter(Boolean).join(' at ')}, but Claude suggested ${suggested}.`,
+      date: task.date,
+      time: task.time,
+    },
+  };
+}
@@ -0,0 +1,90 @@
+// src/utils/search-text.ts
+
+// A word in a text, with where it is
+export interface TextToken {
+  term: string; // normalized for matching
+  start: number;
+  end: number;
+}
+
+// Part of a search result snippet; matching words are highlighted
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+// Characters of context kept on each side of the first match in a snippet
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * Normalize a word for matching: lowercase, without accents, so "Café" finds "cafe"
+ */
+export function normalizeTerm(word: string): string {
+  return word.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Split a text into normalized words with their positions
+ */
+export function tokenizeForSearch(text: string): TextToken[] {
+  const tokens: TextToken[] = [];
+  const pattern = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({
+      term: normalizeTerm(match[0]),
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Find the words of a text that start with any of the query terms
+ */
+export function findMatches(text: string, queryTerms: string[]): TextToken[] {
+  return tokenizeForSearch(text).filter(token => queryTerms.some(term => token.term.startsWith(term)));
+}
+
+/**
+ * Cut a short piece of text around the first match, with every match in it highlighted
+ */
+export function buildSnippet(text: string, matches: TextToken[]): SnippetPart[] {
+  if (matches.length === 0) {
+    const short = text.length > SNIPPET_CONTEXT * 2 ? `${text.slice(0, SNIPPET_CONTEXT * 2).trim()}…` : text;
+    return [{ text: short, match: false }];
+  }
+
+  // Widen the window to whole words, so the snippet doesn't start or end mid-word
+  let start = Math.max(0, matches[0].start - SNIPPET_CONTEXT);
+  let end = Math.min(text.length, matches[0].end + SNIPPET_CONTEXT);
+  while (start > 0 && /\S/.test(text[start - 1])) start--;
+  while (end < text.length && /\S/.test(text[end])) end++;
+
+  const parts: SnippetPart[] = [];
+  let position = start;
+  for (const match of matches) {
+    if (match.start < start || match.end > end) continue;
+    if (match.start > position) {
+      parts.push({ text: text.slice(position, match.start), match: false });
+    }
+    parts.push({ text: text.slice(match.start, match.end), match: true });
+    position = match.end;
+  }
+  if (position < end) {
+    parts.push({ text: text.slice(position, end), match: false });
+  }
+
+  // Collapse line breaks, and mark text cut off on either side
+  const snippet = parts.map(part => ({ ...part, text: part.text.replace(/\s+/g, ' ') }));
+  if (start > 0) {
+    snippet.unshift({ text: '…', match: false });
+  }
+  if (end < text.length) {
+    snippet.push({ text: '…', match: false });
+  }
+  return snippet;
+}
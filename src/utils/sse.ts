@@ -0,0 +1,40 @@
+// src/utils/sse.ts
+
+// One server-sent event
+export interface ServerSentEvent {
+  event: string; // "message" when the server didn't name it
+  data: string;
+}
+
+/**
+ * Split the events out of text received so far from an event stream. Text
+ * after the last complete event is returned as the rest, to be read again
+ * once more has arrived.
+ */
+export function parseServerSentEvents(text: string): { events: ServerSentEvent[]; rest: string } {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  const blocks = normalized.split('\n\n');
+  const rest = blocks.pop() || '';
+
+  const events: ServerSentEvent[] = [];
+  for (const block of blocks) {
+    let event = 'message';
+    const data: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (!line || line.startsWith(':')) continue; // comments keep the connection alive
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (field === 'event') event = value;
+      if (field === 'data') data.push(value);
+    }
+
+    if (data.length > 0) {
+      events.push({ event, data: data.join('\n') });
+    }
+  }
+
+  return { events, rest };
+}
@@ -0,0 +1,115 @@
+// src/utils/task-matching.ts
+import { tokenizeForSearch } from './search-text';
+
+// A task from the last extraction paired with the one that replaces it
+export interface TaskMatch {
+  existingIndex: number;
+  incomingIndex: number;
+  score: number;
+}
+
+export interface TaskMatchResult {
+  matches: TaskMatch[];
+  unmatchedExisting: number[]; // indexes of tasks that weren't extracted again
+  unmatchedIncoming: number[]; // indexes of tasks that are new
+}
+
+// How alike two titles must be to count as the same task, from 0 to 1
+export const MATCH_THRESHOLD = 0.6;
+
+// Words that say little about which task it is
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'to', 'for', 'of', 'and', 'or', 'with', 'on', 'in', 'at',
+  'about', 'my', 'your', 'our', 'some', 'up'
+]);
+
+function titleWords(title: string): Set<string> {
+  const words = tokenizeForSearch(title).map(token => token.term);
+  const meaningful = words.filter(word => !STOP_WORDS.has(word));
+  return new Set(meaningful.length > 0 ? meaningful : words);
+}
+
+// Pairs of letters in the title, so "Call mom" and "Call mum" still look alike
+function letterPairs(title: string): Map<string, number> {
+  const text = tokenizeForSearch(title).map(token => token.term).join(' ');
+  const pairs = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    pairs.set(pair, (pairs.get(pair) || 0) + 1);
+  }
+  return pairs;
+}
+
+function diceOfSets(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return (2 * shared) / (a.size + b.size);
+}
+
+function diceOfCounts(a: Map<string, number>, b: Map<string, number>): number {
+  let sizeA = 0;
+  let sizeB = 0;
+  let shared = 0;
+  a.forEach(count => (sizeA += count));
+  b.forEach(count => (sizeB += count));
+  if (sizeA === 0 && sizeB === 0) return 1;
+  a.forEach((count, pair) => {
+    shared += Math.min(count, b.get(pair) || 0);
+  });
+  return (2 * shared) / (sizeA + sizeB);
+}
+
+/**
+ * How alike two task titles are, from 0 (nothing in common) to 1 (the same
+ * words), by whichever of shared words or shared letter pairs is higher
+ */
+export function titleSimilarity(a: string, b: string): number {
+  return Math.max(
+    diceOfSets(titleWords(a), titleWords(b)),
+    diceOfCounts(letterPairs(a), letterPairs(b))
+  );
+}
+
+/**
+ * Pair each re-extracted task with the existing task it most likely is. The
+ * most alike pairs are taken first, and each task is used at most once.
+ */
+export function matchTasks(
+  existing: { title: string }[],
+  incoming: { title: string }[],
+  threshold: number = MATCH_THRESHOLD
+): TaskMatchResult {
+  const candidates: TaskMatch[] = [];
+  existing.forEach((existingTask, existingIndex) => {
+    incoming.forEach((incomingTask, incomingIndex) => {
+      const score = titleSimilarity(existingTask.title, incomingTask.title);
+      if (score >= threshold) {
+        candidates.push({ existingIndex, incomingIndex, score });
+      }
+    });
+  });
+
+  // Best first; ties go to the task that was listed first
+  candidates.sort((a, b) =>
+    b.score - a.score || a.existingIndex - b.existingIndex || a.incomingIndex - b.incomingIndex
+  );
+
+  const usedExisting = new Set<number>();
+  const usedIncoming = new Set<number>();
+  const matches: TaskMatch[] = [];
+  for (const candidate of candidates) {
+    if (usedExisting.has(candidate.existingIndex) || usedIncoming.has(candidate.incomingIndex)) continue;
+    usedExisting.add(candidate.existingIndex);
+    usedIncoming.add(candidate.incomingIndex);
+    matches.push(candidate);
+  }
+
+  return {
+    matches,
+    unmatchedExisting: existing.map((_task, index) => index).filter(index => !usedExisting.has(index)),
+    unmatchedIncoming: incoming.map((_task, index) => index).filter(index => !usedIncoming.has(index)),
+  };
+}
@@ -0,0 +1,82 @@
+// src/utils/task-priority.ts
+import {
+  TaskPriority,
+  PriorityLevel,
+  EisenhowerQuadrant,
+  PRIORITY_LEVELS,
+  TASK_PRIORITIES,
+  EISENHOWER_QUADRANTS,
+  EISENHOWER_THRESHOLD,
+  getPriorityLevel
+} from '../config/priorities';
+
+// What sorting and grouping needs to know about a task
+export interface PrioritizedItem {
+  priority: TaskPriority;
+  urgency: number; // from 1 to 5
+  importance: number; // from 1 to 5
+}
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 5;
+
+/**
+ * Bring a score into range, or use the fallback if it isn't a number
+ */
+export function clampScore(value: unknown, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return fallback;
+  }
+  return Math.min(MAX_SCORE, Math.max(MIN_SCORE, Math.round(value)));
+}
+
+/**
+ * The urgency and importance a task of this level gets unless it is scored
+ */
+export function scoresForPriority(priority: TaskPriority): { urgency: number; importance: number } {
+  const { urgency, importance } = getPriorityLevel(priority);
+  return { urgency, importance };
+}
+
+/**
+ * Sort tasks by level, most pressing first, and within a level by importance
+ * then urgency. Tasks that tie keep their order.
+ */
+export function sortByPriority<T extends PrioritizedItem>(items: T[]): T[] {
+  return [...items].sort((a, b) =>
+    TASK_PRIORITIES.indexOf(a.priority) - TASK_PRIORITIES.indexOf(b.priority) ||
+    b.importance - a.importance ||
+    b.urgency - a.urgency
+  );
+}
+
+/**
+ * Split tasks into the priority levels, in level order, including empty ones
+ */
+export function groupByPriority<T extends PrioritizedItem>(items: T[]): { level: PriorityLevel; items: T[] }[] {
+  const sorted = sortByPriority(items);
+  return PRIORITY_LEVELS.map(level => ({
+    level,
+    items: sorted.filter(item => item.priority === level.id),
+  }));
+}
+
+/**
+ * Find the urgent/important quadrant a task falls in
+ */
+export function getEisenhowerQuadrant(item: PrioritizedItem): EisenhowerQuadrant {
+  const urgent = item.urgency >= EISENHOWER_THRESHOLD;
+  const important = item.importance >= EISENHOWER_THRESHOLD;
+  return EISENHOWER_QUADRANTS.find(quadrant => quadrant.urgent === urgent && quadrant.important === important)!;
+}
+
+/**
+ * Split tasks into the quadrants of the urgent/important matrix, including empty ones
+ */
+export function groupByQuadrant<T extends PrioritizedItem>(items: T[]): { quadrant: EisenhowerQuadrant; items: T[] }[] {
+  const sorted = sortByPriority(items);
+  return EISENHOWER_QUADRANTS.map(quadrant => ({
+    quadrant,
+    items: sorted.filter(item => getEisenhowerQuadrant(item).id === quadrant.id),
+  }));
+}
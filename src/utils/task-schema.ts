@@ -0,0 +1,225 @@
+// src/utils/task-schema.ts
+import { TaskPriority, PRIORITY_LEVELS, TASK_PRIORITIES, isTaskPriority } from '../config/priorities';
+import { MIN_SCORE, MAX_SCORE } from './task-priority';
+
+// A task as Claude extracts it, before it is given an ID and a recording
+export interface ExtractedTask {
+  title: string;
+  priority: TaskPriority;
+  urgency?: number | null; // from 1 to 5
+  importance?: number | null; // from 1 to 5
+  date: string | null; // YYYY-MM-DD
+  time: string | null; // HH:MM, 24-hour
+  datePhrase?: string | null; // the words the date was worked out from, e.g. "next Wednesday"
+  duration: number; // in minutes
+  subTasks?: { title: string }[];
+}
+
+export interface ExtractedTasks {
+  tasks: ExtractedTask[]; // in the order Claude listed them
+}
+
+// A field of Claude's response that doesn't match the schema
+export interface SchemaError {
+  path: string; // e.g. tasks[2].date
+  message: string;
+}
+
+export type TaskValidationResult =
+  | { valid: true; value: ExtractedTasks }
+  | { valid: false; errors: SchemaError[] };
+
+const TASK_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: 'Clear, concise task title' },
+    priority: {
+      type: 'string',
+      enum: TASK_PRIORITIES,
+      description: PRIORITY_LEVELS.map(level => `${level.id}: ${level.description}`).join('; '),
+    },
+    urgency: {
+      type: 'integer',
+      minimum: MIN_SCORE,
+      maximum: MAX_SCORE,
+      description: 'How soon it has to happen, from 1 (no deadline) to 5 (today)',
+    },
+    importance: {
+      type: 'integer',
+      minimum: MIN_SCORE,
+      maximum: MAX_SCORE,
+      description: 'How much it matters to the speaker, from 1 (nice to have) to 5 (serious consequences if missed)',
+    },
+    date: {
+      type: ['string', 'null'],
+      description: 'Suggested date as YYYY-MM-DD, or null if there is no sensible date',
+    },
+    time: {
+      type: ['string', 'null'],
+      description: 'Suggested start time as HH:MM in 24-hour time, or null',
+    },
+    datePhrase: {
+      type: ['string', 'null'],
+      description: 'The words from the transcript the date or time is based on, e.g. "next Wednesday at 6pm", or null',
+    },
+    duration: { type: 'integer', minimum: 0, description: 'Estimated duration in minutes' },
+    subTasks: {
+      type: 'array',
+      description: 'Steps of a complex task, if it needs breaking down',
+      items: {
+        type: 'object',
+        properties: { title: { type: 'string' } },
+        required: ['title'],
+      },
+    },
+  },
+  required: ['title', 'priority', 'date', 'time', 'duration'],
+};
+
+/**
+ * JSON schema of the extraction result, given to Claude as the input of its tool
+ */
+export const TASK_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    tasks: {
+      type: 'array',
+      description: 'Every task, most pressing first',
+      items: TASK_SCHEMA,
+    },
+  },
+  required: ['tasks'],
+};
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Whether a YYYY-MM-DD string is a real calendar date
+function isValidDate(value: string): boolean {
+  const match = value.match(DATE_PATTERN);
+  if (!match) return false;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function isScore(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= MIN_SCORE && value <= MAX_SCORE;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateTask(value: unknown, path: string, errors: SchemaError[]): ExtractedTask | null {
+  if (!isObject(value)) {
+    errors.push({ path, message: 'must be an object' });
+    return null;
+  }
+
+  const before = errors.length;
+  const { title, priority, urgency, importance, date, time, datePhrase, duration, subTasks } = value;
+
+  if (typeof title !== 'string' || !title.trim()) {
+    errors.push({ path: `${path}.title`, message: 'must be a non-empty string' });
+  }
+  if (!isTaskPriority(priority)) {
+    errors.push({ path: `${path}.priority`, message: `must be one of ${TASK_PRIORITIES.join(', ')}, got ${JSON.stringify(priority)}` });
+  }
+  if (urgency !== undefined && urgency !== null && !isScore(urgency)) {
+    errors.push({ path: `${path}.urgency`, message: `must be a whole number from ${MIN_SCORE} to ${MAX_SCORE}, got ${JSON.stringify(urgency)}` });
+  }
+  if (importance !== undefined && importance !== null && !isScore(importance)) {
+    errors.push({ path: `${path}.importance`, message: `must be a whole number from ${MIN_SCORE} to ${MAX_SCORE}, got ${JSON.stringify(importance)}` });
+  }
+  if (date !== null && (typeof date !== 'string' || !isValidDate(date))) {
+    errors.push({ path: `${path}.date`, message: `must be a real date as YYYY-MM-DD or null, got ${JSON.stringify(date)}` });
+  }
+  if (time !== null && (typeof time !== 'string' || !TIME_PATTERN.test(time))) {
+    errors.push({ path: `${path}.time`, message: `must be HH:MM in 24-hour time or null, got ${JSON.stringify(time)}` });
+  }
+  if (datePhrase !== undefined && datePhrase !== null && typeof datePhrase !== 'string') {
+    errors.push({ path: `${path}.datePhrase`, message: 'must be a string or null' });
+  }
+  if (typeof duration !== 'number' || !Number.isFinite(duration) || duration < 0) {
+    errors.push({ path: `${path}.duration`, message: `must be a number of minutes, got ${JSON.stringify(duration)}` });
+  }
+
+  let validSubTasks: { title: string }[] | undefined;
+  if (subTasks !== undefined && subTasks !== null) {
+    if (!Array.isArray(subTasks)) {
+      errors.push({ path: `${path}.subTasks`, message: 'must be an array' });
+    } else {
+      validSubTasks = [];
+      subTasks.forEach((subTask, index) => {
+        if (!isObject(subTask) || typeof subTask.title !== 'string' || !subTask.title.trim()) {
+          errors.push({ path: `${path}.subTasks[${index}].title`, message: 'must be a non-empty string' });
+        } else {
+          validSubTasks!.push({ title: subTask.title.trim() });
+        }
+      });
+    }
+  }
+
+  if (errors.length > before) {
+    return null;
+  }
+
+  return {
+    title: (title as string).trim(),
+    priority: priority as TaskPriority,
+    urgency: typeof urgency === 'number' ? urgency : null,
+    importance: typeof importance === 'number' ? importance : null,
+    date: date as string | null,
+    time: time as string | null,
+    datePhrase: typeof datePhrase === 'string' && datePhrase.trim() ? datePhrase.trim() : null,
+    duration: Math.round(duration as number),
+    ...(validSubTasks && validSubTasks.length > 0 ? { subTasks: validSubTasks } : {}),
+  };
+}
+
+function validateTaskList(value: unknown, path: string, errors: SchemaError[]): ExtractedTask[] {
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: 'must be an array of tasks' });
+    return [];
+  }
+
+  const tasks: ExtractedTask[] = [];
+  value.forEach((item, index) => {
+    const task = validateTask(item, `${path}[${index}]`, errors);
+    if (task) tasks.push(task);
+  });
+  return tasks;
+}
+
+/**
+ * Check one task on its own, e.g. as it arrives while Claude is still replying
+ */
+export function validateExtractedTask(value: unknown): ExtractedTask | null {
+  return validateTask(value, 'task', []);
+}
+
+/**
+ * Check Claude's extraction result against the schema, listing every field that is wrong
+ */
+export function validateTaskResponse(value: unknown): TaskValidationResult {
+  if (!isObject(value)) {
+    return { valid: false, errors: [{ path: '', message: 'must be an object' }] };
+  }
+
+  const errors: SchemaError[] = [];
+  const tasks = validateTaskList(value.tasks, 'tasks', errors);
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, value: { tasks } };
+}
+
+/**
+ * Describe schema errors one per line, for logs and for asking Claude to fix them
+ */
+export function formatSchemaErrors(errors: SchemaError[]): string {
+  return errors.map(error => `- ${error.path || 'response'}: ${error.message}`).join('\n');
+}
@@ -0,0 +1,116 @@
+// src/utils/text-diff.ts
+
+// A run of words that is the same in both texts, or only in one of them
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string; // words joined with their original whitespace
+}
+
+// Largest comparison table built before falling back to a coarse diff
+const MAX_DIFF_CELLS = 2000000;
+
+// Split into words, each keeping the whitespace after it
+function tokenize(text: string): string[] {
+  return text.match(/\S+\s*/g) || [];
+}
+
+// Compare words without the whitespace around them
+function sameWord(a: string, b: string): boolean {
+  return a.trim() === b.trim();
+}
+
+// Add tokens to the diff, joining them onto the last part if it has the same type
+function push(parts: DiffPart[], type: DiffPart['type'], tokens: string[]): void {
+  if (tokens.length === 0) return;
+
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += tokens.join('');
+  } else {
+    parts.push({ type, text: tokens.join('') });
+  }
+}
+
+/**
+ * Compare two texts word by word. Words shared at the start and end are
+ * matched first, then the changed middle by longest common subsequence.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && sameWord(a[prefix], b[prefix])) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    sameWord(a[a.length - 1 - suffix], b[b.length - 1 - suffix])
+  ) {
+    suffix++;
+  }
+
+  const parts: DiffPart[] = [];
+  push(parts, 'equal', b.slice(0, prefix));
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const rows = middleA.length;
+  const columns = middleB.length;
+
+  if (rows === 0 || columns === 0 || (rows + 1) * (columns + 1) > MAX_DIFF_CELLS) {
+    // Nothing to match up, or too much to compare: show the middle as replaced
+    push(parts, 'removed', middleA);
+    push(parts, 'added', middleB);
+  } else {
+    // lengths[i][j] = longest common subsequence of middleA[i..] and middleB[j..]
+    const width = columns + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lengths[i * width + j] = sameWord(middleA[i], middleB[j])
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < columns) {
+      if (sameWord(middleA[i], middleB[j])) {
+        push(parts, 'equal', [middleB[j]]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        push(parts, 'removed', [middleA[i]]);
+        i++;
+      } else {
+        push(parts, 'added', [middleB[j]]);
+        j++;
+      }
+    }
+    push(parts, 'removed', middleA.slice(i));
+    push(parts, 'added', middleB.slice(j));
+  }
+
+  push(parts, 'equal', b.slice(b.length - suffix));
+  return parts;
+}
+
+/**
+ * Count the words added and removed by a diff
+ */
+export function countChanges(parts: DiffPart[]): { added: number; removed: number } {
+  return parts.reduce(
+    (counts, part) => {
+      const words = tokenize(part.text).length;
+      if (part.type === 'added') counts.added += words;
+      if (part.type === 'removed') counts.removed += words;
+      return counts;
+    },
+    { added: 0, removed: 0 }
+  );
+}
@@ -0,0 +1,100 @@
+// src/utils/transcript-cleanup.ts
+
+// Longest phrase, in words, checked for being said twice in a row
+const MAX_REPEATED_PHRASE_WORDS = 4;
+
+// Hesitation sounds with no meaning of their own. Only removed from English,
+// since some are real words elsewhere (German "er" means "he").
+const ENGLISH_FILLER_PATTERN = /(?<![\p{L}\p{N}'-])(?:u+m+|u+h+|erm+|er|a+h+|h+m+|m+h?m+)(?![\p{L}\p{N}'-])[,.]?\s*/giu;
+
+// Lowercase a word and strip punctuation around it, for comparing words
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+}
+
+// Whether a word ends a sentence
+function endsSentence(word: string): boolean {
+  return /[.!?]["')\]]*$/.test(word);
+}
+
+// Drop cut-off starts of words, like "w-" in "I w- want"
+function removeFalseStarts(words: string[]): string[] {
+  return words.filter((word, index) => {
+    const next = words[index + 1];
+    const start = word.match(/^(\p{L}{1,3})-$/u);
+    return !(start && next && normalizeWord(next).startsWith(start[1].toLowerCase()));
+  });
+}
+
+// Drop the first of two identical phrases in a row, like "the the" or
+// "batches of batches of", keeping the second, which carries the punctuation.
+function removeRepeats(words: string[]): string[] {
+  const result = [...words];
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    for (let length = MAX_REPEATED_PHRASE_WORDS; length >= 1; length--) {
+      for (let i = 0; i + length * 2 <= result.length; i++) {
+        const first = result.slice(i, i + length);
+        const second = result.slice(i + length, i + length * 2);
+
+        // A repeat across a full stop is usually deliberate ("No. No.")
+        if (endsSentence(first[length - 1])) continue;
+        if (first.some((word, index) => !normalizeWord(word) || normalizeWord(word) !== normalizeWord(second[index]))) {
+          continue;
+        }
+
+        result.splice(i, length);
+        changed = true;
+        i--;
+      }
+    }
+  }
+
+  return result;
+}
+
+// Tidy spacing, punctuation and capitals in one paragraph
+function fixSentences(paragraph: string, english: boolean): string {
+  let text = paragraph
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s+([,.!?;:])/g, '$1')
+    .replace(/([,;:])(?:\s*[,;:])+/g, '$1')
+    .replace(/[,;:]\s*([.!?])/g, '$1')
+    .replace(/^[\s,;:.]+/, '')
+    .trim();
+
+  if (english) {
+    text = text.replace(/(?<![\p{L}\p{N}'])i(?=$|[\s,.!?;:]|'(?:m|ll|ve|d)\b)/gu, 'I');
+  }
+
+  // Capital letter at the start of each sentence
+  text = text.replace(/(^|[.!?]\s+)(\p{Ll})/gu, (_match, before: string, letter: string) => before + letter.toUpperCase());
+
+  // Full stop at the end if the speaker trailed off without one
+  if (/[\p{L}\p{N}]$/u.test(text)) {
+    text += '.';
+  }
+
+  return text;
+}
+
+/**
+ * Clean up a raw transcript: drop stutters, repeated words and (in English)
+ * filler sounds, and fix spacing, capitals and sentence endings. The same
+ * text always gives the same result, and clean text is left as it is.
+ */
+export function cleanTranscript(text: string, language?: string): string {
+  const english = !language || language === 'en';
+
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => {
+      const withoutFillers = english ? paragraph.replace(ENGLISH_FILLER_PATTERN, '') : paragraph;
+      const words = withoutFillers.split(/\s+/).filter(word => word.length > 0);
+      return fixSentences(removeRepeats(removeFalseStarts(words)).join(' '), english);
+    })
+    .filter(paragraph => paragraph.length > 0)
+    .join('\n\n');
+}
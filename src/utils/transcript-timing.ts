@@ -0,0 +1,147 @@
+// src/utils/transcript-timing.ts
+
+// A spoken word and when it was said
+export interface TranscriptWord {
+  word: string;
+  start: number; // in seconds
+  end: number; // in seconds
+}
+
+// A stretch of speech as returned by the transcription provider
+export interface TranscriptSegment {
+  text: string;
+  start: number; // in seconds
+  end: number; // in seconds
+  words: TranscriptWord[];
+}
+
+// A word of the displayed transcript, with its timing if one could be matched
+export interface TimedToken {
+  text: string; // includes the whitespace after it, so tokens join back into the transcript
+  start: number | null;
+  end: number | null;
+}
+
+// How far ahead to look for a token's word before giving up on it
+const ALIGNMENT_LOOKAHEAD = 6;
+
+// Most words two overlapping chunks can share at their boundary
+const MAX_OVERLAP_WORDS = 20;
+
+/**
+ * Spread a segment's words evenly over its duration, for providers that only time segments
+ */
+export function estimateWordTimings(text: string, start: number, end: number): TranscriptWord[] {
+  const words = text.split(/\s+/).filter(word => word.length > 0);
+  const step = words.length > 0 ? (end - start) / words.length : 0;
+
+  return words.map((word, index) => ({
+    word,
+    start: start + index * step,
+    end: start + (index + 1) * step,
+  }));
+}
+
+/**
+ * Move timings from a file's own clock onto the recording's timeline
+ */
+export function offsetTranscriptSegments(segments: TranscriptSegment[], offset: number): TranscriptSegment[] {
+  return segments.map(segment => ({
+    ...segment,
+    start: segment.start + offset,
+    end: segment.end + offset,
+    words: segment.words.map(word => ({ ...word, start: word.start + offset, end: word.end + offset })),
+  }));
+}
+
+// Compare words without case or punctuation
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+/**
+ * Split the transcript into tokens and attach timings from the provider's words.
+ * Works on the displayed text, so punctuation and small edits are kept; tokens
+ * that no longer match a spoken word are left untimed.
+ */
+export function alignTranscript(transcript: string, segments: TranscriptSegment[]): TimedToken[] {
+  const words = segments.reduce<TranscriptWord[]>((all, segment) => all.concat(segment.words), []);
+  const tokens = transcript.match(/\S+\s*/g) || [];
+  let next = 0;
+
+  return tokens.map(text => {
+    const normalized = normalizeWord(text);
+    if (!normalized) {
+      return { text, start: null, end: null };
+    }
+
+    for (let i = next; i < Math.min(words.length, next + ALIGNMENT_LOOKAHEAD); i++) {
+      if (normalizeWord(words[i].word) === normalized) {
+        next = i + 1;
+        return { text, start: words[i].start, end: words[i].end };
+      }
+    }
+
+    return { text, start: null, end: null };
+  });
+}
+
+/**
+ * Join the transcripts of two overlapping chunks, dropping the words at the
+ * start of the second that repeat the end of the first
+ */
+export function mergeOverlappingText(first: string, second: string): string {
+  const firstWords = first.split(/\s+/).filter(word => word.length > 0);
+  const secondWords = second.split(/\s+/).filter(word => word.length > 0);
+  const maxOverlap = Math.min(MAX_OVERLAP_WORDS, firstWords.length, secondWords.length);
+
+  // Longest run of words that ends the first text and starts the second
+  let overlap = 0;
+  for (let length = maxOverlap; length > 0; length--) {
+    const tail = firstWords.slice(firstWords.length - length).map(normalizeWord);
+    const head = secondWords.slice(0, length).map(normalizeWord);
+    if (tail.every((word, index) => word === head[index])) {
+      overlap = length;
+      break;
+    }
+  }
+
+  return [...firstWords, ...secondWords.slice(overlap)].join(' ');
+}
+
+/**
+ * Keep the words spoken within a time range, for cutting overlapping chunks apart
+ */
+export function trimSegmentsToRange(segments: TranscriptSegment[], from: number, until: number): TranscriptSegment[] {
+  return segments
+    .map(segment => {
+      const words = segment.words.filter(word => word.start >= from && word.start < until);
+      if (words.length === segment.words.length) {
+        return segment;
+      }
+
+      return {
+        text: words.map(word => word.word).join(' '),
+        start: words.length > 0 ? words[0].start : segment.start,
+        end: words.length > 0 ? words[words.length - 1].end : segment.start,
+        words,
+      };
+    })
+    .filter(segment => segment.words.length > 0);
+}
+
+/**
+ * Index of the token being spoken at a time, or -1 before the first timed token
+ */
+export function findActiveToken(tokens: TimedToken[], time: number): number {
+  let active = -1;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const start = tokens[i].start;
+    if (start === null) continue;
+    if (start > time) break;
+    active = i;
+  }
+
+  return active;
+}
@@ -0,0 +1,66 @@
+// src/utils/vocabulary.ts
+import { TranscriptSegment } from './transcript-timing';
+
+// A name or word the user wants spelled a particular way
+export interface VocabularyTerm {
+  id: string;
+  term: string; // the correct spelling
+  misspellings: string[]; // ways it tends to be transcribed, replaced after transcription
+}
+
+// Whisper only reads the last 224 tokens of its prompt; stay well under that
+const MAX_PROMPT_CHARACTERS = 600;
+
+/**
+ * Build the Whisper prompt hint. Whisper copies the spelling and style of
+ * its prompt, so a plain list of the terms nudges it towards them.
+ */
+export function buildVocabularyPrompt(terms: VocabularyTerm[]): string {
+  let prompt = '';
+
+  for (const { term } of terms) {
+    const next = prompt ? `${prompt}, ${term}` : term;
+    if (next.length > MAX_PROMPT_CHARACTERS) break;
+    prompt = next;
+  }
+
+  return prompt ? `${prompt}.` : '';
+}
+
+// Escape a string for use inside a regular expression
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Match a phrase as whole words, ignoring case
+function phrasePattern(phrase: string): RegExp {
+  const words = phrase.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${words}(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+/**
+ * Replace known misspellings with the correct term
+ */
+export function applyVocabulary(text: string, terms: VocabularyTerm[]): string {
+  return terms.reduce(
+    (fixed, { term, misspellings }) => misspellings
+      .filter(misspelling => misspelling.trim().length > 0)
+      .reduce((result, misspelling) => result.replace(phrasePattern(misspelling), term), fixed),
+    text
+  );
+}
+
+/**
+ * Fix misspellings in timed segments too, so words still line up with the
+ * corrected transcript. Only single-word misspellings can be fixed per word.
+ */
+export function applyVocabularyToSegments(
+  segments: TranscriptSegment[],
+  terms: VocabularyTerm[]
+): TranscriptSegment[] {
+  return segments.map(segment => ({
+    ...segment,
+    text: applyVocabulary(segment.text, terms),
+    words: segment.words.map(word => ({ ...word, word: applyVocabulary(word.word, terms) })),
+  }));
+}
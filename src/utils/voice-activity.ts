@@ -0,0 +1,58 @@
+// src/utils/voice-activity.ts
+
+// Time range within a recording
+export interface TimeRange {
+  start: number; // in seconds
+  end: number; // in seconds
+}
+
+// Level samples are taken every 100ms while recording
+export const LEVEL_SAMPLE_MS = 100;
+
+/**
+ * Find stretches of silence in a series of 0-1 levels
+ */
+export function detectSilentRanges(
+  levels: number[],
+  threshold: number,
+  minSilenceSeconds: number,
+  sampleMs: number = LEVEL_SAMPLE_MS
+): TimeRange[] {
+  const ranges: TimeRange[] = [];
+  const minSamples = Math.max(1, Math.round((minSilenceSeconds * 1000) / sampleMs));
+  let silenceStart = -1;
+
+  for (let i = 0; i <= levels.length; i++) {
+    const silent = i < levels.length && levels[i] < threshold;
+
+    if (silent && silenceStart === -1) {
+      silenceStart = i;
+    } else if (!silent && silenceStart !== -1) {
+      if (i - silenceStart >= minSamples) {
+        ranges.push({
+          start: (silenceStart * sampleMs) / 1000,
+          end: (i * sampleMs) / 1000,
+        });
+      }
+      silenceStart = -1;
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Check whether a stretch of a recording lies entirely within silent ranges
+ */
+export function isRangeSilent(range: TimeRange, silentRanges: TimeRange[], toleranceSeconds: number = 1): boolean {
+  return silentRanges.some(silent =>
+    silent.start <= range.start + toleranceSeconds && silent.end >= range.end - toleranceSeconds
+  );
+}
+
+/**
+ * Total length of a set of ranges, in seconds
+ */
+export function totalRangeDuration(ranges: TimeRange[]): number {
+  return ranges.reduce((total, range) => total + (range.end - range.start), 0);
+}
@@ -0,0 +1,85 @@
+// src/utils/waveform.ts
+
+// Quietest level we distinguish from silence. Phone microphones rarely report
+// anything useful below this, so the normalized scale starts here.
+export const METERING_FLOOR_DB = -60;
+
+// Number of points kept for a recording's amplitude envelope
+export const WAVEFORM_RESOLUTION = 120;
+
+/**
+ * Convert a dBFS metering value (-160 to 0) to a 0-1 level
+ */
+export function normalizeMetering(db: number | undefined): number {
+  if (db === undefined || db === null || isNaN(db)) {
+    return 0;
+  }
+  
+  if (db <= METERING_FLOOR_DB) return 0;
+  if (db >= 0) return 1;
+  
+  return (db - METERING_FLOOR_DB) / -METERING_FLOOR_DB;
+}
+
+/**
+ * Downsample a series of levels to a fixed number of buckets, keeping the peak of each bucket
+ */
+export function downsampleEnvelope(samples: number[], buckets: number = WAVEFORM_RESOLUTION): number[] {
+  if (samples.length <= buckets) {
+    return samples.map(roundLevel);
+  }
+  
+  const envelope: number[] = [];
+  const bucketSize = samples.length / buckets;
+  
+  for (let i = 0; i < buckets; i++) {
+    const start = Math.floor(i * bucketSize);
+    const end = Math.max(start + 1, Math.floor((i + 1) * bucketSize));
+    let peak = 0;
+    
+    for (let j = start; j < end && j < samples.length; j++) {
+      peak = Math.max(peak, samples[j]);
+    }
+    
+    envelope.push(roundLevel(peak));
+  }
+  
+  return envelope;
+}
+
+/**
+ * Join the envelopes of two consecutive recordings, giving each a share of the
+ * points in proportion to its duration. Returns an empty envelope if either is missing.
+ */
+export function appendEnvelope(
+  first: number[],
+  firstDuration: number,
+  second: number[],
+  secondDuration: number,
+  buckets: number = WAVEFORM_RESOLUTION
+): number[] {
+  const totalDuration = firstDuration + secondDuration;
+  if (first.length === 0 || second.length === 0 || totalDuration <= 0) {
+    return [];
+  }
+  
+  const firstBuckets = Math.min(buckets - 1, Math.max(1, Math.round((firstDuration / totalDuration) * buckets)));
+  return [
+    ...resampleEnvelope(first, firstBuckets),
+    ...resampleEnvelope(second, buckets - firstBuckets),
+  ];
+}
+
+// Shrink or stretch an envelope to an exact number of points
+function resampleEnvelope(samples: number[], count: number): number[] {
+  if (samples.length >= count) {
+    return downsampleEnvelope(samples, count);
+  }
+  
+  return Array.from({ length: count }, (_, i) => samples[Math.floor((i * samples.length) / count)]);
+}
+
+// Two decimals is plenty for drawing and keeps the stored record small
+function roundLevel(level: number): number {
+  return Math.round(level * 100) / 100;
+}